@@ -1,5 +1,6 @@
 
-import React, { useState, useMemo, useCallback } from "react";
+import React, { useState, useMemo, useCallback, useContext, useEffect, createContext } from "react";
+import { renderToStaticMarkup } from "react-dom/server";
 import {
   FaDatabase,
   FaFileContract,
@@ -11,6 +12,33 @@ import {
   FaSearch,
   FaChevronUp,
   FaChevronDown,
+  FaClipboardList,
+  FaBalanceScale,
+  FaShoppingCart,
+  FaPrint,
+  FaWarehouse,
+  FaPlus,
+  FaEdit,
+  FaTrash,
+  FaStar,
+  FaThumbtack,
+  FaLock,
+  FaSignOutAlt,
+  FaFileImport,
+  FaFileCsv,
+  FaFileExcel,
+  FaFilePdf,
+  FaGavel,
+  FaCheckCircle,
+  FaExclamationTriangle,
+  FaChartLine,
+  FaCalendarAlt,
+  FaClipboardCheck,
+  FaCog,
+  FaHourglassHalf,
+  FaUtensils,
+  FaFileSignature,
+  FaHistory,
 } from "react-icons/fa";
 import {
   BarChart,
@@ -24,13 +52,178 @@ import {
   PieChart,
   Pie,
   Cell,
+  LineChart,
+  Line,
+  ReferenceLine,
 } from "recharts";
-import { allData } from "./data";
-import { queryDataWithGemini } from "./services/geminiService";
+import {
+  LLM_PROVIDERS,
+  createLlmProvider,
+  generateStructuredQuery,
+  getLlmConfigurationIssue,
+  loadLlmSettings,
+  saveLlmSettings,
+} from "./services/llmService";
+import type { LlmProviderId, LlmSettings } from "./services/llmService";
+import { computeContractBudget } from "./services/budgetService";
+import {
+  QUERY_SCHEMA_DOC,
+  buildQueryDataset,
+  describeQueryTables,
+  matchingRecords,
+  runQuery,
+  validateQuery,
+} from "./services/queryService";
+import type { QueryDataset, QueryRow, QueryValue, StructuredQuery } from "./services/queryService";
+import { ESTADO_FILA_LABELS, describeQuery, provenanceColumns, verifyAnswer } from "./services/provenanceService";
+import type { AnswerVerification } from "./services/provenanceService";
+import {
+  TIPO_GRAFICA_LABELS,
+  analyzeResultShape,
+  availableChartTypes,
+  buildChartData,
+  createPinnedChart,
+  normalizeChartSpec,
+  suggestChart,
+} from "./services/chartService";
+import type { ChartSpec } from "./services/chartService";
+import {
+  compareQueryResults,
+  createHistoryEntry,
+  historyOverflow,
+  lastRunOf,
+  prepareSavedQuery,
+  sortSavedQueries,
+} from "./services/queryHistoryService";
+import type { ComparisonRow, EstadoComparacion, ResultComparison } from "./services/queryHistoryService";
+import { buildSupplierProfile } from "./services/supplierService";
+import {
+  DEFAULT_PRICE_TOLERANCE_PCT,
+  DEFAULT_REFERENCE_MAX_AGE_MONTHS,
+  buildPriceBenchmark,
+  parseReferencePrice,
+} from "./services/benchmarkService";
+import type { PriceBenchmarkRow } from "./services/benchmarkService";
+import { UNIDADES_BASE, UNIT_CATALOG, formatContent, pricePerBaseUnit } from "./services/unitService";
+import { SEVERIDAD_ORDEN, VALIDATION_RULES, validateDataset } from "./services/validationService";
+import type { DataIssue, Severidad } from "./services/validationService";
+import { buildMinimumComplianceReport } from "./services/complianceService";
+import type { MinimumComplianceRow } from "./services/complianceService";
+import { PORCENTAJE_SUBCONSUMO, RIESGO_LABELS, buildDepletionForecast } from "./services/forecastService";
+import type { DepletionForecastRow, RiesgoAgotamiento } from "./services/forecastService";
+import {
+  DIAS_POR_CICLO,
+  ESTADO_REQUERIMIENTO_LABELS,
+  TIPO_CICLO_LABELS,
+  assertRecipeUnused,
+  buildMenuRequirements,
+  emptyMenuDays,
+  portionUnit,
+  prepareMenu,
+  prepareRecipe,
+} from "./services/menuService";
+import type { EstadoRequerimiento, MenuRequirementRow } from "./services/menuService";
+import {
+  ACCION_AUDITORIA_LABELS,
+  auditAmendment,
+  auditDeletion,
+  auditSaves,
+  filterAuditLog,
+  formatAuditValue,
+  recordHistory,
+} from "./services/auditService";
+import type { AuditFilters } from "./services/auditService";
+import {
+  LIMITE_MODIFICACION_PCT,
+  amendmentsOf,
+  applyAmendments,
+  createAmendment,
+  increasePct,
+  priceConsumption,
+} from "./services/amendmentService";
+import { ESTADO_VIGENCIA_LABELS, formatDate, getContractValidity } from "./services/dateService";
+import type { EstadoVigencia } from "./services/dateService";
+import type { BudgetAlertLevel } from "./services/budgetService";
+import { computeContractTaxes, computeLineTaxes, computeOrderTaxes, sumTaxes } from "./services/taxService";
+import type { TaxBreakdown } from "./services/taxService";
+import {
+  applyLedger,
+  createMovement,
+} from "./services/ledgerService";
+import {
+  approveOrder,
+  cancelOrder,
+  createOrder,
+  receiveOrder,
+  sumReservedByAdjudicado,
+} from "./services/orderService";
+import {
+  buildKardex,
+  buildOrderReceipts,
+  computeStock,
+  createWarehouseMovement,
+} from "./services/inventoryService";
+import type { KardexRow } from "./services/inventoryService";
+import {
+  STORE_KEYS,
+  applyChanges,
+  commitChanges,
+  deleteRecord,
+  loadDatabase,
+  mergeRecords,
+  putRecords,
+  removeRecord,
+} from "./services/storageService";
+import type { StoreChanges, StoreData, StoreName, StoreRecords } from "./services/storageService";
+import { EDITABLE_ENTITIES, ENTITY_LABELS, assertCanDelete, prepareRecord } from "./services/entityService";
+import type { EntityName } from "./services/entityService";
+import { IMPORT_FIELDS, autoMapColumns, buildImportPreview, buildImportRecords } from "./services/importService";
+import type { ColumnMapping, ImportEntity, ImportRow } from "./services/importService";
+import { readSpreadsheetFile } from "./services/spreadsheetService";
+import { downloadTable } from "./services/exportService";
+import {
+  ETAPAS_LICITACION,
+  attachDocument,
+  buildTimeline,
+  contractsFromLicitacion,
+  countMissingItems,
+  parseDocumentRef,
+} from "./services/licitacionService";
+import type { EtapaLicitacion } from "./services/licitacionService";
+import type { ExportCell, ExportFormat } from "./services/exportService";
+import type { Sheet } from "./services/spreadsheetService";
+import {
+  SESSION_TTL_MS,
+  authenticate,
+  clearSession,
+  hasPermission,
+  loadSession,
+  normalizeRole,
+  saveSession,
+  withHashedPassword,
+} from "./services/authService";
+import type { Permiso } from "./services/authService";
 import type {
+  AccionAuditoria,
+  Adjudicado,
+  CambioCampo,
   Contrato,
   Articulo,
+  CicloMenu,
+  ConsultaGuardada,
+  ConsultaIA,
+  ConvenioModificatorio,
+  GraficaFijada,
+  MovimientoAlmacen,
+  NuevaConsultaIA,
+  NuevaOrdenSuministro,
+  NuevoConvenioModificatorio,
+  NuevoMovimientoAdjudicado,
+  NuevoMovimientoAlmacen,
+  OrdenSuministro,
   Proveedor,
+  Receta,
+  TipoCicloMenu,
   Usuario,
 } from "./types";
 
@@ -43,67 +236,506 @@ const formatCurrency = (value: number | undefined) => {
   }).format(value);
 };
 
-const parseDate = (dateString: string) => {
-    //Handles "dd de month de yyyy" format
-    const months: { [key: string]: number } = {
-        enero: 0, febrero: 1, marzo: 2, abril: 3, mayo: 4, junio: 5,
-        julio: 6, agosto: 7, septiembre: 8, octubre: 9, noviembre: 10, diciembre: 11
-    };
-    const parts = dateString.toLowerCase().split(' de ');
-    if (parts.length === 3) {
-        const day = parseInt(parts[0], 10);
-        const month = months[parts[1]];
-        const year = parseInt(parts[2], 10);
-        if (!isNaN(day) && month !== undefined && !isNaN(year)) {
-            return new Date(year, month, day);
-        }
-    }
-    // Fallback for other formats like "dd/mm/yyyy"
-    const dateParts = dateString.split('/');
-    if (dateParts.length === 3) {
-        const day = parseInt(dateParts[0], 10);
-        const month = parseInt(dateParts[1], 10) - 1;
-        const year = parseInt(dateParts[2], 10);
-        if (!isNaN(day) && !isNaN(month) && !isNaN(year)) {
-             return new Date(year, month, day);
-        }
-    }
-    
-    return new Date(dateString);
-}
-
 
 // --- DATA SERVICE & HOOKS ---
-const useData = () => {
-  const dataWithJoins = useMemo(() => {
-    const articulosMap = new Map(
-      allData.articulos.map((a) => [a.codigo, a])
-    );
-    const proveedoresMap = new Map(
-      allData.proveedores.map((p) => [p.proveedor, p])
-    );
+const buildDataWithJoins = (store: StoreData) => {
+  const articulosMap = new Map(
+    store.articulos.map((a) => [a.codigo, a])
+  );
+  const proveedoresMap = new Map(
+    store.proveedores.map((p) => [p.id_proveedor, p])
+  );
+
+  const reservadas = sumReservedByAdjudicado(store.ordenes);
+  const vigentes = applyAmendments(
+    store.contratos,
+    priceConsumption(store.adjudicados, store.convenios, store.movimientos),
+    store.convenios
+  );
 
-    const adjudicadosConArticulo = allData.adjudicados.map((adj) => ({
-      ...adj,
-      articulo: articulosMap.get(adj.codigo_fk),
-    }));
+  const adjudicadosConArticulo = applyLedger(vigentes.adjudicados, store.movimientos).map((adj) => ({
+    ...adj,
+    cantidad_reservada: reservadas.get(adj.id_adjudicado) || 0,
+    articulo: articulosMap.get(adj.codigo_fk),
+  }));
 
-    const contratosConProveedor = allData.contratos.map((con) => ({
+  const contratosConProveedor = vigentes.contratos.map((con) => {
+    const proveedor = con.id_proveedor_fk != null ? proveedoresMap.get(con.id_proveedor_fk) : undefined;
+    return {
       ...con,
-      proveedor: proveedoresMap.get(con.proveedor_fk),
+      proveedor,
+      // Current supplier name, which may differ from the one written in the contract.
+      proveedor_nombre: proveedor?.proveedor ?? con.proveedor_fk,
       adjudicados: adjudicadosConArticulo.filter(
         (adj) => adj.contrato_fk === con.contrato
       ),
-    }));
-
-    return {
-      ...allData,
-      contratos: contratosConProveedor,
-      adjudicados: adjudicadosConArticulo,
     };
+  });
+
+  return {
+    ...store,
+    contratos: contratosConProveedor,
+    adjudicados: adjudicadosConArticulo,
+  };
+};
+
+type DataContextValue = ReturnType<typeof buildDataWithJoins> & {
+  registrarConsumo: (draft: NuevoMovimientoAdjudicado) => Promise<void>;
+  crearOrden: (draft: NuevaOrdenSuministro) => Promise<OrdenSuministro>;
+  aprobarOrden: (id_orden: number) => Promise<void>;
+  cancelarOrden: (id_orden: number) => Promise<void>;
+  recibirOrden: (id_orden: number, usuario_fk: number | null) => Promise<void>;
+  registrarMovimientoAlmacen: (draft: NuevoMovimientoAlmacen) => Promise<void>;
+  guardarRegistro: <K extends EntityName>(
+    entity: K,
+    values: Partial<StoreRecords[K]>,
+    isNew: boolean,
+    usuario_fk: number | null
+  ) => Promise<void>;
+  eliminarRegistro: <K extends EntityName>(entity: K, record: StoreRecords[K], usuario_fk: number | null) => Promise<void>;
+  importarRegistros: <K extends ImportEntity>(entity: K, rows: ImportRow<K>[], usuario_fk: number | null) => Promise<number>;
+  adjuntarDocumento: (id_licitacion: number, etapa: EtapaLicitacion, file: File, usuario_fk: number | null) => Promise<void>;
+  registrarConsulta: (draft: NuevaConsultaIA) => Promise<ConsultaIA>;
+  guardarConsulta: (
+    values: Omit<ConsultaGuardada, "id_guardada" | "fecha_creacion"> & { id_guardada?: number },
+    id_consulta?: number
+  ) => Promise<ConsultaGuardada>;
+  eliminarConsultaGuardada: (id_guardada: number) => Promise<void>;
+  fijarGrafica: (draft: Omit<GraficaFijada, "id_grafica">) => Promise<void>;
+  eliminarGrafica: (id_grafica: number) => Promise<void>;
+  guardarReceta: (values: Omit<Receta, "id_receta"> & { id_receta?: number }) => Promise<Receta>;
+  eliminarReceta: (receta: Receta) => Promise<void>;
+  guardarMenu: (values: Omit<CicloMenu, "id_menu"> & { id_menu?: number }) => Promise<CicloMenu>;
+  eliminarMenu: (id_menu: number) => Promise<void>;
+  registrarConvenio: (draft: Omit<NuevoConvenioModificatorio, "usuario_fk">, usuario_fk: number | null) => Promise<ConvenioModificatorio>;
+  calidadDatos: DataIssue[];
+};
+
+const findContrato = (store: StoreData, contrato: string) => {
+  const found = store.contratos.find((c) => c.contrato === contrato);
+  if (!found) throw new Error(`No existe el contrato ${contrato}.`);
+  return found;
+};
+
+// The store with contracts and awarded lines as amended, which is what consumption and orders are checked against.
+const withAmendments = (store: StoreData): StoreData => ({
+  ...store,
+  ...applyAmendments(store.contratos, store.adjudicados, store.convenios),
+});
+
+const findOrden = (store: StoreData, id_orden: number) => {
+  const orden = store.ordenes.find((o) => o.id_orden === id_orden);
+  if (!orden) throw new Error(`No existe la orden ${id_orden}.`);
+  return orden;
+};
+
+const DataContext = createContext<DataContextValue | null>(null);
+
+const DataStoreProvider: React.FC<{
+  store: StoreData;
+  setStore: React.Dispatch<React.SetStateAction<StoreData | null>>;
+  children: React.ReactNode;
+}> = ({ store, setStore, children }) => {
+  // Writes go to IndexedDB first; the in-memory copy only changes once they succeed.
+  const save = useCallback(
+    async <K extends StoreName>(name: K, records: StoreRecords[K][]) => {
+      await putRecords(name, records);
+      setStore((prev) => prev && { ...prev, [name]: mergeRecords(name, prev[name], records) });
+    },
+    [setStore]
+  );
+
+  // For changes that span several stores and must not be left half written.
+  const commit = useCallback(
+    async (changes: StoreChanges) => {
+      const stored = await commitChanges(changes);
+      setStore((prev) => prev && applyChanges(prev, stored));
+    },
+    [setStore]
+  );
+
+  const vigente = useMemo(() => withAmendments(store), [store]);
+
+  // Actions throw when the change is rejected so the caller can show the reason.
+  const registrarConsumo = useCallback(
+    async (draft: NuevoMovimientoAdjudicado) => {
+      const movimiento = createMovement(vigente.adjudicados, vigente.movimientos, draft, sumReservedByAdjudicado(vigente.ordenes));
+      await save("movimientos", [movimiento]);
+    },
+    [vigente, save]
+  );
+
+  const crearOrden = useCallback(
+    async (draft: NuevaOrdenSuministro) => {
+      const orden = createOrder(
+        findContrato(vigente, draft.contrato_fk),
+        applyLedger(vigente.adjudicados, vigente.movimientos),
+        vigente.articulos,
+        vigente.ordenes,
+        draft
+      );
+      await save("ordenes", [orden]);
+      return orden;
+    },
+    [vigente, save]
+  );
+
+  const aprobarOrden = useCallback(
+    async (id_orden: number) => {
+      const orden = findOrden(vigente, id_orden);
+      const aprobada = approveOrder(
+        orden,
+        findContrato(vigente, orden.contrato_fk),
+        applyLedger(vigente.adjudicados, vigente.movimientos),
+        vigente.articulos,
+        vigente.ordenes,
+        new Date().toISOString()
+      );
+      await save("ordenes", [aprobada]);
+    },
+    [vigente, save]
+  );
+
+  const cancelarOrden = useCallback(
+    async (id_orden: number) => {
+      await save("ordenes", [cancelOrder(findOrden(store, id_orden), new Date().toISOString())]);
+    },
+    [store, save]
+  );
+
+  const recibirOrden = useCallback(
+    async (id_orden: number, usuario_fk: number | null) => {
+      const fecha = new Date().toISOString();
+      const result = receiveOrder(findOrden(vigente, id_orden), vigente.adjudicados, vigente.movimientos, fecha, usuario_fk);
+      const entradas = buildOrderReceipts(result.orden, vigente.adjudicados, vigente.movimientosAlmacen, fecha, usuario_fk);
+      // Consumption, stock entries and the order's new status are stored together, so a failed receipt
+      // leaves the order approved and can simply be retried.
+      await commit({
+        movimientos: { put: result.movimientos.slice(vigente.movimientos.length) },
+        movimientosAlmacen: { put: entradas.slice(vigente.movimientosAlmacen.length) },
+        ordenes: { put: [result.orden] },
+      });
+    },
+    [vigente, commit]
+  );
+
+  const registrarMovimientoAlmacen = useCallback(
+    async (draft: NuevoMovimientoAlmacen) => {
+      await save("movimientosAlmacen", [createWarehouseMovement(store.movimientosAlmacen, draft)]);
+    },
+    [store, save]
+  );
+
+  // Every change to an editable entity is committed together with its audit entries, so none goes unlogged.
+  // The log is only ever appended to.
+  const guardarRegistro = useCallback(
+    async <K extends EntityName>(entity: K, values: Partial<StoreRecords[K]>, isNew: boolean, usuario_fk: number | null) => {
+      const prepared = entity === "usuarios" ? await withHashedPassword(values as Partial<Usuario>) : values;
+      const record = prepareRecord(store, entity, prepared as Partial<StoreRecords[K]>, isNew);
+      await commit({
+        [entity]: { put: [record] },
+        auditoria: { add: auditSaves(store, entity, [record], usuario_fk, new Date().toISOString()) },
+      });
+    },
+    [store, commit]
+  );
+
+  const eliminarRegistro = useCallback(
+    async <K extends EntityName>(entity: K, record: StoreRecords[K], usuario_fk: number | null) => {
+      assertCanDelete(store, entity, record);
+      await commit({
+        [entity]: { delete: [record[STORE_KEYS[entity]] as IDBValidKey] },
+        auditoria: { add: auditDeletion(store, entity, record, usuario_fk, new Date().toISOString()) },
+      });
+    },
+    [store, commit]
+  );
+
+  const importarRegistros = useCallback(
+    async <K extends ImportEntity>(entity: K, rows: ImportRow<K>[], usuario_fk: number | null) => {
+      const records = buildImportRecords(store, entity, rows);
+      await commit({
+        [entity]: { put: records },
+        auditoria: { add: auditSaves(store, entity, records, usuario_fk, new Date().toISOString()) },
+      });
+      return records.length;
+    },
+    [store, commit]
+  );
+
+  // Replacing a stage's PDF drops the previous upload so orphaned files do not pile up in the browser.
+  const adjuntarDocumento = useCallback(
+    async (id_licitacion: number, etapa: EtapaLicitacion, file: File, usuario_fk: number | null) => {
+      const licitacion = store.licitaciones.find((l) => l.id_licitacion === id_licitacion);
+      if (!licitacion) throw new Error(`No existe la licitación ${id_licitacion}.`);
+      const campo = ETAPAS_LICITACION.find((e) => e.etapa === etapa)?.documento;
+      const previo = campo ? parseDocumentRef(licitacion[campo]) : null;
+      const fecha = new Date().toISOString();
+      const result = attachDocument(licitacion, store.documentos, etapa, file, fecha);
+      await commit({
+        documentos: { put: [result.documento], delete: previo !== null ? [previo] : [] },
+        licitaciones: { put: [result.licitacion] },
+        auditoria: { add: auditSaves(store, "licitaciones", [result.licitacion], usuario_fk, fecha) },
+      });
+    },
+    [store, commit]
+  );
+
+  const registrarConsulta = useCallback(
+    async (draft: NuevaConsultaIA) => {
+      const entrada = createHistoryEntry(store.consultas, draft);
+      await save("consultas", [entrada]);
+      const sobrantes = historyOverflow([...store.consultas, entrada]);
+      for (const id of sobrantes) await deleteRecord("consultas", id);
+      if (sobrantes.length > 0) {
+        setStore((prev) => prev && { ...prev, consultas: prev.consultas.filter((c) => !sobrantes.includes(c.id_consulta)) });
+      }
+      return entrada;
+    },
+    [store, save, setStore]
+  );
+
+  // The history entry a query is saved from becomes its first run, so the next run has something to compare with.
+  const guardarConsulta = useCallback(
+    async (values: Omit<ConsultaGuardada, "id_guardada" | "fecha_creacion"> & { id_guardada?: number }, id_consulta?: number) => {
+      const guardada = prepareSavedQuery(store.consultasGuardadas, values, new Date().toISOString());
+      await save("consultasGuardadas", [guardada]);
+      const origen = store.consultas.find((c) => c.id_consulta === id_consulta);
+      if (origen) await save("consultas", [{ ...origen, guardada_fk: guardada.id_guardada }]);
+      return guardada;
+    },
+    [store, save]
+  );
+
+  // History entries keep their results when the saved query they ran is deleted.
+  const eliminarConsultaGuardada = useCallback(
+    async (id_guardada: number) => {
+      await deleteRecord("consultasGuardadas", id_guardada);
+      setStore((prev) => prev && { ...prev, consultasGuardadas: removeRecord("consultasGuardadas", prev.consultasGuardadas, id_guardada) });
+    },
+    [setStore]
+  );
+
+  const fijarGrafica = useCallback(
+    async (draft: Omit<GraficaFijada, "id_grafica">) => {
+      await save("graficas", [createPinnedChart(store.graficas, draft)]);
+    },
+    [store, save]
+  );
+
+  const eliminarGrafica = useCallback(
+    async (id_grafica: number) => {
+      await deleteRecord("graficas", id_grafica);
+      setStore((prev) => prev && { ...prev, graficas: removeRecord("graficas", prev.graficas, id_grafica) });
+    },
+    [setStore]
+  );
+
+  const guardarReceta = useCallback(
+    async (values: Omit<Receta, "id_receta"> & { id_receta?: number }) => {
+      const receta = prepareRecipe(store.recetas, store.articulos, values);
+      await save("recetas", [receta]);
+      return receta;
+    },
+    [store, save]
+  );
+
+  const eliminarReceta = useCallback(
+    async (receta: Receta) => {
+      assertRecipeUnused(store.menus, receta);
+      await deleteRecord("recetas", receta.id_receta);
+      setStore((prev) => prev && { ...prev, recetas: removeRecord("recetas", prev.recetas, receta.id_receta) });
+    },
+    [store, setStore]
+  );
+
+  const guardarMenu = useCallback(
+    async (values: Omit<CicloMenu, "id_menu"> & { id_menu?: number }) => {
+      const menu = prepareMenu(store.menus, store.recetas, values);
+      await save("menus", [menu]);
+      return menu;
+    },
+    [store, save]
+  );
+
+  const eliminarMenu = useCallback(
+    async (id_menu: number) => {
+      await deleteRecord("menus", id_menu);
+      setStore((prev) => prev && { ...prev, menus: removeRecord("menus", prev.menus, id_menu) });
+    },
+    [setStore]
+  );
+
+  // Checked against the stored award, with consumption taken from the ledger. The effective values it
+  // changes are audited as edits of the contract and its lines.
+  const registrarConvenio = useCallback(
+    async (draft: Omit<NuevoConvenioModificatorio, "usuario_fk">, usuario_fk: number | null) => {
+      const convenio = createAmendment(
+        findContrato(store, draft.contrato_fk),
+        priceConsumption(applyLedger(store.adjudicados, store.movimientos), store.convenios, store.movimientos),
+        store.convenios,
+        { ...draft, usuario_fk },
+        sumReservedByAdjudicado(store.ordenes)
+      );
+      await commit({
+        convenios: { put: [convenio] },
+        auditoria: { add: auditAmendment(store, convenio, usuario_fk, new Date().toISOString()) },
+      });
+      return convenio;
+    },
+    [store, commit]
+  );
+
+  // Validation looks at the records as stored, before the ledger recomputes quantities.
+  const calidadDatos = useMemo(() => validateDataset(store), [store]);
+
+  const value = useMemo(
+    () => ({
+      ...buildDataWithJoins(store),
+      registrarConsumo,
+      crearOrden,
+      aprobarOrden,
+      cancelarOrden,
+      recibirOrden,
+      registrarMovimientoAlmacen,
+      guardarRegistro,
+      eliminarRegistro,
+      importarRegistros,
+      adjuntarDocumento,
+      registrarConsulta,
+      guardarConsulta,
+      eliminarConsultaGuardada,
+      fijarGrafica,
+      eliminarGrafica,
+      guardarReceta,
+      eliminarReceta,
+      guardarMenu,
+      eliminarMenu,
+      registrarConvenio,
+      calidadDatos,
+    }),
+    [
+      store,
+      registrarConsumo,
+      crearOrden,
+      aprobarOrden,
+      cancelarOrden,
+      recibirOrden,
+      registrarMovimientoAlmacen,
+      guardarRegistro,
+      eliminarRegistro,
+      importarRegistros,
+      adjuntarDocumento,
+      registrarConsulta,
+      guardarConsulta,
+      eliminarConsultaGuardada,
+      fijarGrafica,
+      eliminarGrafica,
+      guardarReceta,
+      eliminarReceta,
+      guardarMenu,
+      eliminarMenu,
+      registrarConvenio,
+      calidadDatos,
+    ]
+  );
+
+  return <DataContext.Provider value={value}>{children}</DataContext.Provider>;
+};
+
+const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [store, setStore] = useState<StoreData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadDatabase()
+      .then(setStore)
+      .catch((e) => setError(e?.message || "No se pudo abrir la base de datos local."));
+  }, []);
+
+  if (error) {
+    return <div className="m-8 bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg" role="alert">{error}</div>;
+  }
+  if (!store) {
+    return <div className="flex min-h-screen items-center justify-center"><FaSpinner className="animate-spin text-4xl text-blue-600" /></div>;
+  }
+  return <DataStoreProvider store={store} setStore={setStore}>{children}</DataStoreProvider>;
+};
+
+const useData = () => {
+  const context = useContext(DataContext);
+  if (!context) {
+    throw new Error("useData must be used within a DataProvider");
+  }
+  return context;
+};
+
+type AuthContextValue = {
+  usuario: Usuario;
+  can: (permiso: Permiso) => boolean;
+  logout: () => void;
+};
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { usuarios } = useData();
+  const [session, setSession] = useState(() => loadSession());
+  const [notice, setNotice] = useState<string | null>(null);
+  const usuario = session ? usuarios.find((u) => u.rud === session.rud) ?? null : null;
+
+  const logout = useCallback(() => {
+    clearSession();
+    setSession(null);
   }, []);
 
-  return dataWithJoins;
+  // Activity renews the session; SESSION_TTL_MS without any ends it.
+  useEffect(() => {
+    if (!session) return;
+    const renew = () => {
+      if (Date.now() + SESSION_TTL_MS - session.expiresAt > 60 * 1000) {
+        setSession(saveSession(session.rud));
+      }
+    };
+    const timer = window.setInterval(() => {
+      if (Date.now() >= session.expiresAt) {
+        clearSession();
+        setSession(null);
+        setNotice("Tu sesión expiró. Inicia sesión nuevamente.");
+      }
+    }, 15 * 1000);
+    window.addEventListener("click", renew);
+    window.addEventListener("keydown", renew);
+    return () => {
+      window.clearInterval(timer);
+      window.removeEventListener("click", renew);
+      window.removeEventListener("keydown", renew);
+    };
+  }, [session]);
+
+  const value = useMemo(
+    () => usuario && { usuario, can: (permiso: Permiso) => hasPermission(usuario, permiso), logout },
+    [usuario, logout]
+  );
+
+  const handleLogin = async (rud: number, password: string) => {
+    const autenticado = await authenticate(usuarios, rud, password);
+    setNotice(null);
+    setSession(saveSession(autenticado.rud));
+  };
+
+  if (!value) {
+    return <LoginView notice={notice} onLogin={handleLogin} />;
+  }
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+const useAuth = () => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
 };
 
 // --- UI COMPONENTS ---
@@ -128,6 +760,94 @@ const Card: React.FC<{
   </div>
 );
 
+const BUDGET_ALERT_STYLES: Record<BudgetAlertLevel, string> = {
+  80: "bg-yellow-100 text-yellow-800",
+  90: "bg-orange-100 text-orange-800",
+  100: "bg-red-100 text-red-800",
+};
+
+const BudgetAlertBadge: React.FC<{ level: BudgetAlertLevel | null }> = ({ level }) =>
+  level === null ? null : (
+    <span className={`px-2 py-1 rounded-full text-xs font-semibold ${BUDGET_ALERT_STYLES[level]}`}>
+      {level >= 100 ? "Agotado" : `≥ ${level}%`}
+    </span>
+  );
+
+const ESTADO_VIGENCIA_COLORS: Record<EstadoVigencia, string> = {
+  por_iniciar: "#6366F1",
+  vigente: "#10B981",
+  por_vencer: "#F59E0B",
+  vencido: "#EF4444",
+  fecha_invalida: "#9CA3AF",
+};
+
+const ESTADO_VIGENCIA_STYLES: Record<EstadoVigencia, string> = {
+  por_iniciar: "bg-indigo-100 text-indigo-800",
+  vigente: "bg-green-100 text-green-800",
+  por_vencer: "bg-yellow-100 text-yellow-800",
+  vencido: "bg-red-100 text-red-800",
+  fecha_invalida: "bg-gray-100 text-gray-800",
+};
+
+const ValidityBadge: React.FC<{ estado: EstadoVigencia }> = ({ estado }) => (
+  <span className={`px-2 py-1 rounded-full text-xs font-semibold ${ESTADO_VIGENCIA_STYLES[estado]}`}>
+    {ESTADO_VIGENCIA_LABELS[estado]}
+  </span>
+);
+
+// Effective value of a field changed by a convenio, with the originally awarded value underneath.
+const AmendedValue: React.FC<{ actual: string | number; original?: string | number | null }> = ({ actual, original }) =>
+  original == null || original === actual ? (
+    <>{actual}</>
+  ) : (
+    <span className="flex flex-col">
+      <span className="font-semibold text-indigo-700">{actual}</span>
+      <span className="text-xs text-gray-500">Original: {original}</span>
+    </span>
+  );
+
+// What exports show for an amended value, since they cannot stack the original underneath.
+const amendedText = (actual: string | number, original?: string | number | null): string =>
+  original == null || original === actual ? String(actual) : `${actual} (original ${original})`;
+
+const RIESGO_STYLES: Record<RiesgoAgotamiento, string> = {
+  agotado: "bg-red-100 text-red-800",
+  agotamiento_anticipado: "bg-orange-100 text-orange-800",
+  subconsumo: "bg-yellow-100 text-yellow-800",
+  en_rango: "bg-green-100 text-green-800",
+};
+
+const RiskBadge: React.FC<{ riesgo: RiesgoAgotamiento }> = ({ riesgo }) => (
+  <span className={`px-2 py-1 rounded-full text-xs font-semibold ${RIESGO_STYLES[riesgo]}`}>
+    {RIESGO_LABELS[riesgo]}
+  </span>
+);
+
+const TaxBreakdownTable: React.FC<{ rows: (TaxBreakdown & { concepto: string })[] }> = ({ rows }) => (
+  <div className="overflow-x-auto">
+    <table className="min-w-full divide-y divide-gray-200">
+      <thead className="bg-gray-50">
+        <tr>
+          {["Concepto", "Subtotal", "IEPS", "IVA", "Total"].map(label => (
+            <th key={label} className="px-6 py-3 text-left text-xs font-bold text-gray-500 uppercase tracking-wider">{label}</th>
+          ))}
+        </tr>
+      </thead>
+      <tbody className="bg-white divide-y divide-gray-200">
+        {rows.map(row => (
+          <tr key={row.concepto} className="hover:bg-gray-50">
+            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{row.concepto}</td>
+            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{formatCurrency(row.subtotal)}</td>
+            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{formatCurrency(row.ieps)}</td>
+            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{formatCurrency(row.iva)}</td>
+            <td className="px-6 py-4 whitespace-nowrap text-sm font-bold text-gray-800">{formatCurrency(row.total)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
 type SortDirection = "asc" | "desc";
 type SortConfig<T> = {
   key: keyof T;
@@ -214,35 +934,54 @@ const SortableTableHeader: React.FC<{
 const DashboardView: React.FC = () => {
   const { contratos, proveedores, articulos } = useData();
 
-  const totalMontoMaximo = useMemo(
-    () => contratos.reduce((sum, c) => sum + c.monto_maximo, 0),
+  const taxSummary = useMemo(
+    () => [
+      { concepto: "Adjudicado (cantidades máximas)", ...sumTaxes(contratos.map(c => computeContractTaxes(c, "cantidad_maxima"))) },
+      { concepto: "Ejercido (cantidades consumidas)", ...sumTaxes(contratos.map(c => computeContractTaxes(c, "cantidad_consumida"))) },
+    ],
     [contratos]
   );
+
+  // Awarded lines at their maximum quantity, taxes included, so it compares with what is spent.
+  const totalContratado = taxSummary[0].total;
+
+  const contractBudgets = useMemo(
+    () =>
+      contratos
+        .map(c => ({ ...computeContractBudget(c), proveedor: c.proveedor_nombre }))
+        .sort((a, b) => b.porcentaje - a.porcentaje),
+    [contratos]
+  );
+
+  const budgetAlerts = useMemo(
+    () => contractBudgets.filter(b => b.alerta !== null),
+    [contractBudgets]
+  );
   
-  const contractStatusData = useMemo(() => {
-    const now = new Date();
-    const statusCounts = { vigente: 0, expirado: 0 };
-    contratos.forEach(c => {
-        const endDate = parseDate(c.fin_vigencia);
-        if (!isNaN(endDate.getTime())) {
-            if (endDate > now) {
-                statusCounts.vigente++;
-            } else {
-                statusCounts.expirado++;
-            }
-        }
-    });
-    return [{name: 'Vigente', value: statusCounts.vigente}, {name: 'Expirado', value: statusCounts.expirado}];
+  const contractValidity = useMemo(() => {
+    const today = new Date();
+    return contratos.map(c => ({ contrato: c, estado: getContractValidity(c, today) }));
   }, [contratos]);
 
+  const contractStatusData = useMemo(
+    () =>
+      (Object.keys(ESTADO_VIGENCIA_LABELS) as EstadoVigencia[])
+        .map(estado => ({
+          estado,
+          name: ESTADO_VIGENCIA_LABELS[estado],
+          value: contractValidity.filter(v => v.estado === estado).length,
+        }))
+        .filter(d => d.value > 0),
+    [contractValidity]
+  );
+
+  const invalidDateContracts = contractValidity.filter(v => v.estado === "fecha_invalida").map(v => v.contrato);
+
+  // Taxes included, like the "Monto Total Contratado" card next to it.
   const spendingBySupplierData = useMemo(() => {
     const spending: { [key: string]: number } = {};
     contratos.forEach(c => {
-      if (c.proveedor) {
-        spending[c.proveedor.proveedor] = (spending[c.proveedor.proveedor] || 0) + c.monto_maximo;
-      } else {
-        spending[c.proveedor_fk] = (spending[c.proveedor_fk] || 0) + c.monto_maximo;
-      }
+      spending[c.proveedor_nombre] = (spending[c.proveedor_nombre] || 0) + computeContractTaxes(c, "cantidad_maxima").total;
     });
     return Object.entries(spending)
         .map(([name, value]) => ({ name, value }))
@@ -250,7 +989,6 @@ const DashboardView: React.FC = () => {
         .slice(0, 10);
   }, [contratos]);
 
-  const COLORS = ["#0088FE", "#FF8042"];
 
   return (
     <div className="space-y-8">
@@ -274,8 +1012,8 @@ const DashboardView: React.FC = () => {
           color="#F59E0B"
         />
         <Card
-          title="Monto Total Contratado"
-          value={formatCurrency(totalMontoMaximo)}
+          title="Monto Total Contratado (con impuestos)"
+          value={formatCurrency(totalContratado)}
           icon={<FaDatabase size={24} />}
           color="#8B5CF6"
         />
@@ -283,7 +1021,7 @@ const DashboardView: React.FC = () => {
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
         <div className="lg:col-span-2 bg-white p-6 rounded-2xl shadow-md">
-            <h3 className="text-lg font-bold text-gray-800 mb-4">Gasto por Proveedor (Top 10)</h3>
+            <h3 className="text-lg font-bold text-gray-800 mb-4">Monto Adjudicado por Proveedor (Top 10, con impuestos)</h3>
             <ResponsiveContainer width="100%" height={300}>
                 <BarChart data={spendingBySupplierData} margin={{ top: 5, right: 20, left: -10, bottom: 90 }}>
                     <CartesianGrid strokeDasharray="3 3" />
@@ -291,7 +1029,7 @@ const DashboardView: React.FC = () => {
                     <YAxis tickFormatter={(val) => `$${(val/1e6).toFixed(1)}M`}/>
                     <Tooltip formatter={(value: number) => formatCurrency(value)} />
                     <Legend verticalAlign="top" />
-                    <Bar dataKey="value" name="Monto Máximo" fill="#3B82F6" />
+                    <Bar dataKey="value" name="Adjudicado con Impuestos" fill="#3B82F6" />
                 </BarChart>
             </ResponsiveContainer>
         </div>
@@ -300,109 +1038,676 @@ const DashboardView: React.FC = () => {
             <ResponsiveContainer width="100%" height={300}>
                <PieChart>
                     <Pie data={contractStatusData} cx="50%" cy="50%" labelLine={false} outerRadius={80} fill="#8884d8" dataKey="value" nameKey="name" label={({name, percent}) => `${name} ${(percent * 100).toFixed(0)}%`}>
-                        {contractStatusData.map((entry, index) => <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />)}
+                        {contractStatusData.map((entry) => <Cell key={entry.estado} fill={ESTADO_VIGENCIA_COLORS[entry.estado]} />)}
                     </Pie>
                     <Tooltip formatter={(value) => `${value} contratos`} />
                     <Legend />
                 </PieChart>
             </ResponsiveContainer>
+            {invalidDateContracts.length > 0 && (
+              <div className="mt-4 bg-yellow-50 border border-yellow-300 text-yellow-800 px-4 py-3 rounded-lg text-sm" role="alert">
+                {invalidDateContracts.length} contrato(s) con fechas de vigencia inválidas: {invalidDateContracts.map(c => `${c.contrato} (${c.inicio_vigencia} – ${c.fin_vigencia})`).join(', ')}.
+              </div>
+            )}
+        </div>
+      </div>
+
+      <div className="bg-white p-6 rounded-2xl shadow-md">
+        <h3 className="text-lg font-bold text-gray-800 mb-4">Ejercicio Presupuestal por Contrato</h3>
+        {budgetAlerts.length > 0 && (
+          <div className="mb-4 bg-yellow-50 border border-yellow-300 text-yellow-800 px-4 py-3 rounded-lg text-sm space-y-1" role="alert">
+            {budgetAlerts.map(b => (
+              <p key={b.contrato}>
+                El contrato <strong>{b.contrato}</strong> ({b.proveedor}) ha ejercido el {b.porcentaje.toFixed(1)}% de su monto máximo.
+              </p>
+            ))}
+          </div>
+        )}
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                {["Contrato", "Proveedor", "Monto Máximo", "Ejercido", "Saldo", "% Ejercido", ""].map(label => (
+                  <th key={label} className="px-6 py-3 text-left text-xs font-bold text-gray-500 uppercase tracking-wider">{label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {contractBudgets.map(b => (
+                <tr key={b.contrato} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{b.contrato}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{b.proveedor}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{formatCurrency(b.monto_maximo)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{formatCurrency(b.ejercido)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{formatCurrency(b.saldo)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                    <div className="flex items-center gap-2">
+                      <div className="w-32 bg-gray-200 rounded-full h-2">
+                        <div className="bg-blue-600 h-2 rounded-full" style={{ width: `${Math.min(b.porcentaje, 100)}%` }} />
+                      </div>
+                      <span>{b.porcentaje.toFixed(1)}%</span>
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700"><BudgetAlertBadge level={b.alerta} /></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
         </div>
       </div>
+
+      <div className="bg-white p-6 rounded-2xl shadow-md">
+        <h3 className="text-lg font-bold text-gray-800 mb-2">Desglose de Impuestos</h3>
+        <p className="text-sm text-gray-600 mb-4">El IEPS forma parte de la base del IVA. Cada partida se redondea a centavos antes de sumarse.</p>
+        <TaxBreakdownTable rows={taxSummary} />
+      </div>
+
+      <PinnedChartsPanel />
     </div>
   );
 };
 
-const DataExplorerView: React.FC = () => {
+const formatResultCell = (value: QueryValue) =>
+    value === null || value === undefined ? '' : typeof value === 'number' ? value.toLocaleString('es-MX', { maximumFractionDigits: 2 }) : value;
+// Exports keep numbers raw so spreadsheets can add them up.
+const exportResultCell = (value: QueryValue) => (typeof value === 'number' ? value : formatResultCell(value));
+const formatResultHeader = (column: string) => column.replace('.', ' · ').replace(/_/g, ' ');
+
+const CHART_COLORS = ["#3B82F6", "#10B981", "#F59E0B", "#8B5CF6", "#EF4444", "#06B6D4", "#EC4899", "#6B7280"];
+
+const formatAxisNumber = (value: number) =>
+    Math.abs(value) >= 1e6 ? `${(value / 1e6).toFixed(1)}M` : Math.abs(value) >= 1e3 ? `${(value / 1e3).toFixed(0)}K` : `${value}`;
+
+// Renders a query result with the same look as the dashboard's own charts.
+const QueryChart: React.FC<{ filas: QueryRow[]; spec: ChartSpec }> = ({ filas, spec }) => {
+    const data = useMemo(() => buildChartData(filas, spec), [filas, spec]);
+    const tooltipFormatter = (value: number) => formatResultCell(value);
+
+    if (spec.tipo === "pastel") {
+        const serie = spec.series[0];
+        return (
+            <ResponsiveContainer width="100%" height={300}>
+                <PieChart>
+                    <Pie data={data} cx="50%" cy="50%" labelLine={false} outerRadius={80} dataKey={serie} nameKey="name" label={({name, percent}) => `${name} ${(percent * 100).toFixed(0)}%`}>
+                        {data.map((point, index) => <Cell key={point.name} fill={CHART_COLORS[index % CHART_COLORS.length]} />)}
+                    </Pie>
+                    <Tooltip formatter={tooltipFormatter} />
+                    <Legend />
+                </PieChart>
+            </ResponsiveContainer>
+        );
+    }
+
+    const Chart = spec.tipo === "lineas" ? LineChart : BarChart;
+    return (
+        <ResponsiveContainer width="100%" height={300}>
+            <Chart data={data} margin={{ top: 5, right: 20, left: -10, bottom: 90 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="name" angle={-45} textAnchor="end" interval={spec.tipo === "lineas" ? "preserveStartEnd" : 0} tick={{fontSize: 10}}/>
+                <YAxis tickFormatter={formatAxisNumber}/>
+                <Tooltip formatter={tooltipFormatter} />
+                <Legend verticalAlign="top" />
+                {spec.series.map((serie, index) => spec.tipo === "lineas"
+                    ? <Line key={serie} type="monotone" dataKey={serie} name={formatResultHeader(serie)} stroke={CHART_COLORS[index % CHART_COLORS.length]} connectNulls />
+                    : <Bar key={serie} dataKey={serie} name={formatResultHeader(serie)} fill={CHART_COLORS[index % CHART_COLORS.length]} />
+                )}
+            </Chart>
+        </ResponsiveContainer>
+    );
+};
+
+const ResultChartPanel: React.FC<{ entrada: ConsultaIA }> = ({ entrada }) => {
+    const { fijarGrafica } = useData();
+    const { usuario } = useAuth();
+    const shape = useMemo(() => analyzeResultShape(entrada.columnas, entrada.filas), [entrada]);
+    const tipos = availableChartTypes(shape);
+    const [spec, setSpec] = useState<ChartSpec | null>(() => suggestChart(entrada.columnas, entrada.filas));
+    const [titulo, setTitulo] = useState(entrada.pregunta);
+    const [mensaje, setMensaje] = useState<{ tipo: "ok" | "error"; texto: string } | null>(null);
+
+    if (tipos.length === 0) return null;
+    const current = spec && normalizeChartSpec(spec, shape);
+    const update = (changes: Partial<ChartSpec>) =>
+        setSpec(prev => normalizeChartSpec({ tipo: tipos[0], eje_x: "", series: [], ...prev, ...changes }, shape));
+    const toggleSerie = (serie: string) => current && update({
+        series: current.series.includes(serie) ? current.series.filter(s => s !== serie) : [...current.series, serie],
+    });
+
+    const handlePin = async () => {
+        if (!current || !entrada.consulta) return;
+        try {
+            await fijarGrafica({
+                titulo,
+                consulta: entrada.consulta,
+                grafica: current,
+                usuario_fk: usuario.rud,
+                fecha_creacion: new Date().toISOString(),
+            });
+            setMensaje({ tipo: "ok", texto: "La gráfica se fijó al tablero." });
+        } catch (e: any) {
+            setMensaje({ tipo: "error", texto: e.message || "No se pudo fijar la gráfica." });
+        }
+    };
+
+    const ejes = current?.tipo === "lineas" ? shape.fechas : shape.categorias;
+    const series = current?.tipo === "pastel" ? shape.no_negativas : shape.numericas;
+
+    return (
+        <div className="border border-gray-200 rounded-lg p-4 mb-4 space-y-4">
+            <div className="flex flex-wrap items-center gap-4 text-sm">
+                <div className="flex rounded-lg border border-gray-300 overflow-hidden">
+                    {tipos.map(tipo => (
+                        <button key={tipo} onClick={() => update({ tipo })} className={`px-3 py-2 ${current?.tipo === tipo ? 'bg-blue-600 text-white' : 'hover:bg-gray-100'}`}>{TIPO_GRAFICA_LABELS[tipo]}</button>
+                    ))}
+                    <button onClick={() => setSpec(null)} className={`px-3 py-2 ${!current ? 'bg-blue-600 text-white' : 'hover:bg-gray-100'}`}>Solo tabla</button>
+                </div>
+                {current && (
+                    <>
+                        <label className="flex items-center gap-2 text-gray-600">
+                            {current.tipo === "pastel" ? "Categoría" : "Eje X"}
+                            <select value={current.eje_x} onChange={e => update({ eje_x: e.target.value })} className="p-2 border border-gray-300 rounded-lg">
+                                {ejes.map(column => <option key={column} value={column}>{formatResultHeader(column)}</option>)}
+                            </select>
+                        </label>
+                        {current.tipo === "pastel" ? (
+                            <label className="flex items-center gap-2 text-gray-600">
+                                Valor
+                                <select value={current.series[0]} onChange={e => update({ series: [e.target.value] })} className="p-2 border border-gray-300 rounded-lg">
+                                    {series.map(column => <option key={column} value={column}>{formatResultHeader(column)}</option>)}
+                                </select>
+                            </label>
+                        ) : (
+                            <div className="flex flex-wrap items-center gap-3 text-gray-600">
+                                Eje Y
+                                {series.map(column => (
+                                    <label key={column} className="flex items-center gap-1">
+                                        <input type="checkbox" checked={current.series.includes(column)} onChange={() => toggleSerie(column)} />
+                                        {formatResultHeader(column)}
+                                    </label>
+                                ))}
+                            </div>
+                        )}
+                    </>
+                )}
+            </div>
+            {current && (
+                <>
+                    <QueryChart filas={entrada.filas} spec={current} />
+                    {entrada.consulta && (
+                        <div className="flex gap-2 text-sm">
+                            <input type="text" value={titulo} onChange={e => setTitulo(e.target.value)} placeholder="Título de la gráfica" className="flex-grow p-2 border border-gray-300 rounded-lg" />
+                            <button onClick={handlePin} className="px-4 py-2 rounded-lg border border-gray-300 hover:bg-gray-100 flex items-center gap-2"><FaThumbtack /> Fijar al tablero</button>
+                        </div>
+                    )}
+                    {mensaje && (
+                        <div className={mensaje.tipo === "ok" ? "bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded-lg text-sm" : "bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg text-sm"} role="alert">{mensaje.texto}</div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
+
+const VerificationBanner: React.FC<{ verification: AnswerVerification }> = ({ verification }) => {
+    if (verification.vigente) {
+        return (
+            <div className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded-lg text-sm flex items-center gap-2" role="status">
+                <FaCheckCircle /> Vigencia del resultado: las filas y los valores siguen siendo los que producen los datos actuales, y cada registro citado existe.
+            </div>
+        );
+    }
+    const sinRespaldo = verification.filas.filter(f => f.estado === "sin_respaldo").length;
+    const desactualizadas = verification.filas.filter(f => f.estado === "desactualizada").length;
+    return (
+        <div className="bg-yellow-50 border border-yellow-300 text-yellow-800 px-4 py-3 rounded-lg text-sm space-y-1" role="alert">
+            <p className="font-bold flex items-center gap-2"><FaExclamationTriangle /> El resultado ya no corresponde a los datos actuales.</p>
+            {sinRespaldo > 0 && <p>{sinRespaldo} fila(s) sin respaldo en los datos (resaltadas en rojo).</p>}
+            {desactualizadas > 0 && <p>{desactualizadas} fila(s) con valores que cambiaron (resaltados en amarillo; el valor actual aparece al pasar el cursor).</p>}
+            {verification.omitidas > 0 && <p>Faltan {verification.omitidas} fila(s) que los datos sí producen.</p>}
+            {verification.filtros.map(mensaje => <p key={mensaje}>{mensaje}</p>)}
+        </div>
+    );
+};
+
+const PROVENANCE_PREVIEW_ROWS = 100;
+
+// "¿Cómo se obtuvo?": the query in words and as JSON, plus the records that passed its filters.
+const ProvenancePanel: React.FC<{ dataset: QueryDataset; consulta: StructuredQuery }> = ({ dataset, consulta }) => {
+    const [abierto, setAbierto] = useState(false);
+    const registros = useMemo(() => (abierto ? matchingRecords(dataset, consulta) : []), [abierto, dataset, consulta]);
+    const columnas = provenanceColumns(consulta);
+    const getTable = () => ({
+        headers: columnas.map(formatResultHeader),
+        rows: registros.map(row => columnas.map(column => exportResultCell(row[column]))),
+    });
+
+    return (
+        <details className="text-sm border border-gray-200 rounded-lg" onToggle={e => setAbierto((e.target as HTMLDetailsElement).open)}>
+            <summary className="cursor-pointer text-gray-700 font-semibold px-4 py-3">¿Cómo se obtuvo?</summary>
+            {abierto && (
+                <div className="px-4 pb-4 space-y-4">
+                    <ol className="list-decimal list-inside text-gray-700 space-y-1">
+                        {describeQuery(consulta).map(paso => <li key={paso}>{paso}</li>)}
+                    </ol>
+                    <details>
+                        <summary className="cursor-pointer text-gray-600">Consulta interpretada (JSON)</summary>
+                        <pre className="mt-2 bg-gray-800 text-white p-4 rounded-lg overflow-x-auto">{JSON.stringify(consulta, null, 2)}</pre>
+                    </details>
+                    <div>
+                        <div className="flex justify-between items-center mb-2">
+                            <p className="text-gray-600">
+                                Registros utilizados: {registros.length}
+                                {registros.length > PROVENANCE_PREVIEW_ROWS && ` (se muestran los primeros ${PROVENANCE_PREVIEW_ROWS}; la exportación los incluye todos)`}
+                            </p>
+                            {registros.length > 0 && <ExportButtons title="Registros Utilizados" getTable={getTable} />}
+                        </div>
+                        {registros.length > 0 && (
+                            <div className="overflow-x-auto">
+                                <table className="min-w-full bg-white divide-y divide-gray-200">
+                                    <thead className="bg-gray-50">
+                                        <tr>
+                                            {columnas.map(column => <th key={column} className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{formatResultHeader(column)}</th>)}
+                                        </tr>
+                                    </thead>
+                                    <tbody className="bg-white divide-y divide-gray-200">
+                                        {registros.slice(0, PROVENANCE_PREVIEW_ROWS).map((row, index) => (
+                                            <tr key={index}>
+                                                {columnas.map(column => <td key={column} className="px-4 py-2 whitespace-nowrap text-gray-700">{formatResultCell(row[column])}</td>)}
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+                    </div>
+                </div>
+            )}
+        </details>
+    );
+};
+
+// Pinned charts run their query again so the dashboard always reflects current data.
+const PinnedChartsPanel: React.FC = () => {
     const data = useData();
-    const [query, setQuery] = useState("");
-    const [isLoading, setIsLoading] = useState(false);
-    const [result, setResult] = useState<any | null>(null);
+    const { graficas, eliminarGrafica } = data;
     const [error, setError] = useState<string | null>(null);
+    const dataset = useMemo(() => buildQueryDataset(data, new Date()), [data]);
 
-    const handleQuery = async () => {
-        if (!query.trim()) return;
-        setIsLoading(true);
-        setError(null);
-        setResult(null);
-
+    const charts = useMemo(() => graficas.map(grafica => {
         try {
-            const contextData = {
-                articulos: data.articulos.slice(0, 100), // Limiting for prompt size
-                contratos: data.contratos.slice(0, 100).map(c => ({...c, adjudicados: c.adjudicados.length, proveedor: undefined})),
-                proveedores: data.proveedores.slice(0, 100),
-            };
-            const aiResult = await queryDataWithGemini(query, contextData);
-            setResult(aiResult);
+            const { columnas, filas } = runQuery(dataset, grafica.consulta);
+            const spec = normalizeChartSpec(grafica.grafica, analyzeResultShape(columnas, filas));
+            return { grafica, filas, spec, error: spec ? null : "El resultado actual ya no se puede graficar." };
         } catch (e: any) {
-            setError(e.message || "Ocurrió un error al procesar la solicitud.");
-        } finally {
-            setIsLoading(false);
+            return { grafica, filas: [], spec: null, error: e.message as string };
         }
+    }), [graficas, dataset]);
+
+    if (charts.length === 0) return null;
+
+    const handleRemove = (id_grafica: number) =>
+        eliminarGrafica(id_grafica).catch((e: any) => setError(e.message || "No se pudo quitar la gráfica."));
+
+    return (
+        <div className="space-y-4">
+            {error && <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg" role="alert">{error}</div>}
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                {charts.map(({ grafica, filas, spec, error }) => (
+                    <div key={grafica.id_grafica} className="bg-white p-6 rounded-2xl shadow-md">
+                        <div className="flex justify-between items-start mb-4 gap-2">
+                            <h3 className="text-lg font-bold text-gray-800">{grafica.titulo}</h3>
+                            <button onClick={() => handleRemove(grafica.id_grafica)} title="Quitar del tablero" className="text-gray-400 hover:text-red-600"><FaTrash /></button>
+                        </div>
+                        {spec ? <QueryChart filas={filas} spec={spec} /> : <p className="text-sm text-gray-500">{error}</p>}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+const COMPARISON_STYLES: Record<EstadoComparacion, string> = {
+    nueva: "bg-green-50",
+    eliminada: "bg-red-50 line-through text-gray-500",
+    cambiada: "bg-yellow-50",
+    igual: "",
+};
+
+const ResultComparisonPanel: React.FC<{ comparacion: ResultComparison; columnas: string[]; anterior: ConsultaIA }> = ({ comparacion, columnas, anterior }) => {
+    const { resumen } = comparacion;
+    const [soloCambios, setSoloCambios] = useState(true);
+    const filas = soloCambios ? comparacion.filas.filter(f => f.estado !== "igual") : comparacion.filas;
+    const renderCell = (fila: ComparisonRow, column: string) => {
+        const previo = fila.anterior?.[column] ?? null;
+        const actual = fila.actual?.[column] ?? null;
+        if (fila.estado !== "cambiada" || previo === actual) return formatResultCell(fila.actual ? actual : previo);
+        const delta = typeof previo === 'number' && typeof actual === 'number' ? actual - previo : null;
+        return (
+            <span>
+                <span className="text-gray-400">{formatResultCell(previo)} → </span>
+                <span className="font-semibold">{formatResultCell(actual)}</span>
+                {delta !== null && <span className={delta > 0 ? "text-green-700" : "text-red-600"}> ({delta > 0 ? '+' : ''}{formatResultCell(delta)})</span>}
+            </span>
+        );
     };
-    
-    const renderResult = () => {
-        if (!result) return null;
 
-        if (Array.isArray(result) && result.length > 0) {
-            const headers = Object.keys(result[0]);
-            return (
+    return (
+        <div className="bg-white p-6 rounded-2xl shadow-md space-y-4">
+            <div className="flex justify-between items-center">
+                <h4 className="text-md font-bold text-gray-800">Comparación con la ejecución del {new Date(anterior.fecha).toLocaleString('es-MX')}</h4>
+                <label className="flex items-center gap-2 text-sm text-gray-600">
+                    <input type="checkbox" checked={soloCambios} onChange={e => setSoloCambios(e.target.checked)} />
+                    Solo diferencias
+                </label>
+            </div>
+            <p className="text-sm text-gray-600">{resumen.nueva} nueva(s) · {resumen.eliminada} eliminada(s) · {resumen.cambiada} con cambios · {resumen.igual} sin cambios</p>
+            {filas.length > 0 ? (
                 <div className="overflow-x-auto">
                     <table className="min-w-full bg-white divide-y divide-gray-200 rounded-lg">
                         <thead className="bg-gray-50">
                             <tr>
-                                {headers.map(header => <th key={header} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{header.replace(/_/g, ' ')}</th>)}
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Estado</th>
+                                {columnas.map(column => <th key={column} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{formatResultHeader(column)}</th>)}
                             </tr>
                         </thead>
                         <tbody className="bg-white divide-y divide-gray-200">
-                            {result.map((row, index) => (
-                                <tr key={index}>
-                                    {headers.map(header => <td key={header} className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{typeof row[header] === 'object' ? JSON.stringify(row[header]) : String(row[header])}</td>)}
+                            {filas.map(fila => (
+                                <tr key={`${fila.estado}-${fila.clave}`} className={COMPARISON_STYLES[fila.estado]}>
+                                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700 capitalize">{fila.estado}</td>
+                                    {columnas.map(column => <td key={column} className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{renderCell(fila, column)}</td>)}
                                 </tr>
                             ))}
                         </tbody>
                     </table>
                 </div>
-            )
-        }
-        
-        return <pre className="bg-gray-800 text-white p-4 rounded-lg text-sm">{JSON.stringify(result, null, 2)}</pre>;
-    }
+            ) : (
+                <p className="text-sm text-gray-500">El resultado es igual al de la ejecución anterior.</p>
+            )}
+        </div>
+    );
+};
 
-    return (
-        <div className="space-y-6">
-            <div className="bg-white p-6 rounded-2xl shadow-md">
-                <h3 className="text-lg font-bold text-gray-800 mb-2 flex items-center gap-2"><FaRobot/> Explorador de Datos con IA</h3>
-                <p className="text-sm text-gray-600 mb-4">Haz una pregunta en lenguaje natural sobre los datos de adquisiciones. (Ej: "¿Cuáles son los 10 productos más caros?", "Resume los contratos del proveedor 'COME FRUTAS Y VERDURAS, S.A DE C.V'")</p>
-                <div className="flex gap-2">
-                    <input 
-                        type="text" 
-                        value={query}
-                        onChange={(e) => setQuery(e.target.value)}
-                        onKeyDown={(e) => e.key === 'Enter' && handleQuery()}
-                        placeholder="Escribe tu pregunta aquí..."
-                        className="flex-grow p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition"
-                        disabled={isLoading}
-                    />
-                    <button onClick={handleQuery} disabled={isLoading} className="bg-blue-600 text-white px-6 py-3 rounded-lg font-semibold hover:bg-blue-700 transition disabled:bg-blue-300 disabled:cursor-wait flex items-center gap-2">
-                        {isLoading ? <FaSpinner className="animate-spin" /> : <FaSearch />}
-                        <span>Consultar</span>
-                    </button>
-                </div>
+type ExplorerResult = { entrada: ConsultaIA; anterior: ConsultaIA | null; comparacion: ResultComparison | null };
+
+const DataExplorerView: React.FC = () => {
+    const data = useData();
+    const { consultas, consultasGuardadas, registrarConsulta, guardarConsulta, eliminarConsultaGuardada } = data;
+    const { usuario, can } = useAuth();
+    const [llmSettings] = useState(loadLlmSettings);
+    const provider = useMemo(() => createLlmProvider(llmSettings), [llmSettings]);
+    const [query, setQuery] = useState("");
+    const [isLoading, setIsLoading] = useState(false);
+    const [result, setResult] = useState<ExplorerResult | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [nombreGuardado, setNombreGuardado] = useState("");
+
+    const dataset = useMemo(() => buildQueryDataset(data, new Date()), [data]);
+    const guardadas = useMemo(() => sortSavedQueries(consultasGuardadas), [consultasGuardadas]);
+    const historial = useMemo(() => [...consultas].sort((a, b) => b.id_consulta - a.id_consulta), [consultas]);
+
+    const showEntry = (entrada: ConsultaIA, anterior: ConsultaIA | null = null) => {
+        setResult({ entrada, anterior, comparacion: anterior ? compareQueryResults(anterior, entrada) : null });
+        setNombreGuardado("");
+        setError(entrada.error);
+    };
+
+    // Every question is recorded, including the ones that fail, so the history shows what was asked.
+    const record = async (draft: Omit<NuevaConsultaIA, "fecha" | "usuario_fk">) =>
+        registrarConsulta({ ...draft, fecha: new Date().toISOString(), usuario_fk: usuario.rud });
+
+    const handleQuery = async () => {
+        if (!query.trim() || !provider) return;
+        setIsLoading(true);
+        setError(null);
+        setResult(null);
+
+        const base = { pregunta: query.trim(), proveedor: provider.id, modelo: provider.model, guardada_fk: null };
+        try {
+            const schema = `${QUERY_SCHEMA_DOC}\n\nTablas:\n${describeQueryTables(dataset)}`;
+            const consulta = validateQuery(await generateStructuredQuery(provider, query, schema));
+            const { columnas, filas, filas_evaluadas } = runQuery(dataset, consulta);
+            showEntry(await record({ ...base, consulta, columnas, filas, filas_evaluadas, error: null }));
+        } catch (e: any) {
+            const message = e.message || "Ocurrió un error al procesar la solicitud.";
+            setError(message);
+            await record({ ...base, consulta: null, columnas: [], filas: [], filas_evaluadas: 0, error: message }).catch(() => undefined);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    // Saved queries run locally against current data; the model is not asked again.
+    const handleRunSaved = async (guardada: ConsultaGuardada) => {
+        setError(null);
+        try {
+            const anterior = lastRunOf(consultas, guardada.id_guardada) ?? null;
+            const { columnas, filas, filas_evaluadas } = runQuery(dataset, guardada.consulta);
+            const entrada = await record({
+                pregunta: guardada.pregunta,
+                proveedor: "local",
+                modelo: "",
+                consulta: guardada.consulta,
+                columnas,
+                filas,
+                filas_evaluadas,
+                error: null,
+                guardada_fk: guardada.id_guardada,
+            });
+            setQuery(guardada.pregunta);
+            showEntry(entrada, anterior);
+        } catch (e: any) {
+            setError(e.message || "No se pudo ejecutar la consulta guardada.");
+        }
+    };
+
+    const handleSave = async () => {
+        if (!result?.entrada.consulta) return;
+        setError(null);
+        try {
+            const guardada = await guardarConsulta({
+                nombre: nombreGuardado,
+                pregunta: result.entrada.pregunta,
+                consulta: result.entrada.consulta,
+                fijada: false,
+                usuario_fk: usuario.rud,
+            }, result.entrada.id_consulta);
+            setNombreGuardado("");
+            setResult(prev => prev && { ...prev, entrada: { ...prev.entrada, guardada_fk: guardada.id_guardada } });
+        } catch (e: any) {
+            setError(e.message || "No se pudo guardar la consulta.");
+        }
+    };
+
+    const handleTogglePin = (guardada: ConsultaGuardada) =>
+        guardarConsulta({ ...guardada, fijada: !guardada.fijada }).catch((e: any) => setError(e.message));
+
+    const handleDeleteSaved = (guardada: ConsultaGuardada) => {
+        if (!window.confirm(`¿Eliminar la consulta guardada "${guardada.nombre}"?`)) return;
+        eliminarConsultaGuardada(guardada.id_guardada).catch((e: any) => setError(e.message));
+    };
+
+    const getResultTable = () => ({
+        headers: result!.entrada.columnas.map(formatResultHeader),
+        rows: result!.entrada.filas.map(row => result!.entrada.columnas.map(column => exportResultCell(row[column]))),
+    });
+
+    // Matters for stored history entries: a result shown again after the data changed is flagged.
+    const verification = useMemo(() => {
+        const consulta = result?.entrada.consulta;
+        if (!result || !consulta) return null;
+        try {
+            return verifyAnswer(dataset, { ...result.entrada, consulta });
+        } catch {
+            return null;
+        }
+    }, [dataset, result]);
+
+    const renderResult = () => {
+        if (!result) return null;
+        const { columnas, filas, filas_evaluadas, consulta } = result.entrada;
+
+        return (
+            <div className="space-y-4">
+                <p className="text-sm text-gray-600">{filas.length} fila(s) en el resultado, calculadas sobre {filas_evaluadas} registro(s) que cumplen los filtros.</p>
+                {verification && <VerificationBanner verification={verification} />}
+                {filas.length > 0 ? (
+                    <div className="overflow-x-auto">
+                        <table className="min-w-full bg-white divide-y divide-gray-200 rounded-lg">
+                            <thead className="bg-gray-50">
+                                <tr>
+                                    {columnas.map(column => <th key={column} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{formatResultHeader(column)}</th>)}
+                                </tr>
+                            </thead>
+                            <tbody className="bg-white divide-y divide-gray-200">
+                                {filas.map((row, index) => {
+                                    const check = verification?.filas[index];
+                                    return (
+                                        <tr key={index} className={check?.estado === "sin_respaldo" ? "bg-red-50" : ""} title={check && check.estado !== "vigente" ? [ESTADO_FILA_LABELS[check.estado], ...check.faltantes].join(' ') : undefined}>
+                                            {columnas.map(column => {
+                                                const desactualizado = check && column in check.actuales;
+                                                return (
+                                                    <td key={column} className={`px-6 py-4 whitespace-nowrap text-sm ${desactualizado ? 'bg-yellow-100 text-yellow-900 font-semibold' : 'text-gray-700'}`} title={desactualizado ? `Valor actual: ${formatResultCell(check.actuales[column])}` : undefined}>
+                                                        {formatResultCell(row[column])}
+                                                    </td>
+                                                );
+                                            })}
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                ) : (
+                    <p className="text-sm text-gray-500">Ningún registro cumple la consulta.</p>
+                )}
+                {consulta && <ProvenancePanel dataset={dataset} consulta={consulta} />}
+            </div>
+        );
+    }
+
+    const historyColumns = [
+        { key: 'fecha' as keyof ConsultaIA, label: 'Fecha', render: (item: ConsultaIA) => new Date(item.fecha).toLocaleString('es-MX') },
+        { key: 'pregunta' as keyof ConsultaIA, label: 'Pregunta' },
+        { key: 'proveedor' as keyof ConsultaIA, label: 'Proveedor', render: (item: ConsultaIA) =>
+            item.proveedor === 'local' ? 'Consulta guardada' : `${LLM_PROVIDERS[item.proveedor as LlmProviderId]?.nombre ?? item.proveedor} · ${item.modelo}` },
+        { key: 'filas', label: 'Resultado', render: (item: ConsultaIA) =>
+            item.error ? <span className="text-red-600">{item.error}</span> : `${item.filas.length} fila(s)` },
+        { key: 'id_consulta', label: '', exportable: false, render: (item: ConsultaIA) =>
+            !item.error && <button onClick={() => showEntry(item)} className="text-blue-600 hover:underline">Ver</button> },
+    ];
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-white p-6 rounded-2xl shadow-md">
+                <h3 className="text-lg font-bold text-gray-800 mb-2 flex items-center gap-2"><FaRobot/> Explorador de Datos con IA</h3>
+                {provider ? (
+                    <>
+                        <p className="text-sm text-gray-600 mb-4">Haz una pregunta en lenguaje natural sobre los datos de adquisiciones. La pregunta se traduce a una consulta que se ejecuta sobre todos los registros. (Ej: "¿Cuáles son los 10 productos más caros?", "¿Cuántos artículos adjudicados tiene cada proveedor?")</p>
+                        <div className="flex gap-2">
+                            <input 
+                                type="text" 
+                                value={query}
+                                onChange={(e) => setQuery(e.target.value)}
+                                onKeyDown={(e) => e.key === 'Enter' && handleQuery()}
+                                placeholder="Escribe tu pregunta aquí..."
+                                className="flex-grow p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition"
+                                disabled={isLoading}
+                            />
+                            <button onClick={handleQuery} disabled={isLoading} className="bg-blue-600 text-white px-6 py-3 rounded-lg font-semibold hover:bg-blue-700 transition disabled:bg-blue-300 disabled:cursor-wait flex items-center gap-2">
+                                {isLoading ? <FaSpinner className="animate-spin" /> : <FaSearch />}
+                                <span>Consultar</span>
+                            </button>
+                        </div>
+                        <p className="text-xs text-gray-500 mt-2">Proveedor: {LLM_PROVIDERS[provider.id].nombre} · Modelo: {provider.model}</p>
+                    </>
+                ) : (
+                    <div className="bg-yellow-50 border border-yellow-300 text-yellow-800 px-4 py-3 rounded-lg text-sm" role="alert">
+                        <p className="font-bold">IA no configurada</p>
+                        <p>{getLlmConfigurationIssue(llmSettings)} {can("configurar_sistema")
+                            ? 'Elige un proveedor en la pestaña Configuración; "Respuestas de prueba" funciona sin conexión ni clave de API.'
+                            : 'Pide a un administrador que elija un proveedor en la pestaña Configuración.'} Las consultas guardadas se pueden ejecutar sin IA.</p>
+                    </div>
+                )}
             </div>
+
+            {guardadas.length > 0 && (
+                <div className="bg-white p-6 rounded-2xl shadow-md">
+                    <h4 className="text-md font-bold text-gray-800 mb-4 flex items-center gap-2"><FaStar /> Consultas Guardadas</h4>
+                    <ul className="divide-y divide-gray-200">
+                        {guardadas.map(guardada => (
+                            <li key={guardada.id_guardada} className="py-3 flex flex-col md:flex-row md:items-center justify-between gap-2">
+                                <div>
+                                    <p className="font-semibold text-gray-800 flex items-center gap-2">{guardada.fijada && <FaThumbtack className="text-blue-600" />}{guardada.nombre}</p>
+                                    <p className="text-sm text-gray-500">{guardada.pregunta}</p>
+                                </div>
+                                <div className="flex gap-2 text-sm">
+                                    <button onClick={() => handleRunSaved(guardada)} className="px-3 py-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700">Ejecutar</button>
+                                    <button onClick={() => handleTogglePin(guardada)} className="px-3 py-2 rounded-lg border border-gray-300 hover:bg-gray-100">{guardada.fijada ? 'Desfijar' : 'Fijar'}</button>
+                                    <button onClick={() => handleDeleteSaved(guardada)} className="px-3 py-2 rounded-lg border border-gray-300 text-red-600 hover:bg-red-50"><FaTrash /></button>
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
             
             {isLoading && <div className="text-center p-6"><FaSpinner className="animate-spin text-4xl text-blue-600 mx-auto" /></div>}
             {error && <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg" role="alert">{error}</div>}
-            {result && (
+            {result && !result.entrada.error && (
                 <div className="bg-white p-6 rounded-2xl shadow-md">
-                    <h4 className="text-md font-bold text-gray-800 mb-4">Resultado de la Consulta</h4>
+                    <div className="flex flex-col md:flex-row justify-between md:items-center gap-2 mb-4">
+                        <div>
+                            <h4 className="text-md font-bold text-gray-800">Resultado de la Consulta</h4>
+                            <p className="text-sm text-gray-500">"{result.entrada.pregunta}" · {new Date(result.entrada.fecha).toLocaleString('es-MX')}</p>
+                        </div>
+                        {result.entrada.filas.length > 0 && <ExportButtons title="Resultado de la Consulta" getTable={getResultTable} />}
+                    </div>
+                    {result.entrada.guardada_fk === null && result.entrada.consulta && (
+                        <div className="flex gap-2 mb-4 text-sm">
+                            <input type="text" value={nombreGuardado} onChange={e => setNombreGuardado(e.target.value)} placeholder="Nombre para guardar esta consulta" className="flex-grow p-2 border border-gray-300 rounded-lg" />
+                            <button onClick={handleSave} className="px-4 py-2 rounded-lg border border-gray-300 hover:bg-gray-100 flex items-center gap-2"><FaStar /> Guardar</button>
+                        </div>
+                    )}
+                    <ResultChartPanel key={result.entrada.id_consulta} entrada={result.entrada} />
                     {renderResult()}
                 </div>
             )}
+            {result?.comparacion && result.anterior && (
+                <ResultComparisonPanel comparacion={result.comparacion} columnas={result.entrada.columnas} anterior={result.anterior} />
+            )}
+
+            {historial.length > 0 && (
+                <DataTable columns={historyColumns} data={historial} searchKeys={['pregunta']} title="Historial de Consultas" />
+            )}
+        </div>
+    );
+};
+
+// Plain text of what a cell renders, so exports carry the same formatting as the screen.
+const renderedText = (node: React.ReactNode): string => {
+    if (node === null || node === undefined || typeof node === 'boolean') return '';
+    if (typeof node === 'string' || typeof node === 'number') return String(node);
+    const container = document.createElement('div');
+    container.innerHTML = renderToStaticMarkup(<>{node}</>);
+    return (container.textContent ?? '').trim();
+};
+
+const ExportButtons: React.FC<{ title: string; getTable: () => { headers: string[]; rows: ExportCell[][] } }> = ({ title, getTable }) => {
+    const handleExport = (format: ExportFormat) => downloadTable({ title, ...getTable(), generatedAt: new Date() }, format);
+    const buttonClass = "px-3 py-2 rounded-lg border border-gray-300 text-sm text-gray-600 hover:bg-gray-100 flex items-center gap-2";
+    return (
+        <div className="flex gap-2">
+            <button onClick={() => handleExport('csv')} className={buttonClass}><FaFileCsv /> CSV</button>
+            <button onClick={() => handleExport('xlsx')} className={buttonClass}><FaFileExcel /> XLSX</button>
+            <button onClick={() => handleExport('pdf')} className={buttonClass}><FaFilePdf /> PDF</button>
         </div>
     );
 };
 
-const DataTable: React.FC<{ columns: { key: keyof any; label: string; render?: (item: any) => React.ReactNode }[], data: any[], searchKeys: (keyof any)[] }> = ({ columns, data, searchKeys }) => {
+// `exportValue` replaces the rendered text in exports when the cell shows more than one value.
+type DataTableColumn = { key: keyof any; label: string; render?: (item: any) => React.ReactNode; exportValue?: (item: any) => ExportCell; exportable?: boolean };
+
+const DataTable: React.FC<{ columns: DataTableColumn[], data: any[], searchKeys: (keyof any)[], title?: string }> = ({ columns, data, searchKeys, title = "Reporte" }) => {
     const [searchTerm, setSearchTerm] = useState('');
     const { items: sortedData, requestSort, sortConfig } = useSortableData(data);
 
@@ -417,9 +1722,23 @@ const DataTable: React.FC<{ columns: { key: keyof any; label: string; render?: (
         );
     }, [sortedData, searchTerm, searchKeys]);
 
+    // Exports follow the current search and sort; action columns are left out.
+    const getTable = () => {
+        const exported = columns.filter(col => col.exportable !== false);
+        return {
+            headers: exported.map(col => col.label),
+            rows: filteredData.map(item => exported.map(col => {
+                if (col.exportValue) return col.exportValue(item);
+                if (col.render) return renderedText(col.render(item));
+                const value = item[col.key];
+                return typeof value === 'number' ? value : String(value ?? '');
+            })),
+        };
+    };
+
     return (
         <div className="bg-white p-6 rounded-2xl shadow-md">
-            <div className="mb-4">
+            <div className="mb-4 flex flex-col md:flex-row md:items-center md:justify-between gap-2">
                 <input
                     type="text"
                     placeholder="Buscar..."
@@ -427,6 +1746,7 @@ const DataTable: React.FC<{ columns: { key: keyof any; label: string; render?: (
                     onChange={e => setSearchTerm(e.target.value)}
                     className="w-full md:w-1/3 p-2 border border-gray-300 rounded-lg"
                 />
+                <ExportButtons title={title} getTable={getTable} />
             </div>
             <div className="overflow-x-auto">
                 <table className="min-w-full divide-y divide-gray-200">
@@ -439,7 +1759,7 @@ const DataTable: React.FC<{ columns: { key: keyof any; label: string; render?: (
                     </thead>
                     <tbody className="bg-white divide-y divide-gray-200">
                         {filteredData.map((item, index) => (
-                            <tr key={item.id_contrato || item.codigo || item.id_proveedor || item.rud || index} className="hover:bg-gray-50">
+                            <tr key={item.id_movimiento_almacen || item.id_orden || item.id_movimiento || item.id_adjudicado || item.id_contrato || item.codigo || item.id_proveedor || item.rud || index} className="hover:bg-gray-50">
                                 {columns.map(col => (
                                     <td key={String(col.key)} className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
                                         {col.render ? col.render(item) : String(item[col.key] ?? '')}
@@ -455,96 +1775,2270 @@ const DataTable: React.FC<{ columns: { key: keyof any; label: string; render?: (
 };
 
 
+type FieldOption = { value: string; label: string };
+
+type FieldDef = {
+  key: string;
+  label: string;
+  type: "text" | "number" | "password" | "select";
+  nullable?: boolean;
+  numeric?: boolean;
+  lockedOnEdit?: boolean;
+  // Computed when the record is saved: shown, but neither editable nor sent.
+  derived?: boolean;
+  options?: (data: DataContextValue) => FieldOption[];
+};
+
+const ENTITY_FIELDS: Record<EntityName, FieldDef[]> = {
+  adjudicados: [
+    { key: "contrato_fk", label: "Contrato", type: "select", options: d => d.contratos.map(c => ({ value: c.contrato, label: c.contrato })) },
+    { key: "codigo_fk", label: "Artículo", type: "select", numeric: true, options: d => d.articulos.map(a => ({ value: String(a.codigo), label: `${a.codigo} · ${a.descripcion_articulo}` })) },
+    { key: "cantidad_minima", label: "Cantidad Mínima", type: "number" },
+    { key: "cantidad_maxima", label: "Cantidad Máxima", type: "number" },
+    { key: "precio_unitario", label: "Precio Unitario", type: "number" },
+    { key: "iva", label: "IVA (%)", type: "number" },
+    { key: "ieps", label: "IEPS (%)", type: "number" },
+    { key: "importe_maximo", label: "Importe Máximo", type: "number", derived: true },
+  ],
+  articulos: [
+    { key: "codigo", label: "Código", type: "number", lockedOnEdit: true },
+    { key: "descripcion_articulo", label: "Descripción", type: "text" },
+    { key: "unidad_medida", label: "Unidad de Medida", type: "text" },
+    { key: "unidad_codigo", label: "Unidad del Catálogo (vacía para detectarla)", type: "select", nullable: true, options: () => UNIT_CATALOG.map(u => ({ value: u.codigo, label: `${u.codigo} · ${u.nombre}` })) },
+    { key: "unidad_base", label: "Unidad Base", type: "select", nullable: true, options: () => UNIDADES_BASE.map(u => ({ value: u, label: u })) },
+    { key: "contenido_neto", label: "Contenido Neto en Unidad Base", type: "number", nullable: true },
+    { key: "partida_especifica", label: "Partida Específica", type: "number" },
+    { key: "precio_medio", label: "Precio Medio", type: "number" },
+    { key: "ultima_fecha", label: "Última Fecha", type: "text", nullable: true },
+    { key: "estatus", label: "Estatus", type: "text", nullable: true },
+    { key: "imagen_producto", label: "Imagen", type: "text", nullable: true },
+  ],
+  contratos: [
+    { key: "contrato", label: "Contrato", type: "text" },
+    { key: "licitacion_fk", label: "Licitación", type: "select", options: d => d.licitaciones.map(l => ({ value: l.licitacion, label: `${l.licitacion} · ${l.denominacion}` })) },
+    { key: "id_proveedor_fk", label: "Proveedor", type: "select", numeric: true, options: d => d.proveedores.map(p => ({ value: String(p.id_proveedor), label: p.proveedor })) },
+    { key: "monto_maximo", label: "Monto Máximo", type: "number" },
+    { key: "inicio_vigencia", label: "Inicio Vigencia", type: "text" },
+    { key: "fin_vigencia", label: "Fin Vigencia", type: "text" },
+  ],
+  licitaciones: [
+    { key: "licitacion", label: "Licitación", type: "text" },
+    { key: "denominacion", label: "Denominación", type: "text" },
+    { key: "fecha_convocatoria", label: "Fecha Convocatoria", type: "text", nullable: true },
+    { key: "fecha_dudas", label: "Fecha Aclaración de Dudas", type: "text", nullable: true },
+    { key: "fecha_apertura", label: "Fecha Apertura", type: "text", nullable: true },
+    { key: "fecha_fallo", label: "Fecha Fallo", type: "text", nullable: true },
+  ],
+  proveedores: [
+    { key: "proveedor", label: "Nombre", type: "text" },
+    { key: "domicilio", label: "Domicilio", type: "text" },
+    { key: "ciudad", label: "Ciudad", type: "text" },
+    { key: "correo_electronico", label: "Correo Electrónico", type: "text", nullable: true },
+    { key: "telefono", label: "Teléfono", type: "text", nullable: true },
+    { key: "giro_comercial", label: "Giro Comercial", type: "text" },
+    { key: "logotipo_imagen", label: "Logotipo", type: "text" },
+  ],
+  usuarios: [
+    { key: "rud", label: "RUD", type: "number", lockedOnEdit: true },
+    { key: "nombre", label: "Nombre", type: "text" },
+    { key: "contrasena", label: "Contraseña (vacía para conservar)", type: "password", nullable: true },
+    { key: "correo_electronico", label: "Correo Electrónico", type: "text", nullable: true },
+    { key: "rol", label: "Rol", type: "text" },
+  ],
+};
+
+const parseFieldValues = (fields: FieldDef[], raw: Record<string, string>) => {
+  const values: Record<string, unknown> = {};
+  fields.forEach(field => {
+    if (field.derived) return;
+    const text = (raw[field.key] ?? "").trim();
+    if (!text) {
+      if (!field.nullable) throw new Error(`El campo "${field.label}" es obligatorio.`);
+      // An empty password means "keep the current one", not "clear it".
+      if (field.type !== "password") values[field.key] = null;
+      return;
+    }
+    if (field.type === "number" || field.numeric) {
+      const num = Number(text);
+      if (!Number.isFinite(num)) throw new Error(`El campo "${field.label}" debe ser numérico.`);
+      values[field.key] = num;
+    } else {
+      values[field.key] = text;
+    }
+  });
+  return values;
+};
+
+const ACCION_AUDITORIA_STYLES: Record<AccionAuditoria, string> = {
+  CREAR: "bg-green-100 text-green-800",
+  EDITAR: "bg-blue-100 text-blue-800",
+  ELIMINAR: "bg-red-100 text-red-800",
+};
+
+const AuditActionBadge: React.FC<{ accion: AccionAuditoria }> = ({ accion }) => (
+  <span className={`px-2 py-1 rounded-full text-xs font-semibold ${ACCION_AUDITORIA_STYLES[accion]}`}>
+    {ACCION_AUDITORIA_LABELS[accion]}
+  </span>
+);
+
+const auditUserName = (usuarios: Usuario[], usuario_fk: number | null) =>
+  usuario_fk === null ? "Sistema" : usuarios.find((u) => u.rud === usuario_fk)?.nombre ?? String(usuario_fk);
+
+const AuditChanges: React.FC<{ cambios: CambioCampo[] }> = ({ cambios }) => (
+  <table className="min-w-full text-xs">
+    <tbody className="divide-y divide-gray-100">
+      {cambios.map((c) => (
+        <tr key={c.campo}>
+          <td className="pr-3 py-1 font-semibold text-gray-700 whitespace-nowrap">{c.campo}</td>
+          <td className="pr-3 py-1 text-red-700 line-through">{formatAuditValue(c.antes)}</td>
+          <td className="py-1 text-green-700">{formatAuditValue(c.despues)}</td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+// Audit entries of one record, newest first.
+const RecordHistoryPanel: React.FC<{ entidad: EntityName; clave: unknown }> = ({ entidad, clave }) => {
+  const { auditoria, usuarios } = useData();
+  const historial = useMemo(() => recordHistory(auditoria, entidad, clave), [auditoria, entidad, clave]);
+
+  if (historial.length === 0) {
+    return <p className="text-sm text-gray-500">Sin cambios registrados.</p>;
+  }
+  return (
+    <ol className="space-y-3">
+      {historial.map((r) => (
+        <li key={r.id_auditoria} className="border border-gray-200 rounded-lg p-3">
+          <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600 mb-2">
+            <AuditActionBadge accion={r.accion} />
+            <span>{new Date(r.fecha).toLocaleString("es-MX")}</span>
+            <span>· {auditUserName(usuarios, r.usuario_fk)}</span>
+          </div>
+          <AuditChanges cambios={r.cambios} />
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+const RecordFormModal: React.FC<{
+  title: string;
+  fields: FieldDef[];
+  initial: object;
+  isNew: boolean;
+  onCancel: () => void;
+  onSave: (values: Record<string, unknown>) => Promise<void>;
+  historial?: React.ReactNode;
+}> = ({ title, fields, initial, isNew, onCancel, onSave, historial }) => {
+  const data = useData();
+  const [raw, setRaw] = useState<Record<string, string>>(() => {
+    const source = initial as Record<string, unknown>;
+    return Object.fromEntries(fields.map(f => [f.key, source[f.key] === null || source[f.key] === undefined ? "" : String(source[f.key])]));
+  });
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    setError(null);
+    setIsSaving(true);
+    try {
+      await onSave(parseFieldValues(fields, raw));
+    } catch (e: any) {
+      setError(e.message || "No se pudo guardar el registro.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-40 flex items-center justify-center z-50">
+      <div className="bg-white p-6 rounded-2xl shadow-lg w-full max-w-2xl max-h-screen overflow-y-auto">
+        <h3 className="text-lg font-bold text-gray-800 mb-4">{title}</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {fields.map(field => (
+            <label key={field.key} className="text-sm text-gray-600">
+              {field.label}{field.nullable ? "" : " *"}
+              {field.type === "select" && field.options ? (
+                <select value={raw[field.key]} onChange={e => setRaw(prev => ({ ...prev, [field.key]: e.target.value }))} className="mt-1 w-full p-2 border border-gray-300 rounded-lg">
+                  <option value="">Selecciona...</option>
+                  {field.options(data).map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                </select>
+              ) : (
+                <input
+                  type={field.type === "select" ? "text" : field.type}
+                  step="any"
+                  value={raw[field.key]}
+                  placeholder={field.derived ? "Se calcula al guardar" : undefined}
+                  disabled={field.derived || (!isNew && field.lockedOnEdit)}
+                  onChange={e => setRaw(prev => ({ ...prev, [field.key]: e.target.value }))}
+                  className="mt-1 w-full p-2 border border-gray-300 rounded-lg disabled:bg-gray-100"
+                />
+              )}
+            </label>
+          ))}
+        </div>
+        {historial && (
+          <details className="mt-6">
+            <summary className="cursor-pointer text-sm font-semibold text-gray-700">Historial de cambios</summary>
+            <div className="mt-3">{historial}</div>
+          </details>
+        )}
+        {error && <div className="mt-4 bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg" role="alert">{error}</div>}
+        <div className="mt-6 flex justify-end gap-2">
+          <button onClick={onCancel} className="px-4 py-2 rounded-lg border border-gray-300 hover:bg-gray-100">Cancelar</button>
+          <button onClick={handleSave} disabled={isSaving} className="bg-blue-600 text-white px-6 py-2 rounded-lg font-semibold hover:bg-blue-700 transition disabled:bg-blue-300 flex items-center gap-2">
+            {isSaving && <FaSpinner className="animate-spin" />}
+            Guardar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Read-only view of a record's audit history, for users who cannot open the edit form.
+const RecordHistoryModal: React.FC<{ title: string; entidad: EntityName; clave: unknown; onClose: () => void }> = ({ title, entidad, clave, onClose }) => (
+  <div className="fixed inset-0 bg-black bg-opacity-40 flex items-center justify-center z-50">
+    <div className="bg-white p-6 rounded-2xl shadow-lg w-full max-w-2xl max-h-screen overflow-y-auto">
+      <h3 className="text-lg font-bold text-gray-800 mb-4 flex items-center gap-2"><FaHistory /> {title}</h3>
+      <RecordHistoryPanel entidad={entidad} clave={clave} />
+      <div className="mt-6 flex justify-end">
+        <button onClick={onClose} className="px-4 py-2 rounded-lg border border-gray-300 hover:bg-gray-100">Cerrar</button>
+      </div>
+    </div>
+  </div>
+);
+
+// Adds "Nuevo", "Editar" and "Eliminar" to an entity view, writing through the data store.
+// Users without the matching permission get the read-only view, where each row still opens its history.
+const useRecordEditor = <K extends EntityName>(entity: K) => {
+  const { guardarRegistro, eliminarRegistro } = useData();
+  const { usuario, can } = useAuth();
+  const allowed = can(entity === "usuarios" ? "gestionar_usuarios" : "editar_catalogos");
+  const [editing, setEditing] = useState<{ record: Partial<StoreRecords[K]>; isNew: boolean } | null>(null);
+  const [history, setHistory] = useState<StoreRecords[K] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const label = ENTITY_LABELS[entity];
+  const key = STORE_KEYS[entity];
+
+  const remove = async (record: StoreRecords[K]) => {
+    if (!window.confirm(`¿Eliminar este registro de ${label}?`)) return;
+    setError(null);
+    try {
+      await eliminarRegistro(entity, record, usuario.rud);
+    } catch (e: any) {
+      setError(e.message || "No se pudo eliminar el registro.");
+    }
+  };
+
+  const column = {
+    key: "acciones",
+    label: "Acciones",
+    exportable: false,
+    render: (item: StoreRecords[K]) => (
+      <div className="flex gap-3">
+        <button onClick={() => setEditing({ record: item, isNew: false })} className="text-blue-600 hover:underline flex items-center gap-1"><FaEdit /> Editar</button>
+        <button onClick={() => remove(item)} className="text-red-600 hover:underline flex items-center gap-1"><FaTrash /> Eliminar</button>
+      </div>
+    ),
+  };
+
+  const toolbar = (
+    <div className="flex justify-between items-start gap-4">
+      {error ? <div className="flex-1 bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg" role="alert">{error}</div> : <span />}
+      <button onClick={() => setEditing({ record: {}, isNew: true })} className="bg-blue-600 text-white px-4 py-2 rounded-lg font-semibold hover:bg-blue-700 transition flex items-center gap-2">
+        <FaPlus /> Nuevo {label}
+      </button>
+    </div>
+  );
+
+  const modal = editing && (
+    <RecordFormModal
+      title={`${editing.isNew ? "Nuevo" : "Editar"} ${label}`}
+      fields={ENTITY_FIELDS[entity]}
+      initial={editing.record}
+      isNew={editing.isNew}
+      onCancel={() => setEditing(null)}
+      historial={editing.isNew ? undefined : <RecordHistoryPanel entidad={entity} clave={editing.record[key]} />}
+      onSave={async values => {
+        const withKey = editing.isNew ? values : { ...values, [key]: editing.record[key] };
+        await guardarRegistro(entity, withKey as Partial<StoreRecords[K]>, editing.isNew, usuario.rud);
+        setEditing(null);
+      }}
+    />
+  );
+
+  const edit = (record: StoreRecords[K]) => setEditing({ record, isNew: false });
+
+  const historyColumn = {
+    key: "historial",
+    label: "Historial",
+    exportable: false,
+    render: (item: StoreRecords[K]) => (
+      <button onClick={() => setHistory(item)} className="text-blue-600 hover:underline flex items-center gap-1"><FaHistory /> Historial</button>
+    ),
+  };
+
+  const historyModal = history && (
+    <RecordHistoryModal title={`Historial de ${label} ${String(history[key])}`} entidad={entity} clave={history[key]} onClose={() => setHistory(null)} />
+  );
+
+  return allowed
+    ? { columns: [column], toolbar, modal, edit }
+    : { columns: [historyColumn], toolbar: null, modal: historyModal, edit: null };
+};
+
+type CambioPartidaForm = { cantidad: string; precio: string };
+
+const parseOptionalNumber = (value: string) => (value.trim() === "" ? null : Number(value));
+
+// Amendment history of one contract and the form to register a new one.
+const AmendmentsPanel: React.FC = () => {
+    const { contratos, convenios, usuarios, registrarConvenio } = useData();
+    const { usuario, can } = useAuth();
+    const [contratoId, setContratoId] = useState("");
+    const [fecha, setFecha] = useState(() => formatDate(new Date()));
+    const [justificacion, setJustificacion] = useState("");
+    const [monto, setMonto] = useState("");
+    const [finVigencia, setFinVigencia] = useState("");
+    const [cambios, setCambios] = useState<Record<number, CambioPartidaForm>>({});
+    const [error, setError] = useState<string | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+
+    const contrato = contratos.find(c => c.contrato === contratoId);
+    const historial = useMemo(() => amendmentsOf(convenios, contratoId), [convenios, contratoId]);
+    const limite = 1 + LIMITE_MODIFICACION_PCT / 100;
+
+    const resetForm = () => {
+        setJustificacion("");
+        setMonto("");
+        setFinVigencia("");
+        setCambios({});
+    };
+
+    const selectContrato = (id: string) => {
+        setContratoId(id);
+        setError(null);
+        setMessage(null);
+        resetForm();
+    };
+
+    const setCambio = (id_adjudicado: number, campo: keyof CambioPartidaForm, valor: string) =>
+        setCambios(prev => ({ ...prev, [id_adjudicado]: { ...(prev[id_adjudicado] ?? { cantidad: "", precio: "" }), [campo]: valor } }));
+
+    const handleSubmit = async () => {
+        setError(null);
+        setMessage(null);
+        try {
+            const convenio = await registrarConvenio({
+                contrato_fk: contratoId,
+                fecha,
+                justificacion,
+                monto_maximo: parseOptionalNumber(monto),
+                fin_vigencia: finVigencia.trim() || null,
+                partidas: Object.entries(cambios)
+                    .map(([id, c]) => ({
+                        adjudicado_fk: Number(id),
+                        cantidad_maxima: parseOptionalNumber(c.cantidad),
+                        precio_unitario: parseOptionalNumber(c.precio),
+                    }))
+                    .filter(p => p.cantidad_maxima !== null || p.precio_unitario !== null),
+            }, usuario.rud);
+            setMessage(`Convenio ${convenio.folio} registrado.`);
+            resetForm();
+        } catch (e: any) {
+            setError(e.message || "No se pudo registrar el convenio.");
+        }
+    };
+
+    const describeCambios = (convenio: ConvenioModificatorio) => {
+        const partes = [
+            ...(convenio.monto_maximo !== null ? [`Monto máximo: ${formatCurrency(convenio.monto_maximo)}`] : []),
+            ...(convenio.fin_vigencia !== null ? [`Fin de vigencia: ${convenio.fin_vigencia}`] : []),
+            ...convenio.partidas.map(p => {
+                const adj = contrato?.adjudicados.find(a => a.id_adjudicado === p.adjudicado_fk);
+                const valores = [
+                    ...(p.cantidad_maxima !== null ? [`cantidad ${p.cantidad_maxima}`] : []),
+                    ...(p.precio_unitario !== null ? [`precio ${formatCurrency(p.precio_unitario)}`] : []),
+                ];
+                return `${adj?.articulo?.descripcion_articulo ?? `Adjudicado ${p.adjudicado_fk}`}: ${valores.join(", ")}`;
+            }),
+        ];
+        return partes.join(" · ");
+    };
+
+    const historialColumns = [
+        { key: 'folio', label: 'Folio' },
+        { key: 'fecha', label: 'Fecha' },
+        { key: 'cambios', label: 'Cambios', render: (item: ConvenioModificatorio) => describeCambios(item) },
+        { key: 'justificacion', label: 'Justificación' },
+        { key: 'usuario_fk', label: 'Registró', render: (item: ConvenioModificatorio) =>
+            item.usuario_fk !== null ? usuarios.find(u => u.rud === item.usuario_fk)?.nombre ?? String(item.usuario_fk) : 'Sistema' },
+    ];
+
+    const montoOriginal = contrato ? contrato.original?.monto_maximo ?? contrato.monto_maximo : 0;
+
+    return (
+        <div className="bg-white p-6 rounded-2xl shadow-md space-y-4">
+            <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2"><FaFileSignature/> Convenios Modificatorios</h3>
+            <p className="text-sm text-gray-600">
+                Los incrementos acumulados al monto máximo, y a la cantidad e importe de cada partida, no pueden exceder el {LIMITE_MODIFICACION_PCT}% de lo adjudicado originalmente.
+            </p>
+            <select value={contratoId} onChange={e => selectContrato(e.target.value)} className="w-full md:w-1/2 p-2 border border-gray-300 rounded-lg">
+                <option value="">Selecciona un contrato...</option>
+                {contratos.map(c => (
+                    <option key={c.contrato} value={c.contrato}>
+                        {c.contrato} · {c.proveedor_nombre}{c.original ? ` (${amendmentsOf(convenios, c.contrato).length} convenio(s))` : ''}
+                    </option>
+                ))}
+            </select>
+            {contrato && (
+                <>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+                        <div>
+                            <p className="text-gray-500">Monto máximo</p>
+                            <AmendedValue actual={formatCurrency(contrato.monto_maximo)} original={contrato.original && formatCurrency(contrato.original.monto_maximo)} />
+                        </div>
+                        <div>
+                            <p className="text-gray-500">Incremento acumulado</p>
+                            <p className="font-semibold">{increasePct(montoOriginal, contrato.monto_maximo).toFixed(1)}% de {LIMITE_MODIFICACION_PCT}% (tope {formatCurrency(montoOriginal * limite)})</p>
+                        </div>
+                        <div>
+                            <p className="text-gray-500">Vigencia</p>
+                            <p>{contrato.inicio_vigencia} al <AmendedValue actual={contrato.fin_vigencia} original={contrato.original?.fin_vigencia} /></p>
+                        </div>
+                    </div>
+                    {historial.length > 0
+                        ? <DataTable columns={historialColumns} data={historial} searchKeys={['folio', 'justificacion']} title={`Convenios ${contrato.contrato}`} />
+                        : <p className="text-sm text-gray-500">El contrato no tiene convenios modificatorios.</p>}
+                    {can("editar_catalogos") && (
+                        <div className="border-t pt-4 space-y-4">
+                            <h4 className="font-semibold text-gray-800">Registrar Convenio</h4>
+                            <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                                <label className="text-sm text-gray-600">Fecha
+                                    <input type="text" placeholder="dd/mm/aaaa" value={fecha} onChange={e => setFecha(e.target.value)} className="w-full p-2 border border-gray-300 rounded-lg" />
+                                </label>
+                                <label className="text-sm text-gray-600">Nuevo monto máximo
+                                    <input type="number" min="0" placeholder={String(contrato.monto_maximo)} value={monto} onChange={e => setMonto(e.target.value)} className="w-full p-2 border border-gray-300 rounded-lg" />
+                                </label>
+                                <label className="text-sm text-gray-600">Nuevo fin de vigencia
+                                    <input type="text" placeholder={contrato.fin_vigencia} value={finVigencia} onChange={e => setFinVigencia(e.target.value)} className="w-full p-2 border border-gray-300 rounded-lg" />
+                                </label>
+                            </div>
+                            <textarea placeholder="Justificación" value={justificacion} onChange={e => setJustificacion(e.target.value)} rows={2} className="w-full p-2 border border-gray-300 rounded-lg" />
+                            <div className="overflow-x-auto">
+                                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                                    <thead className="bg-gray-50">
+                                        <tr>
+                                            {['Artículo', 'Cantidad Máxima', 'Consumida', 'Tope de Cantidad', 'Nueva Cantidad', 'Precio Unitario', 'Nuevo Precio'].map(h => (
+                                                <th key={h} className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">{h}</th>
+                                            ))}
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-gray-200">
+                                        {contrato.adjudicados.map(adj => (
+                                            <tr key={adj.id_adjudicado}>
+                                                <td className="px-3 py-2">{adj.articulo?.descripcion_articulo ?? adj.codigo_fk}</td>
+                                                <td className="px-3 py-2"><AmendedValue actual={adj.cantidad_maxima} original={adj.original?.cantidad_maxima} /></td>
+                                                <td className="px-3 py-2">{adj.cantidad_consumida}</td>
+                                                <td className="px-3 py-2">{formatQuantity((adj.original?.cantidad_maxima ?? adj.cantidad_maxima) * limite)}</td>
+                                                <td className="px-3 py-2">
+                                                    <input type="number" min="0" value={cambios[adj.id_adjudicado]?.cantidad ?? ""} onChange={e => setCambio(adj.id_adjudicado, "cantidad", e.target.value)} className="w-28 p-1 border border-gray-300 rounded-lg" />
+                                                </td>
+                                                <td className="px-3 py-2"><AmendedValue actual={formatCurrency(adj.precio_unitario)} original={adj.original && formatCurrency(adj.original.precio_unitario)} /></td>
+                                                <td className="px-3 py-2">
+                                                    <input type="number" min="0" step="0.01" value={cambios[adj.id_adjudicado]?.precio ?? ""} onChange={e => setCambio(adj.id_adjudicado, "precio", e.target.value)} className="w-28 p-1 border border-gray-300 rounded-lg" />
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                            <p className="text-xs text-gray-500">Deja en blanco lo que no cambia.</p>
+                            <div className="flex items-center gap-4">
+                                <button onClick={handleSubmit} disabled={!justificacion.trim()} className="bg-blue-600 text-white px-6 py-2 rounded-lg font-semibold hover:bg-blue-700 transition disabled:bg-blue-300">
+                                    Registrar Convenio
+                                </button>
+                                {message && <span className="text-sm text-green-700">{message}</span>}
+                            </div>
+                        </div>
+                    )}
+                    {error && <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg" role="alert">{error}</div>}
+                </>
+            )}
+        </div>
+    );
+};
+
 const ContractsView: React.FC = () => {
     const { contratos } = useData();
+    const editor = useRecordEditor("contratos");
+    const [estadoFiltro, setEstadoFiltro] = useState<EstadoVigencia | "">("");
+    const contratosConEjercido = useMemo(
+        () => {
+            const today = new Date();
+            return contratos.map(c => {
+                const budget = computeContractBudget(c);
+                return {
+                    ...c,
+                    ejercido: budget.ejercido,
+                    saldo: budget.saldo,
+                    porcentaje_ejercido: budget.porcentaje,
+                    alerta: budget.alerta,
+                    estado_vigencia: getContractValidity(c, today),
+                    impuestos_maximos: computeContractTaxes(c, "cantidad_maxima"),
+                    impuestos_ejercidos: computeContractTaxes(c, "cantidad_consumida"),
+                };
+            });
+        },
+        [contratos]
+    );
+    type ContratoConEjercido = typeof contratosConEjercido[number];
+    const filteredContratos = estadoFiltro ? contratosConEjercido.filter(c => c.estado_vigencia === estadoFiltro) : contratosConEjercido;
+    const taxSummary = [
+        { concepto: "Adjudicado (cantidades máximas)", ...sumTaxes(filteredContratos.map(c => c.impuestos_maximos)) },
+        { concepto: "Ejercido (cantidades consumidas)", ...sumTaxes(filteredContratos.map(c => c.impuestos_ejercidos)) },
+    ];
     const columns = [
         { key: 'contrato' as keyof Contrato, label: 'Contrato ID' },
-        { key: 'proveedor_fk' as keyof Contrato, label: 'Proveedor' },
-        { key: 'monto_maximo' as keyof Contrato, label: 'Monto Máximo', render: (item: Contrato) => formatCurrency(item.monto_maximo) },
+        { key: 'proveedor_nombre' as keyof ContratoConEjercido, label: 'Proveedor' },
+        { key: 'monto_maximo' as keyof Contrato, label: 'Monto Máximo', render: (item: ContratoConEjercido) =>
+            <AmendedValue actual={formatCurrency(item.monto_maximo)} original={item.original && formatCurrency(item.original.monto_maximo)} />,
+            exportValue: (item: ContratoConEjercido) => amendedText(formatCurrency(item.monto_maximo), item.original && formatCurrency(item.original.monto_maximo)) },
+        { key: 'subtotal_adjudicado', label: 'Adjudicado sin Impuestos', render: (item: ContratoConEjercido) => formatCurrency(item.impuestos_maximos.subtotal) },
+        { key: 'ieps_adjudicado', label: 'IEPS', render: (item: ContratoConEjercido) => formatCurrency(item.impuestos_maximos.ieps) },
+        { key: 'iva_adjudicado', label: 'IVA', render: (item: ContratoConEjercido) => formatCurrency(item.impuestos_maximos.iva) },
+        { key: 'total_adjudicado', label: 'Adjudicado con Impuestos', render: (item: ContratoConEjercido) => formatCurrency(item.impuestos_maximos.total) },
+        { key: 'ejercido' as keyof ContratoConEjercido, label: 'Ejercido (con Impuestos)', render: (item: ContratoConEjercido) => formatCurrency(item.ejercido) },
+        { key: 'saldo' as keyof ContratoConEjercido, label: 'Saldo', render: (item: ContratoConEjercido) => formatCurrency(item.saldo) },
+        { key: 'porcentaje_ejercido' as keyof ContratoConEjercido, label: '% Ejercido', render: (item: ContratoConEjercido) => <span className="flex items-center gap-2">{item.porcentaje_ejercido.toFixed(1)}% <BudgetAlertBadge level={item.alerta} /></span> },
         { key: 'inicio_vigencia' as keyof Contrato, label: 'Inicio Vigencia' },
-        { key: 'fin_vigencia' as keyof Contrato, label: 'Fin Vigencia' },
+        { key: 'fin_vigencia' as keyof Contrato, label: 'Fin Vigencia', render: (item: ContratoConEjercido) =>
+            <AmendedValue actual={item.fin_vigencia} original={item.original?.fin_vigencia} />,
+            exportValue: (item: ContratoConEjercido) => amendedText(item.fin_vigencia, item.original?.fin_vigencia) },
+        { key: 'estado_vigencia' as keyof ContratoConEjercido, label: 'Estado', render: (item: ContratoConEjercido) => <ValidityBadge estado={item.estado_vigencia} /> },
     ];
-    return <DataTable columns={columns} data={contratos} searchKeys={['contrato', 'proveedor_fk']} />
+    return (
+        <div className="space-y-4">
+            {editor.toolbar}
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+                Estado de vigencia
+                <select value={estadoFiltro} onChange={e => setEstadoFiltro(e.target.value as EstadoVigencia | "")} className="p-2 border border-gray-300 rounded-lg">
+                    <option value="">Todos</option>
+                    {(Object.keys(ESTADO_VIGENCIA_LABELS) as EstadoVigencia[]).map(estado => (
+                        <option key={estado} value={estado}>{ESTADO_VIGENCIA_LABELS[estado]} ({contratosConEjercido.filter(c => c.estado_vigencia === estado).length})</option>
+                    ))}
+                </select>
+            </label>
+            <DataTable columns={[...columns, ...editor.columns]} data={filteredContratos} searchKeys={['contrato', 'proveedor_nombre']} title="Contratos" />
+            <div className="bg-white p-6 rounded-2xl shadow-md">
+                <h3 className="text-lg font-bold text-gray-800 mb-4">Impuestos de los Contratos Mostrados</h3>
+                <TaxBreakdownTable rows={taxSummary} />
+            </div>
+            <AmendmentsPanel />
+            {editor.modal}
+        </div>
+    );
 }
 const ProductsView: React.FC = () => {
     const { articulos } = useData();
+    const editor = useRecordEditor("articulos");
     const columns = [
         { key: 'codigo' as keyof Articulo, label: 'Código' },
         { key: 'descripcion_articulo' as keyof Articulo, label: 'Descripción' },
         { key: 'unidad_medida' as keyof Articulo, label: 'Unidad' },
+        { key: 'unidad_codigo' as keyof Articulo, label: 'Unidad Catálogo', render: (item: Articulo) => item.unidad_codigo ?? <span className="text-yellow-700">Sin mapear</span> },
+        { key: 'contenido_neto' as keyof Articulo, label: 'Contenido', render: (item: Articulo) => formatContent(item) || '—' },
         { key: 'precio_medio' as keyof Articulo, label: 'Precio Medio', render: (item: Articulo) => typeof item.precio_medio === 'number' ? formatCurrency(item.precio_medio) : item.precio_medio },
+        { key: 'precio_base', label: 'Precio por Unidad Base', render: (item: Articulo) => {
+            const precio = parseReferencePrice(item.precio_medio);
+            const porBase = precio !== null ? pricePerBaseUnit(precio, item) : null;
+            return porBase !== null ? `${formatCurrency(porBase)} / ${item.unidad_base}` : '—';
+        } },
         { key: 'ultima_fecha' as keyof Articulo, label: 'Última Fecha' },
     ];
-    return <DataTable columns={columns} data={articulos} searchKeys={['codigo', 'descripcion_articulo']} />
+    return (
+        <div className="space-y-4">
+            {editor.toolbar}
+            <DataTable columns={[...columns, ...editor.columns]} data={articulos} searchKeys={['codigo', 'descripcion_articulo']} title="Productos" />
+            {editor.modal}
+        </div>
+    );
+}
+const SupplierProfileView: React.FC<{ proveedor: Proveedor; onBack: () => void }> = ({ proveedor, onBack }) => {
+    const { contratos, articulos } = useData();
+    const profile = useMemo(() => buildSupplierProfile(proveedor, contratos, articulos), [proveedor, contratos, articulos]);
+    type ContratoProveedor = typeof profile.contratos[number];
+    type AdjudicadoProveedor = typeof profile.adjudicados[number];
+
+    const contratoColumns = [
+        { key: 'contrato' as keyof ContratoProveedor, label: 'Contrato' },
+        { key: 'licitacion_fk' as keyof ContratoProveedor, label: 'Licitación' },
+        { key: 'monto_maximo' as keyof ContratoProveedor, label: 'Monto Máximo', render: (item: ContratoProveedor) =>
+            <AmendedValue actual={formatCurrency(item.monto_maximo)} original={item.original && formatCurrency(item.original.monto_maximo)} />,
+            exportValue: (item: ContratoProveedor) => amendedText(formatCurrency(item.monto_maximo), item.original && formatCurrency(item.original.monto_maximo)) },
+        { key: 'ejercido', label: 'Ejercido', render: (item: ContratoProveedor) => formatCurrency(computeContractBudget(item).ejercido) },
+        { key: 'inicio_vigencia' as keyof ContratoProveedor, label: 'Inicio Vigencia' },
+        { key: 'fin_vigencia' as keyof ContratoProveedor, label: 'Fin Vigencia', render: (item: ContratoProveedor) =>
+            <AmendedValue actual={item.fin_vigencia} original={item.original?.fin_vigencia} />,
+            exportValue: (item: ContratoProveedor) => amendedText(item.fin_vigencia, item.original?.fin_vigencia) },
+    ];
+    const adjudicadoColumns = [
+        { key: 'contrato' as keyof AdjudicadoProveedor, label: 'Contrato' },
+        { key: 'codigo_fk' as keyof AdjudicadoProveedor, label: 'Código' },
+        { key: 'articulo', label: 'Artículo', render: (item: AdjudicadoProveedor) => item.articulo?.descripcion_articulo ?? '' },
+        { key: 'precio_unitario' as keyof AdjudicadoProveedor, label: 'Precio Unitario', render: (item: AdjudicadoProveedor) =>
+            <AmendedValue actual={formatCurrency(item.precio_unitario)} original={item.original && formatCurrency(item.original.precio_unitario)} />,
+            exportValue: (item: AdjudicadoProveedor) => amendedText(formatCurrency(item.precio_unitario), item.original && formatCurrency(item.original.precio_unitario)) },
+        { key: 'cantidad_maxima' as keyof AdjudicadoProveedor, label: 'Cant. Máxima', render: (item: AdjudicadoProveedor) =>
+            <AmendedValue actual={item.cantidad_maxima} original={item.original?.cantidad_maxima} />,
+            exportValue: (item: AdjudicadoProveedor) => amendedText(item.cantidad_maxima, item.original?.cantidad_maxima) },
+        { key: 'cantidad_consumida' as keyof AdjudicadoProveedor, label: 'Cant. Consumida' },
+        { key: 'cantidad_disponible' as keyof AdjudicadoProveedor, label: 'Cant. Disponible' },
+    ];
+    const exclusivoColumns = [
+        { key: 'codigo' as keyof Articulo, label: 'Código' },
+        { key: 'descripcion_articulo' as keyof Articulo, label: 'Descripción' },
+        { key: 'unidad_medida' as keyof Articulo, label: 'Unidad' },
+    ];
+
+    return (
+        <div className="space-y-6">
+            <button onClick={onBack} className="px-4 py-2 rounded-lg border border-gray-300 hover:bg-gray-100">← Proveedores</button>
+            <div className="bg-white p-6 rounded-2xl shadow-md flex flex-col md:flex-row gap-6 items-start">
+                {proveedor.logotipo_imagen
+                    ? <img src={proveedor.logotipo_imagen} alt={proveedor.proveedor} className="w-24 h-24 object-contain rounded-lg border border-gray-200" />
+                    : <div className="w-24 h-24 flex items-center justify-center rounded-lg bg-gray-100 text-gray-400"><FaBuilding size={36} /></div>}
+                <div className="text-sm text-gray-600 space-y-1">
+                    <h3 className="text-xl font-bold text-gray-800">{proveedor.proveedor}</h3>
+                    <p>{proveedor.giro_comercial}</p>
+                    <p>{proveedor.domicilio}, {proveedor.ciudad}</p>
+                    <p>Correo: {proveedor.correo_electronico || 'Sin registro'}</p>
+                    <p>Teléfono: {proveedor.telefono || 'Sin registro'}</p>
+                </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+                <Card title="Contratos" value={profile.contratos.length} icon={<FaFileContract size={24} />} color="#3B82F6" />
+                <Card title="Monto Contratado (con impuestos)" value={formatCurrency(profile.monto_contratado)} icon={<FaDatabase size={24} />} color="#8B5CF6" />
+                <Card title="Ejercido" value={`${formatCurrency(profile.ejercido)} (${profile.porcentaje.toFixed(1)}%)`} icon={<FaClipboardList size={24} />} color="#10B981" />
+                <Card title="Artículos Exclusivos" value={profile.articulos_exclusivos.length} icon={<FaBoxOpen size={24} />} color="#F59E0B" />
+            </div>
+            <div>
+                <h3 className="text-lg font-bold text-gray-800 mb-4">Contratos</h3>
+                <DataTable columns={contratoColumns} data={profile.contratos} searchKeys={['contrato', 'licitacion_fk']} title={`Contratos de ${proveedor.proveedor}`} />
+            </div>
+            <div>
+                <h3 className="text-lg font-bold text-gray-800 mb-4">Partidas Adjudicadas</h3>
+                <DataTable columns={adjudicadoColumns} data={profile.adjudicados} searchKeys={['contrato', 'codigo_fk']} title={`Partidas de ${proveedor.proveedor}`} />
+            </div>
+            <div>
+                <h3 className="text-lg font-bold text-gray-800 mb-1">Artículos que Solo Surte este Proveedor</h3>
+                <p className="text-sm text-gray-500 mb-4">Ningún otro proveedor tiene adjudicados estos artículos.</p>
+                <DataTable columns={exclusivoColumns} data={profile.articulos_exclusivos} searchKeys={['codigo', 'descripcion_articulo']} title={`Artículos exclusivos de ${proveedor.proveedor}`} />
+            </div>
+            <div className="bg-white p-6 rounded-2xl shadow-md">
+                <h3 className="text-lg font-bold text-gray-800 mb-4 flex items-center gap-2"><FaHistory/> Historial de Cambios</h3>
+                <RecordHistoryPanel entidad="proveedores" clave={proveedor.id_proveedor} />
+            </div>
+        </div>
+    );
 }
+
 const SuppliersView: React.FC = () => {
     const { proveedores } = useData();
+    const editor = useRecordEditor("proveedores");
+    const [selectedId, setSelectedId] = useState<number | null>(null);
+    const selected = proveedores.find(p => p.id_proveedor === selectedId);
+
+    if (selected) {
+        return <SupplierProfileView proveedor={selected} onBack={() => setSelectedId(null)} />;
+    }
+
     const columns = [
         { key: 'id_proveedor' as keyof Proveedor, label: 'ID' },
-        { key: 'proveedor' as keyof Proveedor, label: 'Nombre' },
+        { key: 'proveedor' as keyof Proveedor, label: 'Nombre', render: (item: Proveedor) => <button onClick={() => setSelectedId(item.id_proveedor)} className="text-blue-600 hover:underline text-left">{item.proveedor}</button> },
         { key: 'domicilio' as keyof Proveedor, label: 'Domicilio' },
         { key: 'ciudad' as keyof Proveedor, label: 'Ciudad' },
         { key: 'giro_comercial' as keyof Proveedor, label: 'Giro Comercial' },
     ];
-    return <DataTable columns={columns} data={proveedores} searchKeys={['proveedor', 'domicilio', 'giro_comercial']} />
+    return (
+        <div className="space-y-4">
+            {editor.toolbar}
+            <DataTable columns={[...columns, ...editor.columns]} data={proveedores} searchKeys={['proveedor', 'domicilio', 'giro_comercial']} title="Proveedores" />
+            {editor.modal}
+        </div>
+    );
 }
 const UsersView: React.FC = () => {
     const { usuarios } = useData();
+    const editor = useRecordEditor("usuarios");
     const columns = [
         { key: 'rud' as keyof Usuario, label: 'RUD' },
         { key: 'nombre' as keyof Usuario, label: 'Nombre' },
         { key: 'rol' as keyof Usuario, label: 'Rol' },
     ];
-    return <DataTable columns={columns} data={usuarios} searchKeys={['nombre', 'rol', 'rud']} />
+    return (
+        <div className="space-y-4">
+            {editor.toolbar}
+            <DataTable columns={[...columns, ...editor.columns]} data={usuarios} searchKeys={['nombre', 'rol', 'rud']} title="Usuarios" />
+            {editor.modal}
+        </div>
+    );
 }
 
-type Tab = "dashboard" | "explorer" | "contracts" | "products" | "suppliers" | "users";
+const ConsumptionView: React.FC = () => {
+    const { adjudicados, movimientos, usuarios, registrarConsumo } = useData();
+    const { usuario, can } = useAuth();
+    const editor = useRecordEditor("adjudicados");
+    const [adjudicadoId, setAdjudicadoId] = useState("");
+    const [cantidad, setCantidad] = useState("");
+    const [referencia, setReferencia] = useState("");
+    const [error, setError] = useState<string | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
 
-const TABS: { id: Tab; label: string; icon: React.FC<any> }[] = [
-  { id: "dashboard", label: "Dashboard", icon: FaDatabase },
-  { id: "explorer", label: "Explorador IA", icon: FaRobot },
-  { id: "contracts", label: "Contratos", icon: FaFileContract },
-  { id: "products", label: "Productos", icon: FaBoxOpen },
-  { id: "suppliers", label: "Proveedores", icon: FaBuilding },
-  { id: "users", label: "Usuarios", icon: FaUsers },
-];
+    const handleSubmit = async () => {
+        setError(null);
+        setMessage(null);
+        try {
+            await registrarConsumo({
+                adjudicado_fk: Number(adjudicadoId),
+                fecha: new Date().toISOString(),
+                cantidad: Number(cantidad),
+                usuario_fk: usuario.rud,
+                referencia,
+            });
+            setMessage(`Consumo de ${cantidad} registrado para el adjudicado ${adjudicadoId}.`);
+            setCantidad("");
+            setReferencia("");
+        } catch (e: any) {
+            setError(e.message || "No se pudo registrar el movimiento.");
+        }
+    };
 
-export default function App() {
-  const [activeTab, setActiveTab] = useState<Tab>("dashboard");
+    const historial = useMemo(() => {
+        const adjudicadosMap = new Map(adjudicados.map(adj => [adj.id_adjudicado, adj]));
+        const usuariosMap = new Map(usuarios.map(u => [u.rud, u]));
+        return [...movimientos].reverse().map(mov => ({
+            ...mov,
+            contrato: adjudicadosMap.get(mov.adjudicado_fk)?.contrato_fk ?? '',
+            articulo: adjudicadosMap.get(mov.adjudicado_fk)?.articulo?.descripcion_articulo ?? '',
+            usuario: mov.usuario_fk !== null ? usuariosMap.get(mov.usuario_fk)?.nombre ?? String(mov.usuario_fk) : 'Sistema',
+        }));
+    }, [movimientos, adjudicados, usuarios]);
 
-  const renderContent = () => {
-    switch (activeTab) {
-      case "dashboard":
-        return <DashboardView />;
-      case "explorer":
-        return <DataExplorerView />;
-      case "contracts":
-        return <ContractsView />;
-      case "products":
-        return <ProductsView />;
-      case "suppliers":
-        return <SuppliersView />;
-      case "users":
-        return <UsersView />;
-      default:
-        return <DashboardView />;
-    }
-  };
+    const adjudicadoColumns = [
+        { key: 'id_adjudicado' as keyof Adjudicado, label: 'ID' },
+        { key: 'contrato_fk' as keyof Adjudicado, label: 'Contrato' },
+        { key: 'codigo_fk' as keyof Adjudicado, label: 'Artículo', render: (item: typeof adjudicados[number]) => item.articulo?.descripcion_articulo ?? item.codigo_fk },
+        { key: 'cantidad_maxima' as keyof Adjudicado, label: 'Máxima', render: (item: typeof adjudicados[number]) =>
+            <AmendedValue actual={item.cantidad_maxima} original={item.original?.cantidad_maxima} />,
+            exportValue: (item: typeof adjudicados[number]) => amendedText(item.cantidad_maxima, item.original?.cantidad_maxima) },
+        { key: 'cantidad_consumida' as keyof Adjudicado, label: 'Consumida' },
+        { key: 'cantidad_disponible' as keyof Adjudicado, label: 'Disponible' },
+        { key: 'cantidad_reservada', label: 'Reservada' },
+        { key: 'estatus_cantidad' as keyof Adjudicado, label: 'Estatus' },
+    ];
+    const historialColumns = [
+        { key: 'id_movimiento', label: 'Folio' },
+        { key: 'fecha', label: 'Fecha', render: (item: typeof historial[number]) => new Date(item.fecha).toLocaleString('es-MX') },
+        { key: 'adjudicado_fk', label: 'Adjudicado' },
+        { key: 'contrato', label: 'Contrato' },
+        { key: 'articulo', label: 'Artículo' },
+        { key: 'cantidad', label: 'Cantidad' },
+        { key: 'usuario', label: 'Usuario' },
+        { key: 'referencia', label: 'Referencia' },
+    ];
 
-  return (
-    <div className="flex min-h-screen bg-gray-50 font-sans">
-      <nav className="w-64 bg-white shadow-lg flex-shrink-0">
-        <div className="p-6 text-center border-b">
-          <h1 className="text-2xl font-bold text-blue-600">SAV-Faa</h1>
-          <p className="text-xs text-gray-500 mt-1">Gestión Inteligente</p>
+    return (
+        <div className="space-y-6">
+            {can("registrar_movimientos") && (
+                <div className="bg-white p-6 rounded-2xl shadow-md">
+                    <h3 className="text-lg font-bold text-gray-800 mb-4 flex items-center gap-2"><FaClipboardList/> Registrar Consumo</h3>
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+                        <select value={adjudicadoId} onChange={e => setAdjudicadoId(e.target.value)} className="md:col-span-2 p-2 border border-gray-300 rounded-lg">
+                            <option value="">Selecciona un adjudicado...</option>
+                            {adjudicados.map(adj => (
+                                <option key={adj.id_adjudicado} value={adj.id_adjudicado}>
+                                    {adj.id_adjudicado} · {adj.contrato_fk} · {adj.articulo?.descripcion_articulo ?? adj.codigo_fk} (disp. {adj.cantidad_disponible - adj.cantidad_reservada})
+                                </option>
+                            ))}
+                        </select>
+                        <input type="number" min="0" placeholder="Cantidad" value={cantidad} onChange={e => setCantidad(e.target.value)} className="p-2 border border-gray-300 rounded-lg" />
+                        <input type="text" placeholder="Referencia (vale, remisión...)" value={referencia} onChange={e => setReferencia(e.target.value)} className="p-2 border border-gray-300 rounded-lg" />
+                    </div>
+                    <div className="mt-4 flex items-center gap-4">
+                        <button onClick={handleSubmit} disabled={!adjudicadoId || !cantidad} className="bg-blue-600 text-white px-6 py-2 rounded-lg font-semibold hover:bg-blue-700 transition disabled:bg-blue-300">
+                            Registrar
+                        </button>
+                        {message && <span className="text-sm text-green-700">{message}</span>}
+                    </div>
+                    {error && <div className="mt-4 bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg" role="alert">{error}</div>}
+                </div>
+            )}
+            {editor.toolbar}
+            <DataTable columns={[...adjudicadoColumns, ...editor.columns]} data={adjudicados} searchKeys={['contrato_fk', 'codigo_fk', 'estatus_cantidad']} title="Adjudicados" />
+            {editor.modal}
+            <div>
+                <h3 className="text-lg font-bold text-gray-800 mb-4">Historial de Movimientos</h3>
+                <DataTable columns={historialColumns} data={historial} searchKeys={['contrato', 'articulo', 'referencia', 'usuario']} title="Historial de Movimientos" />
+            </div>
         </div>
-        <ul className="py-4">
-          {TABS.map(({ id, label, icon: Icon }) => (
-            <li key={id} className="px-4">
-              <button
-                onClick={() => setActiveTab(id)}
-                className={`w-full flex items-center gap-4 px-4 py-3 my-1 rounded-lg text-left text-sm font-medium transition-all duration-200 ${
-                  activeTab === id
+    );
+}
+
+const MinimumComplianceView: React.FC = () => {
+    const { contratos } = useData();
+    const [contratoFiltro, setContratoFiltro] = useState("");
+    const [proveedorFiltro, setProveedorFiltro] = useState("");
+
+    const report = useMemo(() => buildMinimumComplianceReport(contratos, new Date()), [contratos]);
+    const contratoOptions = useMemo(() => Array.from(new Set(report.map(r => r.contrato))).sort(), [report]);
+    const proveedorOptions = useMemo(() => Array.from(new Set(report.map(r => r.proveedor))).sort(), [report]);
+
+    const filteredReport = useMemo(
+        () => report.filter(r =>
+            (!contratoFiltro || r.contrato === contratoFiltro) &&
+            (!proveedorFiltro || r.proveedor === proveedorFiltro)
+        ),
+        [report, contratoFiltro, proveedorFiltro]
+    );
+
+    const columns = [
+        { key: 'contrato' as keyof MinimumComplianceRow, label: 'Contrato' },
+        { key: 'proveedor' as keyof MinimumComplianceRow, label: 'Proveedor' },
+        { key: 'articulo' as keyof MinimumComplianceRow, label: 'Artículo' },
+        { key: 'cantidad_minima' as keyof MinimumComplianceRow, label: 'Mínima' },
+        { key: 'cantidad_consumida' as keyof MinimumComplianceRow, label: 'Consumida' },
+        { key: 'faltante' as keyof MinimumComplianceRow, label: 'Faltante' },
+        { key: 'fin_vigencia' as keyof MinimumComplianceRow, label: 'Fin Vigencia' },
+        { key: 'dias_restantes' as keyof MinimumComplianceRow, label: 'Días Restantes', render: (item: MinimumComplianceRow) =>
+            item.dias_restantes === null ? 'Fecha inválida'
+                : item.dias_restantes < 0 ? <span className="text-red-600 font-semibold">Vencido</span>
+                : item.dias_restantes },
+        { key: 'tasa_requerida' as keyof MinimumComplianceRow, label: 'Consumo Requerido', render: (item: MinimumComplianceRow) =>
+            item.tasa_requerida === null ? '—' : `${item.tasa_requerida.toFixed(2)} / día` },
+    ];
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-white p-6 rounded-2xl shadow-md">
+                <h3 className="text-lg font-bold text-gray-800 mb-2 flex items-center gap-2"><FaBalanceScale/> Cumplimiento de Cantidades Mínimas</h3>
+                <p className="text-sm text-gray-600 mb-4">Adjudicados cuyo consumo aún no alcanza la cantidad mínima del contrato abierto. {filteredReport.length} de {report.length} partidas mostradas.</p>
+                <div className="flex flex-col md:flex-row gap-2">
+                    <select value={contratoFiltro} onChange={e => setContratoFiltro(e.target.value)} className="p-2 border border-gray-300 rounded-lg">
+                        <option value="">Todos los contratos</option>
+                        {contratoOptions.map(c => <option key={c} value={c}>{c}</option>)}
+                    </select>
+                    <select value={proveedorFiltro} onChange={e => setProveedorFiltro(e.target.value)} className="p-2 border border-gray-300 rounded-lg">
+                        <option value="">Todos los proveedores</option>
+                        {proveedorOptions.map(p => <option key={p} value={p}>{p}</option>)}
+                    </select>
+                </div>
+            </div>
+            <DataTable columns={columns} data={filteredReport} searchKeys={['contrato', 'proveedor', 'articulo']} title="Cumplimiento de Mínimos" />
+        </div>
+    );
+}
+
+const formatQuantity = (value: number) => value.toLocaleString('es-MX', { maximumFractionDigits: 1 });
+
+const DepletionForecastView: React.FC = () => {
+    const { contratos } = useData();
+    const [riesgoFiltro, setRiesgoFiltro] = useState<RiesgoAgotamiento | "">("");
+    const forecast = useMemo(() => buildDepletionForecast(contratos, new Date()), [contratos]);
+    const contratoOptions = useMemo(() => Array.from(new Set(forecast.map(r => r.contrato))).sort(), [forecast]);
+    const [contratoGrafica, setContratoGrafica] = useState("");
+    const contratoSeleccionado = contratoOptions.includes(contratoGrafica) ? contratoGrafica : contratoOptions[0] ?? "";
+
+    const conteos = useMemo(
+        () => (Object.keys(RIESGO_LABELS) as RiesgoAgotamiento[]).map(riesgo => ({ riesgo, total: forecast.filter(r => r.riesgo === riesgo).length })),
+        [forecast]
+    );
+    const filteredForecast = riesgoFiltro ? forecast.filter(r => r.riesgo === riesgoFiltro) : forecast;
+
+    // Percentages of cantidad_maxima, so items bought in different units share one axis.
+    const chartData = useMemo(
+        () => forecast
+            .filter(r => r.contrato === contratoSeleccionado)
+            .sort((a, b) => a.articulo.localeCompare(b.articulo))
+            .map(r => ({
+                name: r.articulo.length > 30 ? `${r.articulo.slice(0, 30)}…` : r.articulo,
+                minimo: r.cantidad_maxima > 0 ? (r.cantidad_minima / r.cantidad_maxima) * 100 : 0,
+                consumido: r.cantidad_maxima > 0 ? (r.cantidad_consumida / r.cantidad_maxima) * 100 : 0,
+                proyectado: r.porcentaje_proyectado,
+            })),
+        [forecast, contratoSeleccionado]
+    );
+
+    const columns = [
+        { key: 'riesgo' as keyof DepletionForecastRow, label: 'Riesgo', render: (item: DepletionForecastRow) => <RiskBadge riesgo={item.riesgo} /> },
+        { key: 'contrato' as keyof DepletionForecastRow, label: 'Contrato' },
+        { key: 'proveedor' as keyof DepletionForecastRow, label: 'Proveedor' },
+        { key: 'articulo' as keyof DepletionForecastRow, label: 'Artículo' },
+        { key: 'cantidad_consumida' as keyof DepletionForecastRow, label: 'Consumida', render: (item: DepletionForecastRow) =>
+            `${formatQuantity(item.cantidad_consumida)} de ${formatQuantity(item.cantidad_maxima)} ${item.unidad}` },
+        { key: 'tasa_diaria' as keyof DepletionForecastRow, label: 'Consumo Diario', render: (item: DepletionForecastRow) => `${item.tasa_diaria.toFixed(2)} / día` },
+        { key: 'dias_para_agotar' as keyof DepletionForecastRow, label: 'Agotamiento Estimado', render: (item: DepletionForecastRow) =>
+            item.dias_para_agotar === null ? 'Sin consumo'
+                : <span className={item.riesgo === 'agotamiento_anticipado' ? "text-orange-700 font-semibold" : ""}>{item.fecha_agotamiento} ({Math.ceil(item.dias_para_agotar)} días)</span> },
+        { key: 'fin_vigencia' as keyof DepletionForecastRow, label: 'Fin Vigencia', render: (item: DepletionForecastRow) => `${item.fin_vigencia} (${item.dias_restantes} días)` },
+        { key: 'porcentaje_proyectado' as keyof DepletionForecastRow, label: 'Proyectado al Fin', render: (item: DepletionForecastRow) =>
+            `${formatQuantity(item.consumo_proyectado)} (${item.porcentaje_proyectado.toFixed(0)}%)` },
+    ];
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-white p-6 rounded-2xl shadow-md">
+                <h3 className="text-lg font-bold text-gray-800 mb-2 flex items-center gap-2"><FaHourglassHalf/> Pronóstico de Agotamiento</h3>
+                <p className="text-sm text-gray-600 mb-4">
+                    Proyección de las partidas de contratos vigentes con su consumo diario promedio desde el inicio de vigencia.
+                    Se marcan las que se agotarían antes del fin de vigencia (requieren nueva adquisición o convenio modificatorio) y las que terminarían por debajo del mínimo o del {PORCENTAJE_SUBCONSUMO}% de la cantidad máxima.
+                </p>
+                <div className="flex flex-wrap gap-2">
+                    <button onClick={() => setRiesgoFiltro("")} className={`px-3 py-2 rounded-lg text-sm border ${riesgoFiltro === "" ? 'bg-blue-600 text-white border-blue-600' : 'border-gray-300 hover:bg-gray-100'}`}>Todas ({forecast.length})</button>
+                    {conteos.map(({ riesgo, total }) => (
+                        <button key={riesgo} onClick={() => setRiesgoFiltro(riesgo)} className={`px-3 py-2 rounded-lg text-sm border ${riesgoFiltro === riesgo ? 'bg-blue-600 text-white border-blue-600' : 'border-gray-300 hover:bg-gray-100'}`}>{RIESGO_LABELS[riesgo]} ({total})</button>
+                    ))}
+                </div>
+            </div>
+
+            {contratoOptions.length > 0 && (
+                <div className="bg-white p-6 rounded-2xl shadow-md">
+                    <div className="flex flex-col md:flex-row justify-between md:items-center gap-2 mb-4">
+                        <h3 className="text-lg font-bold text-gray-800">Consumo Proyectado por Contrato</h3>
+                        <select value={contratoSeleccionado} onChange={e => setContratoGrafica(e.target.value)} className="p-2 border border-gray-300 rounded-lg">
+                            {contratoOptions.map(c => <option key={c} value={c}>{c}</option>)}
+                        </select>
+                    </div>
+                    <ResponsiveContainer width="100%" height={350}>
+                        <BarChart data={chartData} margin={{ top: 5, right: 20, left: -10, bottom: 90 }}>
+                            <CartesianGrid strokeDasharray="3 3" />
+                            <XAxis dataKey="name" angle={-45} textAnchor="end" interval={0} tick={{fontSize: 10}}/>
+                            <YAxis tickFormatter={(val) => `${val}%`}/>
+                            <Tooltip formatter={(value: number) => `${value.toFixed(1)}% de la cantidad máxima`} />
+                            <Legend verticalAlign="top" />
+                            <ReferenceLine y={100} stroke="#EF4444" strokeDasharray="4 4" label={{ value: "Máximo", position: "right", fontSize: 10 }} />
+                            <Bar dataKey="minimo" name="Mínimo" fill="#D1D5DB" />
+                            <Bar dataKey="consumido" name="Consumido" fill="#3B82F6" />
+                            <Bar dataKey="proyectado" name="Proyectado al fin de vigencia" fill="#F59E0B" />
+                        </BarChart>
+                    </ResponsiveContainer>
+                </div>
+            )}
+
+            <DataTable columns={columns} data={filteredForecast} searchKeys={['contrato', 'proveedor', 'articulo']} title="Pronóstico de Agotamiento" />
+        </div>
+    );
+}
+
+type RecipeDraft = { id_receta?: number; nombre: string; ingredientes: { codigo: string; cantidad: string }[] };
+const EMPTY_RECIPE: RecipeDraft = { nombre: "", ingredientes: [{ codigo: "", cantidad: "" }] };
+
+const RecipeEditor: React.FC<{ initial: RecipeDraft; onClose: () => void }> = ({ initial, onClose }) => {
+    const { articulos, guardarReceta } = useData();
+    const [draft, setDraft] = useState<RecipeDraft>(initial);
+    const [error, setError] = useState<string | null>(null);
+    const articulosMap = useMemo(() => new Map(articulos.map(a => [a.codigo, a])), [articulos]);
+
+    const updateIngrediente = (index: number, changes: Partial<RecipeDraft["ingredientes"][number]>) =>
+        setDraft(prev => ({ ...prev, ingredientes: prev.ingredientes.map((ing, i) => i === index ? { ...ing, ...changes } : ing) }));
+
+    const handleSave = async () => {
+        setError(null);
+        try {
+            await guardarReceta({
+                id_receta: draft.id_receta,
+                nombre: draft.nombre,
+                ingredientes: draft.ingredientes
+                    .filter(ing => ing.codigo)
+                    .map(ing => ({ codigo_fk: Number(ing.codigo), cantidad_por_racion: Number(ing.cantidad) })),
+            });
+            onClose();
+        } catch (e: any) {
+            setError(e.message || "No se pudo guardar la receta.");
+        }
+    };
+
+    return (
+        <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+            <input type="text" placeholder="Nombre de la receta" value={draft.nombre} onChange={e => setDraft({ ...draft, nombre: e.target.value })} className="w-full p-2 border border-gray-300 rounded-lg" />
+            {draft.ingredientes.map((ing, index) => (
+                <div key={index} className="flex gap-2 items-center">
+                    <select value={ing.codigo} onChange={e => updateIngrediente(index, { codigo: e.target.value })} className="flex-grow p-2 border border-gray-300 rounded-lg">
+                        <option value="">Selecciona un artículo...</option>
+                        {articulos.map(a => <option key={a.codigo} value={a.codigo}>{a.codigo} · {a.descripcion_articulo} ({a.unidad_medida})</option>)}
+                    </select>
+                    <input type="number" min="0" step="any" placeholder="Por ración" value={ing.cantidad} onChange={e => updateIngrediente(index, { cantidad: e.target.value })} className="w-32 p-2 border border-gray-300 rounded-lg" />
+                    <span className="w-16 text-sm text-gray-500">{ing.codigo ? portionUnit(articulosMap.get(Number(ing.codigo))) : ''}</span>
+                    <button onClick={() => setDraft(prev => ({ ...prev, ingredientes: prev.ingredientes.filter((_, i) => i !== index) }))} className="text-red-600 hover:text-red-800"><FaTrash /></button>
+                </div>
+            ))}
+            <button onClick={() => setDraft(prev => ({ ...prev, ingredientes: [...prev.ingredientes, { codigo: "", cantidad: "" }] }))} className="text-blue-600 hover:underline text-sm flex items-center gap-1"><FaPlus /> Agregar ingrediente</button>
+            {error && <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg" role="alert">{error}</div>}
+            <div className="flex justify-end gap-2">
+                <button onClick={onClose} className="px-4 py-2 rounded-lg border border-gray-300 hover:bg-gray-100">Cancelar</button>
+                <button onClick={handleSave} className="bg-blue-600 text-white px-4 py-2 rounded-lg font-semibold hover:bg-blue-700">Guardar Receta</button>
+            </div>
+        </div>
+    );
+};
+
+type MenuDraft = Omit<CicloMenu, "id_menu"> & { id_menu?: number };
+
+const MenuEditor: React.FC<{ initial: MenuDraft; onClose: () => void }> = ({ initial, onClose }) => {
+    const { recetas, guardarMenu } = useData();
+    const [draft, setDraft] = useState<MenuDraft>(initial);
+    const [comensalesTodos, setComensalesTodos] = useState("");
+    const [error, setError] = useState<string | null>(null);
+    const recetasMap = useMemo(() => new Map(recetas.map(r => [r.id_receta, r])), [recetas]);
+
+    // Changing the cycle keeps the days that still fit and adds empty ones at the end.
+    const changeTipo = (tipo: TipoCicloMenu) =>
+        setDraft(prev => ({ ...prev, tipo, dias: emptyMenuDays(tipo).map((dia, i) => prev.dias[i] ?? dia) }));
+    const updateDia = (index: number, changes: Partial<MenuDraft["dias"][number]>) =>
+        setDraft(prev => ({ ...prev, dias: prev.dias.map((dia, i) => i === index ? { ...dia, ...changes } : dia) }));
+
+    const handleSave = async () => {
+        setError(null);
+        try {
+            await guardarMenu(draft);
+            onClose();
+        } catch (e: any) {
+            setError(e.message || "No se pudo guardar el menú.");
+        }
+    };
+
+    return (
+        <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+            <div className="flex flex-col md:flex-row gap-2">
+                <input type="text" placeholder="Nombre del menú" value={draft.nombre} onChange={e => setDraft({ ...draft, nombre: e.target.value })} className="flex-grow p-2 border border-gray-300 rounded-lg" />
+                <select value={draft.tipo} onChange={e => changeTipo(e.target.value as TipoCicloMenu)} className="p-2 border border-gray-300 rounded-lg">
+                    {(Object.keys(TIPO_CICLO_LABELS) as TipoCicloMenu[]).map(tipo => <option key={tipo} value={tipo}>{TIPO_CICLO_LABELS[tipo]}</option>)}
+                </select>
+                <input type="number" min="0" placeholder="Comensales" value={comensalesTodos} onChange={e => setComensalesTodos(e.target.value)} className="w-32 p-2 border border-gray-300 rounded-lg" />
+                <button onClick={() => setDraft(prev => ({ ...prev, dias: prev.dias.map(dia => ({ ...dia, comensales: Number(comensalesTodos) || 0 })) }))} className="px-4 py-2 rounded-lg border border-gray-300 hover:bg-gray-100 text-sm">Aplicar a todos los días</button>
+            </div>
+            <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-50">
+                        <tr>
+                            {["Día", "Comensales", "Recetas"].map(label => <th key={label} className="px-4 py-2 text-left text-xs font-bold text-gray-500 uppercase tracking-wider">{label}</th>)}
+                        </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                        {draft.dias.map((dia, index) => (
+                            <tr key={dia.dia}>
+                                <td className="px-4 py-2 whitespace-nowrap text-gray-700">Día {dia.dia}</td>
+                                <td className="px-4 py-2">
+                                    <input type="number" min="0" value={dia.comensales} onChange={e => updateDia(index, { comensales: Number(e.target.value) })} className="w-24 p-1 border border-gray-300 rounded-lg" />
+                                </td>
+                                <td className="px-4 py-2">
+                                    <div className="flex flex-wrap gap-1 items-center">
+                                        {dia.recetas_fk.map(id => (
+                                            <span key={id} className="px-2 py-1 rounded-full bg-blue-100 text-blue-800 text-xs flex items-center gap-1">
+                                                {recetasMap.get(id)?.nombre ?? `Receta ${id}`}
+                                                <button onClick={() => updateDia(index, { recetas_fk: dia.recetas_fk.filter(r => r !== id) })} className="font-bold">×</button>
+                                            </span>
+                                        ))}
+                                        <select value="" onChange={e => e.target.value && updateDia(index, { recetas_fk: [...dia.recetas_fk, Number(e.target.value)] })} className="p-1 border border-gray-300 rounded-lg text-xs">
+                                            <option value="">Agregar receta...</option>
+                                            {recetas.filter(r => !dia.recetas_fk.includes(r.id_receta)).map(r => <option key={r.id_receta} value={r.id_receta}>{r.nombre}</option>)}
+                                        </select>
+                                    </div>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            {error && <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg" role="alert">{error}</div>}
+            <div className="flex justify-end gap-2">
+                <button onClick={onClose} className="px-4 py-2 rounded-lg border border-gray-300 hover:bg-gray-100">Cancelar</button>
+                <button onClick={handleSave} className="bg-blue-600 text-white px-4 py-2 rounded-lg font-semibold hover:bg-blue-700">Guardar Menú</button>
+            </div>
+        </div>
+    );
+};
+
+const ESTADO_REQUERIMIENTO_STYLES: Record<EstadoRequerimiento, string> = {
+    cubierto_almacen: "bg-green-100 text-green-800",
+    pedir_contrato: "bg-yellow-100 text-yellow-800",
+    sin_cobertura: "bg-red-100 text-red-800",
+};
+
+const MenuPlanningView: React.FC = () => {
+    const { recetas, menus, articulos, adjudicados, contratos, movimientosAlmacen, eliminarReceta, eliminarMenu } = useData();
+    const { can } = useAuth();
+    const puedeEditar = can("planear_menus");
+    const [recetaEditada, setRecetaEditada] = useState<RecipeDraft | null>(null);
+    const [menuEditado, setMenuEditado] = useState<MenuDraft | null>(null);
+    const [menuSeleccionado, setMenuSeleccionado] = useState<number | null>(null);
+    const [soloFaltantes, setSoloFaltantes] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const articulosMap = useMemo(() => new Map(articulos.map(a => [a.codigo, a])), [articulos]);
+    const menu = menus.find(m => m.id_menu === menuSeleccionado) ?? menus[0] ?? null;
+    const existencias = useMemo(() => computeStock(movimientosAlmacen), [movimientosAlmacen]);
+    const requerimientos = useMemo(
+        () => menu ? buildMenuRequirements(menu, { recetas, articulos, adjudicados, contratos, existencias }, new Date()) : [],
+        [menu, recetas, articulos, adjudicados, contratos, existencias]
+    );
+    const faltantes = requerimientos.filter(r => r.estado !== "cubierto_almacen");
+    const sinCobertura = requerimientos.filter(r => r.estado === "sin_cobertura").length;
+
+    const handleDeleteReceta = async (receta: Receta) => {
+        if (!window.confirm(`¿Eliminar la receta "${receta.nombre}"?`)) return;
+        setError(null);
+        try {
+            await eliminarReceta(receta);
+        } catch (e: any) {
+            setError(e.message || "No se pudo eliminar la receta.");
+        }
+    };
+
+    const handleDeleteMenu = async (item: CicloMenu) => {
+        if (!window.confirm(`¿Eliminar el menú "${item.nombre}"?`)) return;
+        setError(null);
+        try {
+            await eliminarMenu(item.id_menu);
+        } catch (e: any) {
+            setError(e.message || "No se pudo eliminar el menú.");
+        }
+    };
+
+    const requirementColumns = [
+        { key: 'estado' as keyof MenuRequirementRow, label: 'Estado', render: (item: MenuRequirementRow) =>
+            <span className={`px-2 py-1 rounded-full text-xs font-semibold ${ESTADO_REQUERIMIENTO_STYLES[item.estado]}`}>{ESTADO_REQUERIMIENTO_LABELS[item.estado]}</span> },
+        { key: 'codigo' as keyof MenuRequirementRow, label: 'Código' },
+        { key: 'articulo' as keyof MenuRequirementRow, label: 'Artículo' },
+        { key: 'unidad' as keyof MenuRequirementRow, label: 'Unidad' },
+        { key: 'requerido' as keyof MenuRequirementRow, label: 'Requerido', render: (item: MenuRequirementRow) => formatQuantity(item.requerido) },
+        { key: 'existencia' as keyof MenuRequirementRow, label: 'Existencia', render: (item: MenuRequirementRow) => formatQuantity(item.existencia) },
+        { key: 'faltante_almacen' as keyof MenuRequirementRow, label: 'Faltante', render: (item: MenuRequirementRow) =>
+            item.faltante_almacen > 0 ? <span className="font-semibold">{formatQuantity(item.faltante_almacen)}</span> : '—' },
+        { key: 'disponible_contratos' as keyof MenuRequirementRow, label: 'Disponible en Contratos', render: (item: MenuRequirementRow) => formatQuantity(item.disponible_contratos) },
+        { key: 'contrato' as keyof MenuRequirementRow, label: 'Pedir a', render: (item: MenuRequirementRow) =>
+            item.contrato ? `${item.contrato} · ${item.proveedor} (${formatCurrency(item.precio_unitario ?? 0)})` : item.faltante_almacen > 0 ? 'Sin contrato vigente' : '—' },
+        { key: 'faltante_contratos' as keyof MenuRequirementRow, label: 'Sin Cobertura', render: (item: MenuRequirementRow) =>
+            item.faltante_contratos > 0 ? <span className="text-red-600 font-semibold">{formatQuantity(item.faltante_contratos)}</span> : '—' },
+    ];
+
+    return (
+        <div className="space-y-6">
+            {error && <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg" role="alert">{error}</div>}
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div className="bg-white p-6 rounded-2xl shadow-md space-y-4">
+                    <div className="flex justify-between items-center">
+                        <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2"><FaUtensils/> Recetas</h3>
+                        {puedeEditar && !recetaEditada && <button onClick={() => setRecetaEditada(EMPTY_RECIPE)} className="text-blue-600 hover:underline text-sm flex items-center gap-1"><FaPlus /> Nueva receta</button>}
+                    </div>
+                    {recetaEditada && <RecipeEditor key={recetaEditada.id_receta ?? 'nueva'} initial={recetaEditada} onClose={() => setRecetaEditada(null)} />}
+                    {recetas.length === 0 ? <p className="text-sm text-gray-500">Aún no hay recetas.</p> : (
+                        <ul className="divide-y divide-gray-200">
+                            {recetas.map(receta => (
+                                <li key={receta.id_receta} className="py-3 flex justify-between items-start gap-2">
+                                    <div>
+                                        <p className="font-semibold text-gray-800">{receta.nombre}</p>
+                                        <p className="text-sm text-gray-500">
+                                            {receta.ingredientes.map(ing => {
+                                                const articulo = articulosMap.get(ing.codigo_fk);
+                                                return `${articulo?.descripcion_articulo ?? ing.codigo_fk} ${ing.cantidad_por_racion} ${portionUnit(articulo)}`;
+                                            }).join(' · ')} por ración
+                                        </p>
+                                    </div>
+                                    {puedeEditar && (
+                                        <div className="flex gap-3 text-sm">
+                                            <button onClick={() => setRecetaEditada({
+                                                id_receta: receta.id_receta,
+                                                nombre: receta.nombre,
+                                                ingredientes: receta.ingredientes.map(ing => ({ codigo: String(ing.codigo_fk), cantidad: String(ing.cantidad_por_racion) })),
+                                            })} className="text-blue-600 hover:underline flex items-center gap-1"><FaEdit /> Editar</button>
+                                            <button onClick={() => handleDeleteReceta(receta)} className="text-red-600 hover:underline flex items-center gap-1"><FaTrash /> Eliminar</button>
+                                        </div>
+                                    )}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+
+                <div className="bg-white p-6 rounded-2xl shadow-md space-y-4">
+                    <div className="flex justify-between items-center">
+                        <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2"><FaCalendarAlt/> Ciclos de Menú</h3>
+                        {puedeEditar && !menuEditado && <button onClick={() => setMenuEditado({ nombre: "", tipo: "SEMANAL", dias: emptyMenuDays("SEMANAL") })} className="text-blue-600 hover:underline text-sm flex items-center gap-1"><FaPlus /> Nuevo menú</button>}
+                    </div>
+                    {menus.length === 0 ? <p className="text-sm text-gray-500">Aún no hay menús.</p> : (
+                        <ul className="divide-y divide-gray-200">
+                            {menus.map(item => (
+                                <li key={item.id_menu} className={`py-3 px-2 flex justify-between items-start gap-2 rounded-lg ${menu?.id_menu === item.id_menu ? 'bg-blue-50' : ''}`}>
+                                    <button onClick={() => setMenuSeleccionado(item.id_menu)} className="text-left">
+                                        <p className="font-semibold text-gray-800">{item.nombre}</p>
+                                        <p className="text-sm text-gray-500">
+                                            {TIPO_CICLO_LABELS[item.tipo]} · {item.dias.reduce((sum, d) => sum + d.comensales, 0)} comensales en el ciclo
+                                        </p>
+                                    </button>
+                                    {puedeEditar && (
+                                        <div className="flex gap-3 text-sm">
+                                            <button onClick={() => setMenuEditado(item)} className="text-blue-600 hover:underline flex items-center gap-1"><FaEdit /> Editar</button>
+                                            <button onClick={() => handleDeleteMenu(item)} className="text-red-600 hover:underline flex items-center gap-1"><FaTrash /> Eliminar</button>
+                                        </div>
+                                    )}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            </div>
+
+            {menuEditado && (
+                <div className="bg-white p-6 rounded-2xl shadow-md">
+                    <h3 className="text-lg font-bold text-gray-800 mb-4">{menuEditado.id_menu ? `Editar menú "${menuEditado.nombre}"` : 'Nuevo menú'}</h3>
+                    <MenuEditor key={menuEditado.id_menu ?? 'nuevo'} initial={menuEditado} onClose={() => setMenuEditado(null)} />
+                </div>
+            )}
+
+            {menu && (
+                <div className="space-y-4">
+                    <div className="bg-white p-6 rounded-2xl shadow-md">
+                        <h3 className="text-lg font-bold text-gray-800 mb-2">Requerimiento de Víveres · {menu.nombre}</h3>
+                        <p className="text-sm text-gray-600 mb-4">
+                            Cantidades del ciclo completo ({DIAS_POR_CICLO[menu.tipo]} días) en la unidad de compra de cada artículo, comparadas con la existencia en almacén y con lo disponible en los adjudicados de contratos vigentes (descontando órdenes aprobadas).
+                        </p>
+                        <div className="flex flex-wrap items-center gap-4 text-sm">
+                            <span>{requerimientos.length} artículo(s) requerido(s)</span>
+                            <span className="text-yellow-700">{faltantes.length} con faltante en almacén</span>
+                            <span className="text-red-600">{sinCobertura} sin cobertura suficiente en contratos</span>
+                            <label className="flex items-center gap-2 text-gray-600">
+                                <input type="checkbox" checked={soloFaltantes} onChange={e => setSoloFaltantes(e.target.checked)} />
+                                Solo faltantes
+                            </label>
+                        </div>
+                    </div>
+                    <DataTable columns={requirementColumns} data={soloFaltantes ? faltantes : requerimientos} searchKeys={['articulo', 'contrato', 'proveedor']} title={`Requerimiento ${menu.nombre}`} />
+                </div>
+            )}
+        </div>
+    );
+}
+
+const PriceBenchmarkView: React.FC = () => {
+    const { contratos, articulos } = useData();
+    const [tolerancia, setTolerancia] = useState(String(DEFAULT_PRICE_TOLERANCE_PCT));
+    const [antiguedad, setAntiguedad] = useState(String(DEFAULT_REFERENCE_MAX_AGE_MONTHS));
+    const [soloExcedidos, setSoloExcedidos] = useState(false);
+    const [soloVencidas, setSoloVencidas] = useState(false);
+
+    const report = useMemo(
+        () => buildPriceBenchmark(contratos, articulos, {
+            toleranciaPct: Number(tolerancia) || 0,
+            maxAntiguedadMeses: Number(antiguedad) || 0,
+            today: new Date(),
+        }),
+        [contratos, articulos, tolerancia, antiguedad]
+    );
+    const filteredReport = report.filter(r => (!soloExcedidos || r.excede_tolerancia) && (!soloVencidas || r.referencia_vencida));
+    const excedidos = report.filter(r => r.excede_tolerancia).length;
+    const vencidas = new Set(report.filter(r => r.referencia_vencida).map(r => r.codigo)).size;
+
+    const columns = [
+        { key: 'codigo' as keyof PriceBenchmarkRow, label: 'Código' },
+        { key: 'articulo' as keyof PriceBenchmarkRow, label: 'Artículo' },
+        { key: 'unidad_medida' as keyof PriceBenchmarkRow, label: 'Unidad' },
+        { key: 'contrato' as keyof PriceBenchmarkRow, label: 'Contrato' },
+        { key: 'proveedor' as keyof PriceBenchmarkRow, label: 'Proveedor' },
+        { key: 'precio_unitario' as keyof PriceBenchmarkRow, label: 'Precio Adjudicado', render: (item: PriceBenchmarkRow) => formatCurrency(item.precio_unitario) },
+        { key: 'precio_base' as keyof PriceBenchmarkRow, label: 'Precio por Unidad Base', render: (item: PriceBenchmarkRow) => item.precio_base === null ? '—' : `${formatCurrency(item.precio_base)} / ${item.unidad_base}` },
+        { key: 'precio_medio' as keyof PriceBenchmarkRow, label: 'Precio Medio', render: (item: PriceBenchmarkRow) => item.precio_medio === null ? 'Sin referencia' : formatCurrency(item.precio_medio) },
+        { key: 'desviacion' as keyof PriceBenchmarkRow, label: 'Desviación', render: (item: PriceBenchmarkRow) =>
+            item.desviacion === null ? '—'
+                : <span className={item.excede_tolerancia ? "text-red-600 font-semibold" : item.desviacion < 0 ? "text-green-700" : ""}>{item.desviacion > 0 ? '+' : ''}{item.desviacion.toFixed(1)}%</span> },
+        { key: 'ultima_fecha' as keyof PriceBenchmarkRow, label: 'Fecha Referencia', render: (item: PriceBenchmarkRow) =>
+            item.referencia_vencida
+                ? <span className="text-yellow-700 font-semibold">{item.ultima_fecha ?? 'Sin fecha'} (desactualizada)</span>
+                : item.ultima_fecha },
+    ];
+
+    return (
+        <div className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <Card title="Partidas Comparadas" value={report.length} icon={<FaChartLine size={24} />} color="#3B82F6" />
+                <Card title="Fuera de Tolerancia" value={excedidos} icon={<FaExclamationTriangle size={24} />} color="#EF4444" />
+                <Card title="Referencias Desactualizadas" value={vencidas} icon={<FaCalendarAlt size={24} />} color="#F59E0B" />
+            </div>
+            <div className="bg-white p-6 rounded-2xl shadow-md">
+                <h3 className="text-lg font-bold text-gray-800 mb-2 flex items-center gap-2"><FaChartLine/> Precio Adjudicado vs. Precio Medio</h3>
+                <p className="text-sm text-gray-600 mb-4">Compara cada precio unitario adjudicado contra el precio medio de la investigación de mercado del artículo. {filteredReport.length} de {report.length} partidas mostradas.</p>
+                <div className="flex flex-col md:flex-row md:items-center gap-4 text-sm text-gray-600">
+                    <label className="flex items-center gap-2">
+                        Tolerancia (%)
+                        <input type="number" min="0" value={tolerancia} onChange={e => setTolerancia(e.target.value)} className="w-20 p-2 border border-gray-300 rounded-lg" />
+                    </label>
+                    <label className="flex items-center gap-2">
+                        Antigüedad máxima de la referencia (meses)
+                        <input type="number" min="0" value={antiguedad} onChange={e => setAntiguedad(e.target.value)} className="w-20 p-2 border border-gray-300 rounded-lg" />
+                    </label>
+                    <label className="flex items-center gap-2">
+                        <input type="checkbox" checked={soloExcedidos} onChange={e => setSoloExcedidos(e.target.checked)} />
+                        Solo fuera de tolerancia
+                    </label>
+                    <label className="flex items-center gap-2">
+                        <input type="checkbox" checked={soloVencidas} onChange={e => setSoloVencidas(e.target.checked)} />
+                        Solo referencias desactualizadas
+                    </label>
+                </div>
+            </div>
+            <DataTable columns={columns} data={filteredReport} searchKeys={['codigo', 'articulo', 'contrato', 'proveedor']} title="Comparativo de Precios" />
+        </div>
+    );
+}
+
+const ORDER_STATUS_STYLES: Record<OrdenSuministro["estatus"], string> = {
+    BORRADOR: "bg-gray-100 text-gray-800",
+    APROBADA: "bg-blue-100 text-blue-800",
+    CANCELADA: "bg-red-100 text-red-800",
+    CERRADA: "bg-green-100 text-green-800",
+};
+
+const OrderDocument: React.FC<{ orden: OrdenSuministro }> = ({ orden }) => {
+    const { contratos, adjudicados } = useData();
+    const contrato = contratos.find(c => c.contrato === orden.contrato_fk);
+    const totals = computeOrderTaxes(orden.partidas, adjudicados);
+    const proveedor = contrato?.proveedor;
+
+    return (
+        <div className="bg-white p-8 rounded-2xl shadow-md print:shadow-none text-sm text-gray-800">
+            <div className="flex justify-between items-start border-b pb-4 mb-4">
+                <div>
+                    <h2 className="text-xl font-bold">Orden de Suministro</h2>
+                    <p className="text-gray-500">Almacén de Víveres</p>
+                </div>
+                <div className="text-right">
+                    <p className="text-lg font-bold">{orden.folio}</p>
+                    <p>Fecha: {new Date(orden.fecha).toLocaleDateString('es-MX')}</p>
+                    <p>Estatus: {orden.estatus}</p>
+                </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4 mb-6">
+                <div>
+                    <p className="font-bold">Proveedor</p>
+                    <p>{contrato?.proveedor_nombre}</p>
+                    {proveedor && <p>{proveedor.domicilio}, {proveedor.ciudad}</p>}
+                    {proveedor?.correo_electronico && <p>{proveedor.correo_electronico}</p>}
+                    {proveedor?.telefono && <p>Tel. {proveedor.telefono}</p>}
+                </div>
+                <div>
+                    <p className="font-bold">Contrato</p>
+                    <p>{orden.contrato_fk}</p>
+                    {contrato && <p>Vigencia: {contrato.inicio_vigencia} al {contrato.fin_vigencia}</p>}
+                </div>
+            </div>
+            <table className="min-w-full divide-y divide-gray-200 mb-6">
+                <thead className="bg-gray-50">
+                    <tr>
+                        {["Código", "Descripción", "Unidad", "Cantidad", "Precio Unitario", "IVA", "IEPS", "Importe"].map(label => (
+                            <th key={label} className="px-3 py-2 text-left text-xs font-bold text-gray-500 uppercase">{label}</th>
+                        ))}
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                    {orden.partidas.map(partida => {
+                        // The terms the order was issued with; older orders fall back to the line as it is now.
+                        const adj = adjudicados.find(a => a.id_adjudicado === partida.adjudicado_fk);
+                        const condiciones = partida.condiciones ?? (adj && {
+                            codigo_fk: adj.codigo_fk,
+                            descripcion: adj.articulo?.descripcion_articulo ?? '',
+                            unidad_medida: adj.articulo?.unidad_medida ?? '',
+                            precio_unitario: adj.precio_unitario,
+                            iva: adj.iva,
+                            ieps: adj.ieps,
+                        });
+                        return (
+                            <tr key={partida.adjudicado_fk}>
+                                <td className="px-3 py-2">{condiciones?.codigo_fk}</td>
+                                <td className="px-3 py-2">{condiciones?.descripcion}</td>
+                                <td className="px-3 py-2">{condiciones?.unidad_medida}</td>
+                                <td className="px-3 py-2">{partida.cantidad}</td>
+                                <td className="px-3 py-2">{formatCurrency(condiciones?.precio_unitario)}</td>
+                                <td className="px-3 py-2">{condiciones?.iva}%</td>
+                                <td className="px-3 py-2">{condiciones?.ieps}%</td>
+                                <td className="px-3 py-2">{formatCurrency(condiciones ? computeLineTaxes(partida.cantidad, condiciones).subtotal : 0)}</td>
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+            <div className="flex justify-end">
+                <dl className="grid grid-cols-2 gap-x-6 gap-y-1">
+                    <dt className="font-medium">Subtotal</dt><dd className="text-right">{formatCurrency(totals.subtotal)}</dd>
+                    <dt className="font-medium">IEPS</dt><dd className="text-right">{formatCurrency(totals.ieps)}</dd>
+                    <dt className="font-medium">IVA</dt><dd className="text-right">{formatCurrency(totals.iva)}</dd>
+                    <dt className="font-bold">Total</dt><dd className="text-right font-bold">{formatCurrency(totals.total)}</dd>
+                </dl>
+            </div>
+        </div>
+    );
+};
+
+const OrdersView: React.FC = () => {
+    const { contratos, ordenes, crearOrden, aprobarOrden, cancelarOrden, recibirOrden } = useData();
+    const { usuario, can } = useAuth();
+    const [contratoSel, setContratoSel] = useState("");
+    const [cantidades, setCantidades] = useState<Record<number, string>>({});
+    const [ordenDocumento, setOrdenDocumento] = useState<number | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+
+    const contrato = contratos.find(c => c.contrato === contratoSel);
+    const usuario_fk = usuario.rud;
+
+    const run = async (action: () => Promise<string>) => {
+        setError(null);
+        setMessage(null);
+        try {
+            setMessage(await action());
+        } catch (e: any) {
+            setError(e.message || "No se pudo completar la operación.");
+        }
+    };
+
+    const handleCreate = () => run(async () => {
+        const partidas = Object.entries(cantidades)
+            .filter(([, value]) => value.trim() !== "")
+            .map(([id, value]) => ({ adjudicado_fk: Number(id), cantidad: Number(value) }));
+        const orden = await crearOrden({ contrato_fk: contratoSel, fecha: new Date().toISOString(), partidas, usuario_fk });
+        setCantidades({});
+        return `Orden ${orden.folio} creada.`;
+    });
+
+    const ordenesConTotales = useMemo(() => [...ordenes].reverse().map(o => {
+        const c = contratos.find(con => con.contrato === o.contrato_fk);
+        return {
+            ...o,
+            proveedor: c?.proveedor_nombre ?? '',
+            total: computeOrderTaxes(o.partidas, c?.adjudicados ?? []).total,
+        };
+    }), [ordenes, contratos]);
+    type OrdenConTotales = typeof ordenesConTotales[number];
+
+    const columns = [
+        { key: 'folio', label: 'Folio' },
+        { key: 'contrato_fk', label: 'Contrato' },
+        { key: 'proveedor', label: 'Proveedor' },
+        { key: 'fecha', label: 'Fecha', render: (item: OrdenConTotales) => new Date(item.fecha).toLocaleDateString('es-MX') },
+        { key: 'total', label: 'Total', render: (item: OrdenConTotales) => formatCurrency(item.total) },
+        { key: 'estatus', label: 'Estatus', render: (item: OrdenConTotales) => <span className={`px-2 py-1 rounded-full text-xs font-semibold ${ORDER_STATUS_STYLES[item.estatus]}`}>{item.estatus}</span> },
+        { key: 'id_orden', label: 'Acciones', exportable: false, render: (item: OrdenConTotales) => (
+            <div className="flex gap-2">
+                {item.estatus === "BORRADOR" && can("gestionar_ordenes") && <button onClick={() => run(async () => { await aprobarOrden(item.id_orden); return `Orden ${item.folio} aprobada.`; })} className="text-blue-600 hover:underline">Aprobar</button>}
+                {item.estatus === "APROBADA" && can("registrar_movimientos") && <button onClick={() => run(async () => { await recibirOrden(item.id_orden, usuario_fk); return `Orden ${item.folio} recibida y cerrada.`; })} className="text-green-600 hover:underline">Recibir</button>}
+                {(item.estatus === "BORRADOR" || item.estatus === "APROBADA") && can("gestionar_ordenes") && <button onClick={() => run(async () => { await cancelarOrden(item.id_orden); return `Orden ${item.folio} cancelada.`; })} className="text-red-600 hover:underline">Cancelar</button>}
+                <button onClick={() => setOrdenDocumento(item.id_orden)} className="text-gray-600 hover:underline">Documento</button>
+            </div>
+        ) },
+    ];
+
+    const documento = ordenes.find(o => o.id_orden === ordenDocumento);
+
+    return (
+        <div className="space-y-6">
+            {error && <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg print:hidden" role="alert">{error}</div>}
+            {message && <div className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded-lg print:hidden">{message}</div>}
+            {can("gestionar_ordenes") && (
+                <div className="bg-white p-6 rounded-2xl shadow-md print:hidden">
+                    <h3 className="text-lg font-bold text-gray-800 mb-4 flex items-center gap-2"><FaShoppingCart/> Nueva Orden de Suministro</h3>
+                    <div className="flex flex-col md:flex-row gap-2 mb-4">
+                        <select value={contratoSel} onChange={e => { setContratoSel(e.target.value); setCantidades({}); }} className="p-2 border border-gray-300 rounded-lg">
+                            <option value="">Selecciona un contrato...</option>
+                            {contratos.filter(c => c.adjudicados.length > 0).map(c => (
+                                <option key={c.contrato} value={c.contrato}>{c.contrato} · {c.proveedor_nombre}</option>
+                            ))}
+                        </select>
+                    </div>
+                    {contrato && (
+                        <div className="overflow-x-auto max-h-96 mb-4">
+                            <table className="min-w-full divide-y divide-gray-200">
+                                <thead className="bg-gray-50">
+                                    <tr>
+                                        {["Artículo", "Unidad", "Precio Unitario", "Disponible", "Reservada", "Cantidad"].map(label => (
+                                            <th key={label} className="px-6 py-3 text-left text-xs font-bold text-gray-500 uppercase tracking-wider">{label}</th>
+                                        ))}
+                                    </tr>
+                                </thead>
+                                <tbody className="bg-white divide-y divide-gray-200">
+                                    {contrato.adjudicados.map(adj => (
+                                        <tr key={adj.id_adjudicado}>
+                                            <td className="px-6 py-2 text-sm text-gray-700">{adj.articulo?.descripcion_articulo ?? adj.codigo_fk}</td>
+                                            <td className="px-6 py-2 text-sm text-gray-700">{adj.articulo?.unidad_medida}</td>
+                                            <td className="px-6 py-2 text-sm text-gray-700">{formatCurrency(adj.precio_unitario)}</td>
+                                            <td className="px-6 py-2 text-sm text-gray-700">{adj.cantidad_disponible}</td>
+                                            <td className="px-6 py-2 text-sm text-gray-700">{adj.cantidad_reservada}</td>
+                                            <td className="px-6 py-2 text-sm text-gray-700">
+                                                <input type="number" min="0" value={cantidades[adj.id_adjudicado] ?? ""} onChange={e => setCantidades(prev => ({ ...prev, [adj.id_adjudicado]: e.target.value }))} className="w-24 p-1 border border-gray-300 rounded" />
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                    <button onClick={handleCreate} disabled={!contrato} className="bg-blue-600 text-white px-6 py-2 rounded-lg font-semibold hover:bg-blue-700 transition disabled:bg-blue-300">
+                        Crear Orden
+                    </button>
+                </div>
+            )}
+            <div className="print:hidden">
+                <DataTable columns={columns} data={ordenesConTotales} searchKeys={['folio', 'contrato_fk', 'proveedor', 'estatus']} title="Órdenes de Suministro" />
+            </div>
+            {documento && (
+                <div className="space-y-4">
+                    <div className="flex justify-end gap-2 print:hidden">
+                        <button onClick={() => window.print()} className="bg-gray-700 text-white px-4 py-2 rounded-lg font-semibold hover:bg-gray-800 transition flex items-center gap-2"><FaPrint/> Imprimir</button>
+                        <button onClick={() => setOrdenDocumento(null)} className="px-4 py-2 rounded-lg border border-gray-300 hover:bg-gray-100">Cerrar</button>
+                    </div>
+                    <OrderDocument orden={documento} />
+                </div>
+            )}
+        </div>
+    );
+}
+
+const WarehouseView: React.FC = () => {
+    const { articulos, movimientosAlmacen, registrarMovimientoAlmacen } = useData();
+    const { usuario, can } = useAuth();
+    const [codigo, setCodigo] = useState("");
+    const [tipo, setTipo] = useState<MovimientoAlmacen["tipo"]>("SALIDA");
+    const [cantidad, setCantidad] = useState("");
+    const [costo, setCosto] = useState("");
+    const [area, setArea] = useState("");
+    const [referencia, setReferencia] = useState("");
+    const [kardexCodigo, setKardexCodigo] = useState<number | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+
+    const articulosMap = useMemo(() => new Map(articulos.map(a => [a.codigo, a])), [articulos]);
+
+    const existencias = useMemo(
+        () => Array.from(computeStock(movimientosAlmacen).values()).map(stock => ({
+            ...stock,
+            descripcion_articulo: articulosMap.get(stock.codigo)?.descripcion_articulo ?? '',
+            unidad_medida: articulosMap.get(stock.codigo)?.unidad_medida ?? '',
+        })),
+        [movimientosAlmacen, articulosMap]
+    );
+    type Existencia = typeof existencias[number];
+    const valorTotal = existencias.reduce((sum, e) => sum + e.valor, 0);
+
+    const kardex = useMemo(
+        () => kardexCodigo === null ? [] : [...buildKardex(movimientosAlmacen, kardexCodigo)].reverse(),
+        [movimientosAlmacen, kardexCodigo]
+    );
+
+    const handleSubmit = async () => {
+        setError(null);
+        setMessage(null);
+        try {
+            await registrarMovimientoAlmacen({
+                codigo_fk: Number(codigo),
+                tipo,
+                fecha: new Date().toISOString(),
+                cantidad: Number(cantidad),
+                costo_unitario: tipo === "ENTRADA" ? Number(costo) : 0,
+                referencia,
+                area: tipo === "SALIDA" ? area : null,
+                usuario_fk: usuario.rud,
+            });
+            setMessage(`${tipo === "ENTRADA" ? "Entrada" : "Salida"} de ${cantidad} registrada.`);
+            setCantidad("");
+            setCosto("");
+            setReferencia("");
+        } catch (e: any) {
+            setError(e.message || "No se pudo registrar el movimiento.");
+        }
+    };
+
+    const stockColumns = [
+        { key: 'codigo' as keyof Existencia, label: 'Código' },
+        { key: 'descripcion_articulo' as keyof Existencia, label: 'Descripción' },
+        { key: 'unidad_medida' as keyof Existencia, label: 'Unidad' },
+        { key: 'existencia' as keyof Existencia, label: 'Existencia' },
+        { key: 'costo_promedio' as keyof Existencia, label: 'Costo Promedio', render: (item: Existencia) => formatCurrency(item.costo_promedio) },
+        { key: 'valor' as keyof Existencia, label: 'Valor', render: (item: Existencia) => formatCurrency(item.valor) },
+        { key: 'kardex', label: '', exportable: false, render: (item: Existencia) => <button onClick={() => setKardexCodigo(item.codigo)} className="text-blue-600 hover:underline">Kardex</button> },
+    ];
+    const kardexColumns = [
+        { key: 'fecha' as keyof KardexRow, label: 'Fecha', render: (item: KardexRow) => new Date(item.fecha).toLocaleString('es-MX') },
+        { key: 'referencia' as keyof KardexRow, label: 'Referencia' },
+        { key: 'area' as keyof KardexRow, label: 'Área' },
+        { key: 'entrada' as keyof KardexRow, label: 'Entrada' },
+        { key: 'salida' as keyof KardexRow, label: 'Salida' },
+        { key: 'existencia' as keyof KardexRow, label: 'Existencia' },
+        { key: 'costo_unitario' as keyof KardexRow, label: 'Costo Unitario', render: (item: KardexRow) => formatCurrency(item.costo_unitario) },
+        { key: 'costo_promedio' as keyof KardexRow, label: 'Costo Promedio', render: (item: KardexRow) => formatCurrency(item.costo_promedio) },
+        { key: 'valor' as keyof KardexRow, label: 'Valor', render: (item: KardexRow) => formatCurrency(item.valor) },
+    ];
+
+    return (
+        <div className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <Card title="Artículos en Existencia" value={existencias.filter(e => e.existencia > 0).length} icon={<FaWarehouse size={24} />} color="#10B981" />
+                <Card title="Valor del Inventario" value={formatCurrency(valorTotal)} icon={<FaDatabase size={24} />} color="#8B5CF6" />
+            </div>
+            {can("registrar_movimientos") && (
+                <div className="bg-white p-6 rounded-2xl shadow-md">
+                    <h3 className="text-lg font-bold text-gray-800 mb-4 flex items-center gap-2"><FaWarehouse/> Registrar Movimiento de Almacén</h3>
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+                        <select value={codigo} onChange={e => setCodigo(e.target.value)} className="md:col-span-2 p-2 border border-gray-300 rounded-lg">
+                            <option value="">Selecciona un artículo...</option>
+                            {articulos.map(a => <option key={a.codigo} value={a.codigo}>{a.codigo} · {a.descripcion_articulo} ({a.unidad_medida})</option>)}
+                        </select>
+                        <select value={tipo} onChange={e => setTipo(e.target.value as MovimientoAlmacen["tipo"])} className="p-2 border border-gray-300 rounded-lg">
+                            <option value="ENTRADA">Entrada</option>
+                            <option value="SALIDA">Salida</option>
+                        </select>
+                        <input type="number" min="0" placeholder="Cantidad" value={cantidad} onChange={e => setCantidad(e.target.value)} className="p-2 border border-gray-300 rounded-lg" />
+                        {tipo === "ENTRADA"
+                            ? <input type="number" min="0" step="0.01" placeholder="Costo unitario" value={costo} onChange={e => setCosto(e.target.value)} className="p-2 border border-gray-300 rounded-lg" />
+                            : <input type="text" placeholder="Área que consume" value={area} onChange={e => setArea(e.target.value)} className="p-2 border border-gray-300 rounded-lg" />}
+                        <input type="text" placeholder="Referencia (remisión, vale...)" value={referencia} onChange={e => setReferencia(e.target.value)} className="p-2 border border-gray-300 rounded-lg" />
+                        <button onClick={handleSubmit} disabled={!codigo || !cantidad} className="bg-blue-600 text-white px-6 py-2 rounded-lg font-semibold hover:bg-blue-700 transition disabled:bg-blue-300">
+                            Registrar
+                        </button>
+                    </div>
+                    {message && <p className="mt-4 text-sm text-green-700">{message}</p>}
+                    {error && <div className="mt-4 bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg" role="alert">{error}</div>}
+                </div>
+            )}
+            <DataTable columns={stockColumns} data={existencias} searchKeys={['codigo', 'descripcion_articulo']} title="Existencias de Almacén" />
+            {kardexCodigo !== null && (
+                <div>
+                    <div className="flex justify-between items-center mb-4">
+                        <h3 className="text-lg font-bold text-gray-800">Kardex · {kardexCodigo} {articulosMap.get(kardexCodigo)?.descripcion_articulo}</h3>
+                        <button onClick={() => setKardexCodigo(null)} className="px-4 py-2 rounded-lg border border-gray-300 hover:bg-gray-100">Cerrar</button>
+                    </div>
+                    <DataTable columns={kardexColumns} data={kardex} searchKeys={['referencia', 'area']} title={`Kardex ${kardexCodigo}`} />
+                </div>
+            )}
+        </div>
+    );
+}
+
+const LicitacionesView: React.FC = () => {
+    const { licitaciones, contratos, documentos, adjuntarDocumento } = useData();
+    const { usuario, can } = useAuth();
+    const editor = useRecordEditor("licitaciones");
+    const [selectedId, setSelectedId] = useState<number | null>(licitaciones[0]?.id_licitacion ?? null);
+    const [soloIncompletas, setSoloIncompletas] = useState(false);
+    const [searchTerm, setSearchTerm] = useState("");
+    const [error, setError] = useState<string | null>(null);
+
+    const faltantesPorLicitacion = useMemo(
+        () => new Map(licitaciones.map(l => [l.id_licitacion, countMissingItems(l)])),
+        [licitaciones]
+    );
+    const incompletas = licitaciones.filter(l => (faltantesPorLicitacion.get(l.id_licitacion) ?? 0) > 0).length;
+
+    const listado = licitaciones.filter(l =>
+        (!soloIncompletas || (faltantesPorLicitacion.get(l.id_licitacion) ?? 0) > 0) &&
+        `${l.licitacion} ${l.denominacion}`.toLowerCase().includes(searchTerm.toLowerCase())
+    );
+    const licitacion = licitaciones.find(l => l.id_licitacion === selectedId) ?? null;
+    const timeline = licitacion ? buildTimeline(licitacion) : [];
+    const contratosLicitacion = licitacion ? contractsFromLicitacion(contratos, licitacion) : [];
+
+    const abrirDocumento = (valor: string) => {
+        const id = parseDocumentRef(valor);
+        if (id === null) {
+            window.open(valor, "_blank", "noopener");
+            return;
+        }
+        const documento = documentos.find(d => d.id_documento === id);
+        if (!documento) {
+            setError("El documento ya no está disponible en este navegador.");
+            return;
+        }
+        const url = URL.createObjectURL(documento.contenido);
+        window.open(url, "_blank", "noopener");
+        setTimeout(() => URL.revokeObjectURL(url), 60000);
+    };
+
+    const nombreDocumento = (valor: string) => {
+        const id = parseDocumentRef(valor);
+        return id === null ? valor : documentos.find(d => d.id_documento === id)?.nombre ?? "Documento";
+    };
+
+    const handleUpload = async (etapa: EtapaLicitacion, file: File | undefined) => {
+        if (!file || !licitacion) return;
+        setError(null);
+        try {
+            await adjuntarDocumento(licitacion.id_licitacion, etapa, file, usuario.rud);
+        } catch (e: any) {
+            setError(e.message || "No se pudo adjuntar el documento.");
+        }
+    };
+
+    const contratoColumns = [
+        { key: 'contrato' as keyof Contrato, label: 'Contrato' },
+        { key: 'proveedor_nombre', label: 'Proveedor' },
+        { key: 'monto_maximo' as keyof Contrato, label: 'Monto Máximo', render: (item: typeof contratos[number]) =>
+            <AmendedValue actual={formatCurrency(item.monto_maximo)} original={item.original && formatCurrency(item.original.monto_maximo)} />,
+            exportValue: (item: typeof contratos[number]) => amendedText(formatCurrency(item.monto_maximo), item.original && formatCurrency(item.original.monto_maximo)) },
+        { key: 'inicio_vigencia' as keyof Contrato, label: 'Inicio Vigencia' },
+        { key: 'fin_vigencia' as keyof Contrato, label: 'Fin Vigencia', render: (item: typeof contratos[number]) =>
+            <AmendedValue actual={item.fin_vigencia} original={item.original?.fin_vigencia} />,
+            exportValue: (item: typeof contratos[number]) => amendedText(item.fin_vigencia, item.original?.fin_vigencia) },
+    ];
+
+    return (
+        <div className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <Card title="Licitaciones" value={licitaciones.length} icon={<FaGavel size={24} />} color="#3B82F6" />
+                <Card title="Con Etapas Incompletas" value={incompletas} icon={<FaExclamationTriangle size={24} />} color="#EF4444" />
+            </div>
+            {editor.toolbar}
+            {error && <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg" role="alert">{error}</div>}
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                <div className="bg-white p-6 rounded-2xl shadow-md">
+                    <input type="text" placeholder="Buscar..." value={searchTerm} onChange={e => setSearchTerm(e.target.value)} className="w-full p-2 border border-gray-300 rounded-lg mb-2" />
+                    <label className="flex items-center gap-2 text-sm text-gray-600 mb-4">
+                        <input type="checkbox" checked={soloIncompletas} onChange={e => setSoloIncompletas(e.target.checked)} />
+                        Solo con etapas incompletas
+                    </label>
+                    <ul className="space-y-2 max-h-[32rem] overflow-y-auto">
+                        {listado.map(l => {
+                            const faltantes = faltantesPorLicitacion.get(l.id_licitacion) ?? 0;
+                            return (
+                                <li key={l.id_licitacion}>
+                                    <button
+                                        onClick={() => setSelectedId(l.id_licitacion)}
+                                        className={`w-full text-left p-3 rounded-lg border transition ${selectedId === l.id_licitacion ? "border-blue-600 bg-blue-50" : "border-gray-200 hover:bg-gray-50"}`}
+                                    >
+                                        <p className="text-sm font-semibold text-gray-800">{l.licitacion}</p>
+                                        <p className="text-xs text-gray-500 truncate">{l.denominacion}</p>
+                                        {faltantes > 0
+                                            ? <span className="mt-1 inline-block px-2 py-0.5 rounded-full text-xs font-semibold bg-red-100 text-red-800">{faltantes} pendiente{faltantes === 1 ? "" : "s"}</span>
+                                            : <span className="mt-1 inline-block px-2 py-0.5 rounded-full text-xs font-semibold bg-green-100 text-green-800">Completa</span>}
+                                    </button>
+                                </li>
+                            );
+                        })}
+                        {listado.length === 0 && <li className="text-sm text-gray-500">Sin licitaciones.</li>}
+                    </ul>
+                </div>
+
+                <div className="lg:col-span-2 bg-white p-6 rounded-2xl shadow-md">
+                    {!licitacion ? (
+                        <p className="text-sm text-gray-500">Selecciona una licitación.</p>
+                    ) : (
+                        <>
+                            <div className="flex justify-between items-start mb-6">
+                                <div>
+                                    <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2"><FaGavel/> {licitacion.licitacion}</h3>
+                                    <p className="text-sm text-gray-600">{licitacion.denominacion}</p>
+                                </div>
+                                {editor.columns[0]?.render(licitacion)}
+                            </div>
+                            <ol className="relative border-l-2 border-gray-200 ml-3 space-y-6">
+                                {timeline.map(etapa => (
+                                    <li key={etapa.etapa} className="ml-6">
+                                        <span className={`absolute -left-3 flex items-center justify-center w-6 h-6 rounded-full ${etapa.faltantes.length ? "bg-red-100 text-red-600" : "bg-green-100 text-green-600"}`}>
+                                            {etapa.faltantes.length ? <FaExclamationTriangle size={12} /> : <FaCheckCircle size={12} />}
+                                        </span>
+                                        <h4 className="font-semibold text-gray-800">{etapa.label}</h4>
+                                        <p className={`text-sm ${etapa.fechaValor ? "text-gray-600" : "text-red-600"}`}>{etapa.fechaValor || "Fecha pendiente"}</p>
+                                        <div className="mt-2 flex flex-wrap items-center gap-3 text-sm">
+                                            {etapa.documentoValor
+                                                ? <button onClick={() => abrirDocumento(etapa.documentoValor!)} className="text-blue-600 hover:underline flex items-center gap-1"><FaFilePdf /> {nombreDocumento(etapa.documentoValor)}</button>
+                                                : <span className="text-red-600 flex items-center gap-1"><FaFilePdf /> Documento pendiente</span>}
+                                            {can("editar_catalogos") && (
+                                                <label className="px-3 py-1 rounded-lg border border-gray-300 text-gray-600 hover:bg-gray-100 cursor-pointer">
+                                                    {etapa.documentoValor ? "Reemplazar PDF" : "Adjuntar PDF"}
+                                                    <input type="file" accept="application/pdf,.pdf" className="hidden" onChange={e => { handleUpload(etapa.etapa, e.target.files?.[0]); e.target.value = ""; }} />
+                                                </label>
+                                            )}
+                                        </div>
+                                    </li>
+                                ))}
+                            </ol>
+                        </>
+                    )}
+                </div>
+            </div>
+            {licitacion && (
+                <div>
+                    <h3 className="text-lg font-bold text-gray-800 mb-4">Contratos Derivados</h3>
+                    <DataTable columns={contratoColumns} data={contratosLicitacion} searchKeys={['contrato', 'proveedor_nombre']} title={`Contratos de ${licitacion.licitacion}`} />
+                </div>
+            )}
+            {licitacion && (
+                <div className="bg-white p-6 rounded-2xl shadow-md">
+                    <h3 className="text-lg font-bold text-gray-800 mb-4 flex items-center gap-2"><FaHistory/> Historial de Cambios</h3>
+                    <RecordHistoryPanel entidad="licitaciones" clave={licitacion.id_licitacion} />
+                </div>
+            )}
+            {editor.modal}
+        </div>
+    );
+}
+
+const SEVERIDAD_STYLES: Record<Severidad, string> = {
+    error: "bg-red-100 text-red-800",
+    advertencia: "bg-yellow-100 text-yellow-800",
+    info: "bg-blue-100 text-blue-800",
+};
+
+const SEVERIDAD_LABELS: Record<Severidad, string> = {
+    error: "Error",
+    advertencia: "Advertencia",
+    info: "Info",
+};
+
+const DataQualityView: React.FC = () => {
+    const data = useData();
+    const { calidadDatos } = data;
+    const editors = {
+        adjudicados: useRecordEditor("adjudicados"),
+        articulos: useRecordEditor("articulos"),
+        contratos: useRecordEditor("contratos"),
+        licitaciones: useRecordEditor("licitaciones"),
+        proveedores: useRecordEditor("proveedores"),
+        usuarios: useRecordEditor("usuarios"),
+    };
+    const [severidadFiltro, setSeveridadFiltro] = useState<Severidad | "">("");
+    const [reglaFiltro, setReglaFiltro] = useState("");
+
+    const conteo = (severidad: Severidad) => calidadDatos.filter(i => i.severidad === severidad).length;
+    const filtered = calidadDatos.filter(i => (!severidadFiltro || i.severidad === severidadFiltro) && (!reglaFiltro || i.regla === reglaFiltro));
+
+    // Opens the offending record in its edit form so it can be fixed in place.
+    const openRecord = (issue: DataIssue) => {
+        const records = data[issue.entidad] as object[];
+        const record = records.find(r => (r as Record<string, unknown>)[STORE_KEYS[issue.entidad]] === issue.clave);
+        const edit = editors[issue.entidad].edit as ((record: object) => void) | null;
+        if (record && edit) edit(record);
+    };
+
+    const columns = [
+        { key: 'severidad' as keyof DataIssue, label: 'Severidad', render: (item: DataIssue) => <span className={`px-2 py-1 rounded-full text-xs font-semibold ${SEVERIDAD_STYLES[item.severidad]}`}>{SEVERIDAD_LABELS[item.severidad]}</span> },
+        { key: 'regla' as keyof DataIssue, label: 'Regla' },
+        { key: 'entidad' as keyof DataIssue, label: 'Entidad', render: (item: DataIssue) => ENTITY_LABELS[item.entidad] },
+        { key: 'registro' as keyof DataIssue, label: 'Registro', render: (item: DataIssue) =>
+            editors[item.entidad].edit
+                ? <button onClick={() => openRecord(item)} className="text-blue-600 hover:underline text-left">{item.registro}</button>
+                : item.registro },
+        { key: 'mensaje' as keyof DataIssue, label: 'Detalle' },
+    ];
+
+    return (
+        <div className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <Card title="Errores" value={conteo("error")} icon={<FaExclamationTriangle size={24} />} color="#EF4444" />
+                <Card title="Advertencias" value={conteo("advertencia")} icon={<FaExclamationTriangle size={24} />} color="#F59E0B" />
+                <Card title="Observaciones" value={conteo("info")} icon={<FaClipboardCheck size={24} />} color="#3B82F6" />
+            </div>
+            <div className="bg-white p-6 rounded-2xl shadow-md">
+                <h3 className="text-lg font-bold text-gray-800 mb-2 flex items-center gap-2"><FaClipboardCheck/> Calidad de Datos</h3>
+                <p className="text-sm text-gray-600 mb-4">Resultado de {VALIDATION_RULES.length} reglas sobre los registros guardados: integridad referencial, importes, cantidades y vigencias. Haz clic en un registro para corregirlo.</p>
+                <div className="flex flex-col md:flex-row gap-2">
+                    <select value={severidadFiltro} onChange={e => setSeveridadFiltro(e.target.value as Severidad | "")} className="p-2 border border-gray-300 rounded-lg">
+                        <option value="">Todas las severidades</option>
+                        {(Object.keys(SEVERIDAD_ORDEN) as Severidad[]).map(s => <option key={s} value={s}>{SEVERIDAD_LABELS[s]}</option>)}
+                    </select>
+                    <select value={reglaFiltro} onChange={e => setReglaFiltro(e.target.value)} className="p-2 border border-gray-300 rounded-lg">
+                        <option value="">Todas las reglas</option>
+                        {VALIDATION_RULES.map(r => <option key={r} value={r}>{r}</option>)}
+                    </select>
+                </div>
+            </div>
+            {calidadDatos.length === 0
+                ? <div className="bg-green-50 border border-green-300 text-green-800 px-4 py-3 rounded-lg flex items-center gap-2"><FaCheckCircle /> No se encontraron inconsistencias.</div>
+                : <DataTable columns={columns} data={filtered} searchKeys={['regla', 'registro', 'mensaje']} title="Calidad de Datos" />}
+            {Object.entries(editors).map(([name, editor]) => <React.Fragment key={name}>{editor.modal}</React.Fragment>)}
+        </div>
+    );
+}
+
+const SettingsView: React.FC = () => {
+    const [settings, setSettings] = useState<LlmSettings>(loadLlmSettings);
+    const [message, setMessage] = useState<string | null>(null);
+    const definicion = settings.proveedor === "ninguno" ? null : LLM_PROVIDERS[settings.proveedor];
+    const issue = getLlmConfigurationIssue(settings);
+
+    const update = (changes: Partial<LlmSettings>) => {
+        setSettings(prev => ({ ...prev, ...changes }));
+        setMessage(null);
+    };
+
+    const handleProviderChange = (proveedor: LlmSettings["proveedor"]) =>
+        update({ proveedor, modelo: proveedor === "ninguno" ? "" : LLM_PROVIDERS[proveedor].modeloPorOmision });
+
+    const handleSave = () => {
+        saveLlmSettings(settings);
+        setMessage("Configuración guardada.");
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-white p-6 rounded-2xl shadow-md space-y-4">
+                <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2"><FaRobot/> Inteligencia Artificial</h3>
+                <p className="text-sm text-gray-600">Proveedor que usa el Explorador IA para traducir preguntas a consultas. La configuración se guarda en este navegador.</p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                    <label className="block">
+                        <span className="text-gray-700">Proveedor</span>
+                        <select value={settings.proveedor} onChange={e => handleProviderChange(e.target.value as LlmSettings["proveedor"])} className="mt-1 w-full p-2 border border-gray-300 rounded-lg">
+                            <option value="ninguno">Ninguno</option>
+                            {(Object.keys(LLM_PROVIDERS) as LlmProviderId[]).map(id => <option key={id} value={id}>{LLM_PROVIDERS[id].nombre}</option>)}
+                        </select>
+                    </label>
+                    {definicion && (
+                        <label className="block">
+                            <span className="text-gray-700">Modelo</span>
+                            <input type="text" value={settings.modelo} placeholder={definicion.modeloPorOmision} onChange={e => update({ modelo: e.target.value })} className="mt-1 w-full p-2 border border-gray-300 rounded-lg" />
+                        </label>
+                    )}
+                    {definicion?.requiereUrl && (
+                        <label className="block">
+                            <span className="text-gray-700">URL del servidor</span>
+                            <input type="url" value={settings.baseUrl} placeholder="http://localhost:11434/v1" onChange={e => update({ baseUrl: e.target.value })} className="mt-1 w-full p-2 border border-gray-300 rounded-lg" />
+                        </label>
+                    )}
+                    {settings.proveedor !== "ninguno" && settings.proveedor !== "fake" && (
+                        <label className="block">
+                            <span className="text-gray-700">Clave de API{definicion?.requiereClave ? "" : " (opcional)"}</span>
+                            <input type="password" value={settings.apiKey} onChange={e => update({ apiKey: e.target.value })} className="mt-1 w-full p-2 border border-gray-300 rounded-lg" />
+                        </label>
+                    )}
+                </div>
+                {issue
+                    ? <div className="bg-yellow-50 border border-yellow-300 text-yellow-800 px-4 py-3 rounded-lg text-sm">IA no configurada: {issue}</div>
+                    : <div className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded-lg text-sm">Listo para usar {definicion?.nombre}.</div>}
+                {message && <div className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded-lg text-sm">{message}</div>}
+                <button onClick={handleSave} className="bg-blue-600 text-white px-6 py-2 rounded-lg font-semibold hover:bg-blue-700 transition">Guardar</button>
+            </div>
+        </div>
+    );
+};
+
+const AuditLogView: React.FC = () => {
+    const { auditoria, usuarios } = useData();
+    const [filtros, setFiltros] = useState<AuditFilters>({ entidad: "", clave: "", usuario_fk: null, desde: "", hasta: "" });
+
+    const resultado = useMemo(() => {
+        try {
+            const registros = filterAuditLog(auditoria, filtros).map(r => ({
+                ...r,
+                entidad_label: ENTITY_LABELS[r.entidad],
+                usuario: auditUserName(usuarios, r.usuario_fk),
+            }));
+            return { registros, error: null };
+        } catch (e: any) {
+            return { registros: [], error: e.message as string };
+        }
+    }, [auditoria, usuarios, filtros]);
+    type FilaAuditoria = typeof resultado.registros[number];
+
+    const setFiltro = <F extends keyof AuditFilters>(campo: F, valor: AuditFilters[F]) =>
+        setFiltros(prev => ({ ...prev, [campo]: valor }));
+
+    const columns = [
+        { key: 'fecha', label: 'Fecha', render: (item: FilaAuditoria) => new Date(item.fecha).toLocaleString('es-MX') },
+        { key: 'entidad_label', label: 'Entidad' },
+        { key: 'clave', label: 'Registro' },
+        { key: 'accion', label: 'Acción', render: (item: FilaAuditoria) => <AuditActionBadge accion={item.accion} /> },
+        { key: 'usuario', label: 'Usuario' },
+        { key: 'cambios', label: 'Cambios', render: (item: FilaAuditoria) => <AuditChanges cambios={item.cambios} /> },
+    ];
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-white p-6 rounded-2xl shadow-md">
+                <h3 className="text-lg font-bold text-gray-800 mb-4 flex items-center gap-2"><FaHistory/> Bitácora de Cambios</h3>
+                <p className="text-sm text-gray-600 mb-4">
+                    Cada alta, edición y baja de contratos, adjudicados, artículos, proveedores, licitaciones y usuarios, con quién la hizo y los valores antes y después. Las entradas no se pueden editar ni eliminar.
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-5 gap-2">
+                    <select value={filtros.entidad} onChange={e => setFiltro("entidad", e.target.value as EntityName | "")} className="p-2 border border-gray-300 rounded-lg">
+                        <option value="">Todas las entidades</option>
+                        {EDITABLE_ENTITIES.map(entity => <option key={entity} value={entity}>{ENTITY_LABELS[entity]}</option>)}
+                    </select>
+                    <input type="text" placeholder="Registro (ID o clave)" value={filtros.clave} onChange={e => setFiltro("clave", e.target.value)} className="p-2 border border-gray-300 rounded-lg" />
+                    <select value={filtros.usuario_fk ?? ""} onChange={e => setFiltro("usuario_fk", e.target.value ? Number(e.target.value) : null)} className="p-2 border border-gray-300 rounded-lg">
+                        <option value="">Todos los usuarios</option>
+                        {usuarios.map(u => <option key={u.rud} value={u.rud}>{u.nombre}</option>)}
+                    </select>
+                    <input type="text" placeholder="Desde (dd/mm/aaaa)" value={filtros.desde} onChange={e => setFiltro("desde", e.target.value)} className="p-2 border border-gray-300 rounded-lg" />
+                    <input type="text" placeholder="Hasta (dd/mm/aaaa)" value={filtros.hasta} onChange={e => setFiltro("hasta", e.target.value)} className="p-2 border border-gray-300 rounded-lg" />
+                </div>
+                {resultado.error && <div className="mt-4 bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg" role="alert">{resultado.error}</div>}
+            </div>
+            <DataTable columns={columns} data={resultado.registros} searchKeys={['clave', 'usuario', 'entidad_label']} title="Bitácora de Cambios" />
+        </div>
+    );
+};
+
+const ImportView: React.FC = () => {
+    const data = useData();
+    const { importarRegistros } = data;
+    const { usuario } = useAuth();
+    const [entity, setEntity] = useState<ImportEntity>("articulos");
+    const [fileName, setFileName] = useState<string | null>(null);
+    const [sheet, setSheet] = useState<Sheet | null>(null);
+    const [mapping, setMapping] = useState<ColumnMapping>({});
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+
+    const headers = sheet?.[0] ?? [];
+    const preview = useMemo(
+        () => sheet ? buildImportPreview(data, entity, sheet, mapping) : [],
+        [data, entity, sheet, mapping]
+    );
+    const validRows = preview.filter(row => row.errors.length === 0);
+
+    const reset = (nextEntity: ImportEntity) => {
+        setEntity(nextEntity);
+        setMapping(sheet ? autoMapColumns(nextEntity, sheet[0] ?? []) : {});
+        setMessage(null);
+    };
+
+    const handleFile = async (file: File | undefined) => {
+        if (!file) return;
+        setError(null);
+        setMessage(null);
+        setIsLoading(true);
+        try {
+            const parsed = await readSpreadsheetFile(file);
+            if (parsed.length < 2) throw new Error("El archivo no contiene filas de datos.");
+            setSheet(parsed);
+            setFileName(file.name);
+            setMapping(autoMapColumns(entity, parsed[0]));
+        } catch (e: any) {
+            setSheet(null);
+            setFileName(null);
+            setError(e.message || "No se pudo leer el archivo.");
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleImport = async () => {
+        setError(null);
+        try {
+            const count = await importarRegistros(entity, validRows, usuario.rud);
+            setMessage(`Se importaron ${count} registros de ${fileName}.`);
+            setSheet(null);
+            setFileName(null);
+        } catch (e: any) {
+            setError(e.message || "No se pudo completar la importación.");
+        }
+    };
+
+    const fields = IMPORT_FIELDS[entity];
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-white p-6 rounded-2xl shadow-md">
+                <h3 className="text-lg font-bold text-gray-800 mb-4 flex items-center gap-2"><FaFileImport/> Importación Masiva</h3>
+                <div className="flex flex-col md:flex-row gap-2">
+                    <select value={entity} onChange={e => reset(e.target.value as ImportEntity)} className="p-2 border border-gray-300 rounded-lg">
+                        <option value="articulos">Artículos</option>
+                        <option value="contratos">Contratos</option>
+                        <option value="adjudicados">Adjudicados</option>
+                    </select>
+                    <input type="file" accept=".csv,.txt,.xlsx" onChange={e => { handleFile(e.target.files?.[0]); e.target.value = ""; }} className="p-2 border border-gray-300 rounded-lg flex-1" />
+                    {isLoading && <FaSpinner className="animate-spin text-blue-600 self-center" />}
+                </div>
+                <p className="mt-2 text-xs text-gray-500">Las filas cuyo {entity === "adjudicados" ? "contrato y código" : entity === "contratos" ? "número de contrato" : "código"} ya existan se actualizan; el resto se crean.</p>
+                {message && <p className="mt-4 text-sm text-green-700">{message}</p>}
+                {error && <div className="mt-4 bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg" role="alert">{error}</div>}
+            </div>
+
+            {sheet && (
+                <div className="bg-white p-6 rounded-2xl shadow-md">
+                    <h3 className="text-lg font-bold text-gray-800 mb-4">Columnas · {fileName}</h3>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        {fields.map(field => (
+                            <label key={field.key} className="text-sm text-gray-600">
+                                {field.label}{field.required && " *"}
+                                <select
+                                    value={mapping[field.key] ?? ""}
+                                    onChange={e => setMapping(prev => ({ ...prev, [field.key]: e.target.value === "" ? null : Number(e.target.value) }))}
+                                    className="mt-1 w-full p-2 border border-gray-300 rounded-lg"
+                                >
+                                    <option value="">Sin asignar</option>
+                                    {headers.map((header, index) => <option key={index} value={index}>{header || `Columna ${index + 1}`}</option>)}
+                                </select>
+                            </label>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {sheet && (
+                <div className="bg-white p-6 rounded-2xl shadow-md">
+                    <div className="flex justify-between items-center mb-4">
+                        <h3 className="text-lg font-bold text-gray-800">
+                            Vista Previa · {validRows.length} válidas, {preview.length - validRows.length} con errores
+                        </h3>
+                        <button onClick={handleImport} disabled={validRows.length === 0} className="bg-blue-600 text-white px-6 py-2 rounded-lg font-semibold hover:bg-blue-700 transition disabled:bg-blue-300">
+                            Importar {validRows.length} filas válidas
+                        </button>
+                    </div>
+                    <div className="overflow-x-auto max-h-[32rem]">
+                        <table className="min-w-full bg-white text-sm">
+                            <thead className="bg-gray-100 sticky top-0">
+                                <tr>
+                                    <th className="py-2 px-3 text-left font-semibold text-gray-600">Fila</th>
+                                    <th className="py-2 px-3 text-left font-semibold text-gray-600">Acción</th>
+                                    {fields.map(field => <th key={field.key} className="py-2 px-3 text-left font-semibold text-gray-600">{field.label}</th>)}
+                                    <th className="py-2 px-3 text-left font-semibold text-gray-600">Errores</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-200">
+                                {preview.map(row => (
+                                    <tr key={row.rowNumber} className={row.errors.length ? "bg-red-50" : ""}>
+                                        <td className="py-2 px-3">{row.rowNumber}</td>
+                                        <td className="py-2 px-3">{row.errors.length ? "—" : row.action === "crear" ? "Crear" : "Actualizar"}</td>
+                                        {fields.map(field => <td key={field.key} className="py-2 px-3">{String((row.values as Record<string, unknown>)[field.key] ?? "")}</td>)}
+                                        <td className="py-2 px-3 text-red-700">{row.errors.join("; ")}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
+
+const LoginView: React.FC<{
+  notice: string | null;
+  onLogin: (rud: number, password: string) => Promise<void>;
+}> = ({ notice, onLogin }) => {
+  const [rud, setRud] = useState("");
+  const [password, setPassword] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsLoading(true);
+    try {
+      await onLogin(Number(rud), password);
+    } catch (err: any) {
+      setError(err.message || "No se pudo iniciar sesión.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-50 font-sans">
+      <form onSubmit={handleSubmit} className="bg-white p-8 rounded-2xl shadow-md w-full max-w-sm space-y-4">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-blue-600">SAV-Faa</h1>
+          <p className="text-sm text-gray-500 mt-1 flex items-center justify-center gap-2"><FaLock /> Inicio de sesión</p>
+        </div>
+        {notice && <div className="bg-yellow-50 border border-yellow-300 text-yellow-800 px-4 py-3 rounded-lg text-sm">{notice}</div>}
+        <input type="number" placeholder="RUD" value={rud} onChange={e => setRud(e.target.value)} className="w-full p-3 border border-gray-300 rounded-lg" required />
+        <input type="password" placeholder="Contraseña" value={password} onChange={e => setPassword(e.target.value)} className="w-full p-3 border border-gray-300 rounded-lg" required />
+        {error && <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg text-sm" role="alert">{error}</div>}
+        <button type="submit" disabled={isLoading} className="w-full bg-blue-600 text-white px-6 py-3 rounded-lg font-semibold hover:bg-blue-700 transition disabled:bg-blue-300 flex items-center justify-center gap-2">
+          {isLoading && <FaSpinner className="animate-spin" />}
+          Entrar
+        </button>
+      </form>
+    </div>
+  );
+};
+
+type Tab = "dashboard" | "explorer" | "contracts" | "consumption" | "orders" | "warehouse" | "minimums" | "forecast" | "menus" | "products" | "suppliers" | "users" | "import" | "tenders" | "prices" | "quality" | "audit" | "settings";
+
+const TABS: { id: Tab; label: string; icon: React.FC<any>; permiso?: Permiso }[] = [
+  { id: "dashboard", label: "Dashboard", icon: FaDatabase },
+  { id: "explorer", label: "Explorador IA", icon: FaRobot },
+  { id: "tenders", label: "Licitaciones", icon: FaGavel },
+  { id: "contracts", label: "Contratos", icon: FaFileContract },
+  { id: "consumption", label: "Consumos", icon: FaClipboardList },
+  { id: "orders", label: "Órdenes", icon: FaShoppingCart },
+  { id: "warehouse", label: "Almacén", icon: FaWarehouse },
+  { id: "minimums", label: "Mínimos", icon: FaBalanceScale },
+  { id: "forecast", label: "Pronóstico", icon: FaHourglassHalf },
+  { id: "menus", label: "Menús", icon: FaUtensils },
+  { id: "prices", label: "Precios", icon: FaChartLine },
+  { id: "products", label: "Productos", icon: FaBoxOpen },
+  { id: "suppliers", label: "Proveedores", icon: FaBuilding },
+  { id: "users", label: "Usuarios", icon: FaUsers, permiso: "gestionar_usuarios" },
+  { id: "quality", label: "Calidad de datos", icon: FaClipboardCheck },
+  { id: "import", label: "Importar", icon: FaFileImport, permiso: "editar_catalogos" },
+  { id: "audit", label: "Auditoría", icon: FaHistory, permiso: "consultar_auditoria" },
+  { id: "settings", label: "Configuración", icon: FaCog, permiso: "configurar_sistema" },
+];
+
+const AppLayout: React.FC = () => {
+  const { usuario, can, logout } = useAuth();
+  const [activeTab, setActiveTab] = useState<Tab>("dashboard");
+  const visibleTabs = TABS.filter(tab => !tab.permiso || can(tab.permiso));
+
+  const renderContent = () => {
+    switch (activeTab) {
+      case "dashboard":
+        return <DashboardView />;
+      case "explorer":
+        return <DataExplorerView />;
+      case "tenders":
+        return <LicitacionesView />;
+      case "contracts":
+        return <ContractsView />;
+      case "consumption":
+        return <ConsumptionView />;
+      case "orders":
+        return <OrdersView />;
+      case "warehouse":
+        return <WarehouseView />;
+      case "minimums":
+        return <MinimumComplianceView />;
+      case "forecast":
+        return <DepletionForecastView />;
+      case "menus":
+        return <MenuPlanningView />;
+      case "prices":
+        return <PriceBenchmarkView />;
+      case "products":
+        return <ProductsView />;
+      case "suppliers":
+        return <SuppliersView />;
+      case "users":
+        return can("gestionar_usuarios") ? <UsersView /> : <DashboardView />;
+      case "quality":
+        return <DataQualityView />;
+      case "import":
+        return can("editar_catalogos") ? <ImportView /> : <DashboardView />;
+      case "audit":
+        return can("consultar_auditoria") ? <AuditLogView /> : <DashboardView />;
+      case "settings":
+        return can("configurar_sistema") ? <SettingsView /> : <DashboardView />;
+      default:
+        return <DashboardView />;
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen bg-gray-50 font-sans">
+      <nav className="w-64 bg-white shadow-lg flex-shrink-0 flex flex-col print:hidden">
+        <div className="p-6 text-center border-b">
+          <h1 className="text-2xl font-bold text-blue-600">SAV-Faa</h1>
+          <p className="text-xs text-gray-500 mt-1">Gestión Inteligente</p>
+        </div>
+        <ul className="py-4 flex-1">
+          {visibleTabs.map(({ id, label, icon: Icon }) => (
+            <li key={id} className="px-4">
+              <button
+                onClick={() => setActiveTab(id)}
+                className={`w-full flex items-center gap-4 px-4 py-3 my-1 rounded-lg text-left text-sm font-medium transition-all duration-200 ${
+                  activeTab === id
                     ? "bg-blue-600 text-white shadow-md"
                     : "text-gray-600 hover:bg-gray-100 hover:text-gray-900"
                 }`}
@@ -559,6 +4053,13 @@ export default function App() {
             </li>
           ))}
         </ul>
+        <div className="p-4 border-t">
+          <p className="text-sm font-semibold text-gray-800">{usuario.nombre}</p>
+          <p className="text-xs text-gray-500 mb-3">{normalizeRole(usuario.rol)}</p>
+          <button onClick={logout} className="w-full flex items-center justify-center gap-2 px-4 py-2 rounded-lg text-sm font-medium text-gray-600 border border-gray-300 hover:bg-gray-100">
+            <FaSignOutAlt /> Cerrar sesión
+          </button>
+        </div>
       </nav>
 
       <main className="flex-1 p-8 overflow-y-auto">
@@ -566,4 +4067,14 @@ export default function App() {
       </main>
     </div>
   );
+};
+
+export default function App() {
+  return (
+    <DataProvider>
+      <AuthProvider>
+        <AppLayout />
+      </AuthProvider>
+    </DataProvider>
+  );
 }
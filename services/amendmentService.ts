@@ -0,0 +1,224 @@
+import type {
+  Adjudicado,
+  CambioPartidaConvenio,
+  Contrato,
+  ConvenioModificatorio,
+  MovimientoAdjudicado,
+  NuevoConvenioModificatorio,
+} from "../types";
+import { daysUntil, parseDate } from "./dateService";
+import { computeContractTaxes, roundCents } from "./taxService";
+import type { AdjudicadoConConsumo, TramoConsumo } from "./taxService";
+
+// Cumulative cap on increases to a contract's amount and to each line's quantity and amount.
+export const LIMITE_MODIFICACION_PCT = 20;
+
+const CENT = 0.005;
+
+export type ContratoOriginal = Pick<Contrato, "monto_maximo" | "fin_vigencia">;
+export type PartidaOriginal = Pick<Adjudicado, "cantidad_maxima" | "precio_unitario" | "importe_maximo">;
+
+const byFecha = (a: ConvenioModificatorio, b: ConvenioModificatorio) =>
+  (parseDate(a.fecha)?.getTime() ?? 0) - (parseDate(b.fecha)?.getTime() ?? 0) || a.id_convenio - b.id_convenio;
+
+export const amendmentsOf = (convenios: ConvenioModificatorio[], contrato: string): ConvenioModificatorio[] =>
+  convenios.filter((c) => c.contrato_fk === contrato).sort(byFecha);
+
+const lineChangesOf = (convenios: ConvenioModificatorio[], adj: Adjudicado): CambioPartidaConvenio[] =>
+  amendmentsOf(convenios, adj.contrato_fk).flatMap((c) => c.partidas.filter((p) => p.adjudicado_fk === adj.id_adjudicado));
+
+export const effectiveContractValues = (contrato: Contrato, convenios: ConvenioModificatorio[]): ContratoOriginal =>
+  amendmentsOf(convenios, contrato.contrato).reduce(
+    (valores, c) => ({
+      monto_maximo: c.monto_maximo ?? valores.monto_maximo,
+      fin_vigencia: c.fin_vigencia ?? valores.fin_vigencia,
+    }),
+    { monto_maximo: contrato.monto_maximo, fin_vigencia: contrato.fin_vigencia }
+  );
+
+export const effectiveLineValues = (adj: Adjudicado, convenios: ConvenioModificatorio[]): PartidaOriginal =>
+  lineChangesOf(convenios, adj).reduce((valores, cambio) => {
+    const cantidad_maxima = cambio.cantidad_maxima ?? valores.cantidad_maxima;
+    const precio_unitario = cambio.precio_unitario ?? valores.precio_unitario;
+    return { cantidad_maxima, precio_unitario, importe_maximo: roundCents(cantidad_maxima * precio_unitario) };
+  }, { cantidad_maxima: adj.cantidad_maxima, precio_unitario: adj.precio_unitario, importe_maximo: adj.importe_maximo });
+
+// Replaces the awarded values with the effective ones and keeps the award as `original` (null when never amended).
+export const applyAmendments = <C extends Contrato, A extends Adjudicado>(
+  contratos: C[],
+  adjudicados: A[],
+  convenios: ConvenioModificatorio[]
+) => ({
+  contratos: contratos.map((c) => ({
+    ...c,
+    ...effectiveContractValues(c, convenios),
+    original: amendmentsOf(convenios, c.contrato).length > 0
+      ? ({ monto_maximo: c.monto_maximo, fin_vigencia: c.fin_vigencia } as ContratoOriginal)
+      : null,
+  })),
+  adjudicados: adjudicados.map((adj) => ({
+    ...adj,
+    ...effectiveLineValues(adj, convenios),
+    original: lineChangesOf(convenios, adj).length > 0
+      ? ({ cantidad_maxima: adj.cantidad_maxima, precio_unitario: adj.precio_unitario, importe_maximo: adj.importe_maximo } as PartidaOriginal)
+      : null,
+  })),
+});
+
+// Splits each stored line's consumption by the price in force on each movement's date: the award's, then
+// every amendment's from its date on. Past consumption keeps its price; takes the lines before applyAmendments.
+export const priceConsumption = <A extends Adjudicado>(
+  adjudicados: A[],
+  convenios: ConvenioModificatorio[],
+  movimientos: MovimientoAdjudicado[]
+): (A & { consumo_por_precio: TramoConsumo[] })[] => {
+  const porAdjudicado = new Map<number, MovimientoAdjudicado[]>();
+  movimientos.forEach((m) => {
+    if (!porAdjudicado.has(m.adjudicado_fk)) porAdjudicado.set(m.adjudicado_fk, []);
+    porAdjudicado.get(m.adjudicado_fk)!.push(m);
+  });
+  return adjudicados.map((adj) => {
+    const precios = amendmentsOf(convenios, adj.contrato_fk).flatMap((c) => {
+      const cambio = c.partidas.find((p) => p.adjudicado_fk === adj.id_adjudicado);
+      const desde = parseDate(c.fecha);
+      return cambio?.precio_unitario != null && desde ? [{ desde, precio: cambio.precio_unitario }] : [];
+    });
+    const tramos = new Map<number, number>();
+    (porAdjudicado.get(adj.id_adjudicado) ?? []).forEach((m) => {
+      const dia = parseDate(m.fecha);
+      const precio = precios.reduce((actual, p) => (dia && daysUntil(dia, p.desde) >= 0 ? p.precio : actual), adj.precio_unitario);
+      tramos.set(precio, (tramos.get(precio) || 0) + m.cantidad);
+    });
+    return {
+      ...adj,
+      consumo_por_precio: [...tramos].map(([precio_unitario, cantidad]) => ({ cantidad, precio_unitario })),
+    };
+  });
+};
+
+// Fields an amendment has changed on a stored contract or line, with their effective value. The edit form
+// may keep them as shown but cannot change them; that takes a new amendment.
+export const amendedValues = (
+  convenios: ConvenioModificatorio[],
+  entity: string,
+  record: object
+): Record<string, unknown> => {
+  if (entity === "contratos") {
+    const contrato = record as Contrato;
+    const cambios = amendmentsOf(convenios, contrato.contrato);
+    const efectivo = effectiveContractValues(contrato, convenios);
+    return {
+      ...(cambios.some((c) => c.monto_maximo !== null) ? { monto_maximo: efectivo.monto_maximo } : {}),
+      ...(cambios.some((c) => c.fin_vigencia !== null) ? { fin_vigencia: efectivo.fin_vigencia } : {}),
+    };
+  }
+  if (entity === "adjudicados") {
+    const adj = record as Adjudicado;
+    return lineChangesOf(convenios, adj).length > 0 ? { ...effectiveLineValues(adj, convenios) } : {};
+  }
+  return {};
+};
+
+// Percentage above the original award, for showing how much of the cap is used.
+export const increasePct = (original: number, efectivo: number): number =>
+  original > 0 ? (efectivo / original - 1) * 100 : 0;
+
+const exceedsCap = (original: number, nuevo: number) => nuevo > original * (1 + LIMITE_MODIFICACION_PCT / 100) + CENT;
+
+const nextAmendmentFolio = (convenios: ConvenioModificatorio[], contrato: string) =>
+  `${contrato}-CM-${String(amendmentsOf(convenios, contrato).length + 1).padStart(2, "0")}`;
+
+// `contrato` and `adjudicados` are the stored originals; `adjudicados` must carry the ledger's consumed
+// quantities and their split by price (priceConsumption). `reservadas` is what approved orders hold per line.
+export const createAmendment = (
+  contrato: Contrato,
+  adjudicados: AdjudicadoConConsumo[],
+  convenios: ConvenioModificatorio[],
+  draft: NuevoConvenioModificatorio,
+  reservadas: Map<number, number>
+): ConvenioModificatorio => {
+  const previos = amendmentsOf(convenios, contrato.contrato);
+  const vigente = effectiveContractValues(contrato, convenios);
+  const fecha = parseDate(draft.fecha);
+  const inicio = parseDate(contrato.inicio_vigencia);
+  const fin = parseDate(vigente.fin_vigencia);
+
+  if (!draft.justificacion.trim()) throw new Error("El convenio requiere una justificación.");
+  if (!fecha) throw new Error(`La fecha "${draft.fecha}" del convenio no es válida.`);
+  if (!inicio || !fin || daysUntil(fecha, inicio) < 0 || daysUntil(fecha, fin) > 0) {
+    throw new Error(`El convenio debe firmarse durante la vigencia del contrato (${contrato.inicio_vigencia} al ${vigente.fin_vigencia}).`);
+  }
+  const ultimo = previos[previos.length - 1];
+  if (ultimo && daysUntil(fecha, parseDate(ultimo.fecha) ?? fecha) < 0) {
+    throw new Error(`La fecha no puede ser anterior a la del convenio ${ultimo.folio} (${ultimo.fecha}).`);
+  }
+  if (draft.monto_maximo === null && draft.fin_vigencia === null && draft.partidas.length === 0) {
+    throw new Error("El convenio no modifica nada.");
+  }
+
+  if (draft.monto_maximo !== null) {
+    if (!Number.isFinite(draft.monto_maximo) || draft.monto_maximo <= 0) throw new Error("El monto máximo debe ser mayor a cero.");
+    if (exceedsCap(contrato.monto_maximo, draft.monto_maximo)) {
+      throw new Error(
+        `El monto máximo acumulado no puede exceder el ${LIMITE_MODIFICACION_PCT}% del original (${contrato.monto_maximo.toFixed(2)}).`
+      );
+    }
+    // Spent as the budget counts it: each quantity at the price it was consumed at, taxes included.
+    const ejercido = computeContractTaxes(
+      { ...contrato, adjudicados: adjudicados.filter((a) => a.contrato_fk === contrato.contrato) },
+      "cantidad_consumida"
+    ).total;
+    if (draft.monto_maximo < ejercido - CENT) {
+      throw new Error(`El monto máximo no puede ser menor a lo ya ejercido en el contrato (${ejercido.toFixed(2)}).`);
+    }
+  }
+  if (draft.fin_vigencia !== null) {
+    const nuevoFin = parseDate(draft.fin_vigencia);
+    if (!nuevoFin) throw new Error(`La fecha "${draft.fin_vigencia}" de fin de vigencia no es válida.`);
+    if (daysUntil(nuevoFin, fin) <= 0) throw new Error(`La nueva vigencia debe terminar después del ${vigente.fin_vigencia}.`);
+  }
+
+  const vistos = new Set<number>();
+  draft.partidas.forEach((cambio) => {
+    const adj = adjudicados.find((a) => a.id_adjudicado === cambio.adjudicado_fk);
+    if (!adj || adj.contrato_fk !== contrato.contrato) {
+      throw new Error(`El adjudicado ${cambio.adjudicado_fk} no pertenece al contrato ${contrato.contrato}.`);
+    }
+    if (vistos.has(adj.id_adjudicado)) throw new Error(`El adjudicado ${adj.id_adjudicado} aparece más de una vez.`);
+    vistos.add(adj.id_adjudicado);
+    if (cambio.cantidad_maxima === null && cambio.precio_unitario === null) {
+      throw new Error(`La partida ${adj.id_adjudicado} no tiene cambios.`);
+    }
+
+    const actual = effectiveLineValues(adj, convenios);
+    const cantidad = cambio.cantidad_maxima ?? actual.cantidad_maxima;
+    const precio = cambio.precio_unitario ?? actual.precio_unitario;
+    if (!Number.isFinite(cantidad) || cantidad <= 0 || !Number.isFinite(precio) || precio <= 0) {
+      throw new Error(`La cantidad y el precio de la partida ${adj.id_adjudicado} deben ser mayores a cero.`);
+    }
+    // Approved orders must still be receivable after the cut.
+    const reservada = reservadas.get(adj.id_adjudicado) || 0;
+    if (cantidad < adj.cantidad_consumida + reservada) {
+      throw new Error(
+        `La cantidad máxima de la partida ${adj.id_adjudicado} no puede ser menor a la consumida (${adj.cantidad_consumida}) más la reservada en órdenes aprobadas (${reservada}).`
+      );
+    }
+    if (exceedsCap(adj.cantidad_maxima, cantidad)) {
+      throw new Error(
+        `La cantidad máxima acumulada de la partida ${adj.id_adjudicado} no puede exceder el ${LIMITE_MODIFICACION_PCT}% de la original (${adj.cantidad_maxima}).`
+      );
+    }
+    if (exceedsCap(adj.importe_maximo, roundCents(cantidad * precio))) {
+      throw new Error(
+        `El importe acumulado de la partida ${adj.id_adjudicado} no puede exceder el ${LIMITE_MODIFICACION_PCT}% del original (${adj.importe_maximo.toFixed(2)}).`
+      );
+    }
+  });
+
+  return {
+    ...draft,
+    justificacion: draft.justificacion.trim(),
+    id_convenio: convenios.reduce((max, c) => Math.max(max, c.id_convenio), 0) + 1,
+    folio: nextAmendmentFolio(convenios, contrato.contrato),
+  };
+};
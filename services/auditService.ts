@@ -0,0 +1,153 @@
+import type { AccionAuditoria, CambioCampo, ConvenioModificatorio, NuevoRegistroAuditoria, RegistroAuditoria } from "../types";
+import { applyAmendments } from "./amendmentService";
+import { parseDate, startOfDay } from "./dateService";
+import type { EntityName } from "./entityService";
+import { STORE_KEYS } from "./storageService";
+import type { StoreData, StoreRecords } from "./storageService";
+
+export const ACCION_AUDITORIA_LABELS: Record<AccionAuditoria, string> = {
+  CREAR: "Alta",
+  EDITAR: "Edición",
+  ELIMINAR: "Baja",
+};
+
+// Logged as changed, but their values never reach the log.
+const CAMPOS_PROTEGIDOS = ["contrasena", "contrasena_hash", "contrasena_salt"];
+const VALOR_PROTEGIDO = "(protegido)";
+
+const valueOf = (record: object | null, campo: string): unknown =>
+  (record as Record<string, unknown> | null)?.[campo] ?? null;
+
+// Field-level differences, in the order the fields appear on the record. A missing record
+// (before a creation or after a deletion) counts as every field being null.
+export const diffRecords = (antes: object | null, despues: object | null): CambioCampo[] => {
+  const campos = [...new Set([...Object.keys(antes ?? {}), ...Object.keys(despues ?? {})])];
+  return campos
+    .filter((campo) => JSON.stringify(valueOf(antes, campo)) !== JSON.stringify(valueOf(despues, campo)))
+    .map((campo) => {
+      const mask = (value: unknown) => (CAMPOS_PROTEGIDOS.includes(campo) && value !== null ? VALOR_PROTEGIDO : value);
+      return { campo, antes: mask(valueOf(antes, campo)), despues: mask(valueOf(despues, campo)) };
+    });
+};
+
+// Entries get their id from the database when they are added.
+const buildEntries = (
+  entidad: EntityName,
+  pares: { antes: object | null; despues: object | null }[],
+  usuario_fk: number | null,
+  fecha: string
+): NuevoRegistroAuditoria[] => {
+  const key = STORE_KEYS[entidad];
+  return pares.flatMap(({ antes, despues }) => {
+    const cambios = diffRecords(antes, despues);
+    // Saving a record without changes leaves no trace.
+    if (cambios.length === 0) return [];
+    return [
+      {
+        entidad,
+        clave: String(valueOf(despues ?? antes, key)),
+        accion: antes === null ? "CREAR" : despues === null ? "ELIMINAR" : "EDITAR",
+        usuario_fk,
+        fecha,
+        cambios,
+      } as NuevoRegistroAuditoria,
+    ];
+  });
+};
+
+// Entries for records about to be written, compared with the versions currently stored.
+export const auditSaves = <K extends EntityName>(
+  data: StoreData,
+  entidad: K,
+  records: StoreRecords[K][],
+  usuario_fk: number | null,
+  fecha: string
+): NuevoRegistroAuditoria[] => {
+  const key = STORE_KEYS[entidad];
+  const stored = data[entidad] as StoreRecords[K][];
+  const pares = records.map((despues) => ({
+    antes: stored.find((r) => r[key] === despues[key]) ?? null,
+    despues,
+  }));
+  return buildEntries(entidad, pares, usuario_fk, fecha);
+};
+
+// The entry keeps every value the deleted record had as stored.
+export const auditDeletion = <K extends EntityName>(
+  data: StoreData,
+  entidad: K,
+  record: StoreRecords[K],
+  usuario_fk: number | null,
+  fecha: string
+): NuevoRegistroAuditoria[] => {
+  const key = STORE_KEYS[entidad];
+  const antes = (data[entidad] as StoreRecords[K][]).find((r) => r[key] === record[key]) ?? record;
+  return buildEntries(entidad, [{ antes, despues: null }], usuario_fk, fecha);
+};
+
+// A convenio leaves the stored contract and lines untouched but changes their effective values; those
+// changes are logged as edits of the contract and of each line it amends.
+export const auditAmendment = (
+  data: StoreData,
+  convenio: ConvenioModificatorio,
+  usuario_fk: number | null,
+  fecha: string
+): NuevoRegistroAuditoria[] => {
+  const contratos = data.contratos.filter((c) => c.contrato === convenio.contrato_fk);
+  const adjudicados = data.adjudicados.filter((a) => a.contrato_fk === convenio.contrato_fk);
+  const efectivos = (convenios: ConvenioModificatorio[]) => {
+    const vigentes = applyAmendments(contratos, adjudicados, convenios);
+    return {
+      contratos: vigentes.contratos.map(({ original, ...c }) => c),
+      adjudicados: vigentes.adjudicados.map(({ original, ...a }) => a),
+    };
+  };
+  const antes = efectivos(data.convenios);
+  const despues = efectivos([...data.convenios, convenio]);
+  const vista = { ...data, contratos: antes.contratos, adjudicados: antes.adjudicados };
+  return [
+    ...auditSaves(vista, "contratos", despues.contratos, usuario_fk, fecha),
+    ...auditSaves(vista, "adjudicados", despues.adjudicados, usuario_fk, fecha),
+  ];
+};
+
+export interface AuditFilters {
+  entidad: EntityName | "";
+  clave: string;
+  usuario_fk: number | null;
+  // dd/mm/aaaa or any format parseDate accepts; both days are included.
+  desde: string;
+  hasta: string;
+}
+
+// Throws when a date filter cannot be read, so the viewer can say which one.
+export const filterAuditLog = (registros: RegistroAuditoria[], filtros: AuditFilters): RegistroAuditoria[] => {
+  const parseBound = (value: string, label: string) => {
+    if (!value.trim()) return null;
+    const date = parseDate(value);
+    if (!date) throw new Error(`La fecha "${value}" de ${label} no es válida; usa dd/mm/aaaa.`);
+    return startOfDay(date).getTime();
+  };
+  const desde = parseBound(filtros.desde, "inicio");
+  const hasta = parseBound(filtros.hasta, "fin");
+  const clave = filtros.clave.trim().toLowerCase();
+
+  return registros
+    .filter((r) => {
+      const dia = startOfDay(new Date(r.fecha)).getTime();
+      return (
+        (!filtros.entidad || r.entidad === filtros.entidad) &&
+        (!clave || r.clave.toLowerCase() === clave) &&
+        (filtros.usuario_fk === null || r.usuario_fk === filtros.usuario_fk) &&
+        (desde === null || dia >= desde) &&
+        (hasta === null || dia <= hasta)
+      );
+    })
+    .sort((a, b) => b.fecha.localeCompare(a.fecha) || b.id_auditoria - a.id_auditoria);
+};
+
+export const recordHistory = (registros: RegistroAuditoria[], entidad: EntityName, clave: unknown): RegistroAuditoria[] =>
+  filterAuditLog(registros, { entidad, clave: String(clave), usuario_fk: null, desde: "", hasta: "" });
+
+export const formatAuditValue = (value: unknown): string =>
+  value === null || value === undefined || value === "" ? "—" : typeof value === "object" ? JSON.stringify(value) : String(value);
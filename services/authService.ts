@@ -0,0 +1,106 @@
+import type { Usuario } from "../types";
+
+export type Rol = "ADMINISTRADOR" | "ALMACEN" | "ADQUISICIONES" | "CONSULTA";
+
+export type Permiso =
+  | "gestionar_usuarios"
+  | "editar_catalogos"
+  | "gestionar_ordenes"
+  | "registrar_movimientos"
+  | "configurar_sistema"
+  | "planear_menus"
+  | "consultar_auditoria";
+
+const ROLE_PERMISSIONS: Record<Rol, Permiso[]> = {
+  ADMINISTRADOR: ["gestionar_usuarios", "editar_catalogos", "gestionar_ordenes", "registrar_movimientos", "configurar_sistema", "planear_menus", "consultar_auditoria"],
+  ALMACEN: ["registrar_movimientos", "planear_menus"],
+  ADQUISICIONES: ["editar_catalogos", "gestionar_ordenes"],
+  CONSULTA: [],
+};
+
+export const SESSION_TTL_MS = 30 * 60 * 1000;
+const SESSION_STORAGE_KEY = "sav-faa-session";
+const PBKDF2_ITERATIONS = 100000;
+const SALT_BYTES = 16;
+
+export interface Session {
+  rud: number;
+  expiresAt: number;
+}
+
+// `Usuario.rol` is free text in the source data ("Administrador", "ALMACÉN", ...), so it is matched loosely.
+export const normalizeRole = (rol: string): Rol => {
+  const value = rol.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toUpperCase();
+  if (value.includes("ADMIN")) return "ADMINISTRADOR";
+  if (value.includes("ALMAC")) return "ALMACEN";
+  if (value.includes("ADQUI") || value.includes("COMPRA")) return "ADQUISICIONES";
+  return "CONSULTA";
+};
+
+export const hasPermission = (usuario: Usuario | null, permiso: Permiso): boolean =>
+  usuario !== null && ROLE_PERMISSIONS[normalizeRole(usuario.rol)].includes(permiso);
+
+const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+
+const fromHex = (hex: string) =>
+  new Uint8Array((hex.match(/.{2}/g) ?? []).map((byte) => parseInt(byte, 16)));
+
+export const hashPassword = async (
+  password: string,
+  salt: string = toHex(crypto.getRandomValues(new Uint8Array(SALT_BYTES)))
+): Promise<{ hash: string; salt: string }> => {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(password),
+    "PBKDF2",
+    false,
+    ["deriveBits"]
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt: fromHex(salt), iterations: PBKDF2_ITERATIONS },
+    key,
+    256
+  );
+  return { hash: toHex(new Uint8Array(bits)), salt };
+};
+
+// Replaces a plain-text `contrasena` with its salted hash; records without one are returned unchanged.
+export const withHashedPassword = async <T extends Partial<Usuario>>(usuario: T): Promise<T> => {
+  const { contrasena, ...rest } = usuario;
+  if (contrasena === undefined || contrasena === null || String(contrasena) === "") {
+    return rest as T;
+  }
+  const { hash, salt } = await hashPassword(String(contrasena));
+  return { ...rest, contrasena_hash: hash, contrasena_salt: salt } as T;
+};
+
+export const authenticate = async (
+  usuarios: Usuario[],
+  rud: number,
+  password: string
+): Promise<Usuario> => {
+  const usuario = usuarios.find((u) => u.rud === rud);
+  if (usuario?.contrasena_hash && usuario.contrasena_salt) {
+    const { hash } = await hashPassword(password, usuario.contrasena_salt);
+    if (hash === usuario.contrasena_hash) return usuario;
+  }
+  throw new Error("RUD o contraseña incorrectos.");
+};
+
+export const saveSession = (rud: number): Session => {
+  const session = { rud, expiresAt: Date.now() + SESSION_TTL_MS };
+  localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+  return session;
+};
+
+export const loadSession = (): Session | null => {
+  try {
+    const session = JSON.parse(localStorage.getItem(SESSION_STORAGE_KEY) ?? "null") as Session | null;
+    return session && session.expiresAt > Date.now() ? session : null;
+  } catch {
+    return null;
+  }
+};
+
+export const clearSession = () => localStorage.removeItem(SESSION_STORAGE_KEY);
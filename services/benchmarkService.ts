@@ -0,0 +1,81 @@
+import type { Adjudicado, Articulo, Contrato } from "../types";
+import { parseDate } from "./dateService";
+import { pricePerBaseUnit } from "./unitService";
+
+export const DEFAULT_PRICE_TOLERANCE_PCT = 10;
+export const DEFAULT_REFERENCE_MAX_AGE_MONTHS = 12;
+
+export interface PriceBenchmarkRow {
+  id_adjudicado: number;
+  codigo: number;
+  articulo: string;
+  unidad_medida: string;
+  contrato: string;
+  proveedor: string;
+  precio_unitario: number;
+  // Unit price per KG, LITRO or PIEZA, so articles bought in different packages can be compared.
+  precio_base: number | null;
+  unidad_base: string | null;
+  precio_medio: number | null;
+  // Percent above (positive) or below (negative) the reference price; null without a usable reference.
+  desviacion: number | null;
+  excede_tolerancia: boolean;
+  ultima_fecha: string | null;
+  referencia_vencida: boolean;
+}
+
+export interface BenchmarkOptions {
+  toleranciaPct: number;
+  maxAntiguedadMeses: number;
+  today: Date;
+}
+
+type ContratoConAdjudicados = Contrato & { proveedor_nombre?: string; adjudicados: Adjudicado[] };
+
+// `precio_medio` comes as a number or, for a few articles, as a numeric string.
+export const parseReferencePrice = (value: number | string | null | undefined): number | null => {
+  const price = typeof value === "string" ? Number(value.replace(/[$,\s]/g, "")) : value;
+  return typeof price === "number" && Number.isFinite(price) && price > 0 ? price : null;
+};
+
+// A reference with no date cannot be trusted either.
+export const isReferenceStale = (ultima_fecha: string | null, maxAntiguedadMeses: number, today: Date): boolean => {
+  const fecha = parseDate(ultima_fecha);
+  if (!fecha) return true;
+  const limite = new Date(today.getFullYear(), today.getMonth() - maxAntiguedadMeses, today.getDate());
+  return fecha < limite;
+};
+
+export const buildPriceBenchmark = (
+  contratos: ContratoConAdjudicados[],
+  articulos: Articulo[],
+  { toleranciaPct, maxAntiguedadMeses, today }: BenchmarkOptions
+): PriceBenchmarkRow[] => {
+  const articulosMap = new Map(articulos.map((a) => [a.codigo, a]));
+  return contratos
+    .flatMap((contrato) =>
+      contrato.adjudicados.map((adj) => {
+        const articulo = articulosMap.get(adj.codigo_fk);
+        const precio_medio = parseReferencePrice(articulo?.precio_medio);
+        const desviacion = precio_medio !== null ? ((adj.precio_unitario - precio_medio) / precio_medio) * 100 : null;
+        const ultima_fecha = articulo?.ultima_fecha ?? null;
+        return {
+          id_adjudicado: adj.id_adjudicado,
+          codigo: adj.codigo_fk,
+          articulo: articulo?.descripcion_articulo ?? String(adj.codigo_fk),
+          unidad_medida: articulo?.unidad_medida ?? "",
+          contrato: contrato.contrato,
+          proveedor: contrato.proveedor_nombre ?? contrato.proveedor_fk,
+          precio_unitario: adj.precio_unitario,
+          precio_base: articulo ? pricePerBaseUnit(adj.precio_unitario, articulo) : null,
+          unidad_base: articulo?.unidad_base ?? null,
+          precio_medio,
+          desviacion,
+          excede_tolerancia: desviacion !== null && desviacion > toleranciaPct,
+          ultima_fecha,
+          referencia_vencida: isReferenceStale(ultima_fecha, maxAntiguedadMeses, today),
+        };
+      })
+    )
+    .sort((a, b) => a.codigo - b.codigo || a.precio_unitario - b.precio_unitario);
+};
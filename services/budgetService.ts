@@ -0,0 +1,36 @@
+import type { Adjudicado, Contrato } from "../types";
+import { computeContractTaxes } from "./taxService";
+
+// Percent-of-maximum levels at which a contract raises a warning.
+export const BUDGET_ALERT_THRESHOLDS = [80, 90, 100] as const;
+
+export type BudgetAlertLevel = (typeof BUDGET_ALERT_THRESHOLDS)[number];
+
+export interface ContractBudget {
+  contrato: string;
+  monto_maximo: number;
+  ejercido: number;
+  saldo: number;
+  porcentaje: number;
+  alerta: BudgetAlertLevel | null;
+}
+
+export const getBudgetAlertLevel = (porcentaje: number): BudgetAlertLevel | null => {
+  const reached = BUDGET_ALERT_THRESHOLDS.filter((threshold) => porcentaje >= threshold);
+  return reached.length > 0 ? reached[reached.length - 1] : null;
+};
+
+export const computeContractBudget = (
+  contrato: Contrato & { adjudicados: Adjudicado[] }
+): ContractBudget => {
+  const ejercido = computeContractTaxes(contrato, "cantidad_consumida").total;
+  const porcentaje = contrato.monto_maximo > 0 ? (ejercido / contrato.monto_maximo) * 100 : 0;
+  return {
+    contrato: contrato.contrato,
+    monto_maximo: contrato.monto_maximo,
+    ejercido,
+    saldo: contrato.monto_maximo - ejercido,
+    porcentaje,
+    alerta: getBudgetAlertLevel(porcentaje),
+  };
+};
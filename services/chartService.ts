@@ -0,0 +1,126 @@
+import type { GraficaFijada } from "../types";
+import type { QueryRow, QueryValue } from "./queryService";
+
+export type TipoGrafica = "barras" | "lineas" | "pastel";
+
+export const TIPO_GRAFICA_LABELS: Record<TipoGrafica, string> = {
+  barras: "Barras",
+  lineas: "Líneas",
+  pastel: "Pastel",
+};
+
+export interface ChartSpec {
+  tipo: TipoGrafica;
+  eje_x: string;
+  series: string[];
+}
+
+export interface ResultShape {
+  // Columns usable as the X axis: text values, dates among them.
+  categorias: string[];
+  fechas: string[];
+  numericas: string[];
+  // Numeric columns with no negative values, the only ones a pie can show.
+  no_negativas: string[];
+}
+
+// More slices than this are unreadable; the smallest ones are grouped as "Otros".
+export const MAX_PIE_SLICES = 8;
+export const MAX_CHART_POINTS = 50;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const valuesOf = (filas: QueryRow[], column: string): QueryValue[] =>
+  filas.map((f) => f[column]).filter((v) => v !== null && v !== undefined);
+
+export const analyzeResultShape = (columnas: string[], filas: QueryRow[]): ResultShape => {
+  const shape: ResultShape = { categorias: [], fechas: [], numericas: [], no_negativas: [] };
+  columnas.forEach((column) => {
+    const values = valuesOf(filas, column);
+    if (values.length === 0) return;
+    if (values.every((v) => typeof v === "number")) {
+      shape.numericas.push(column);
+      if (values.every((v) => (v as number) >= 0)) shape.no_negativas.push(column);
+      return;
+    }
+    shape.categorias.push(column);
+    if (values.every((v) => typeof v === "string" && ISO_DATE.test(v))) shape.fechas.push(column);
+  });
+  return shape;
+};
+
+export const availableChartTypes = (shape: ResultShape): TipoGrafica[] => {
+  if (shape.categorias.length === 0 || shape.numericas.length === 0) return [];
+  return [
+    "barras",
+    ...(shape.fechas.length > 0 ? (["lineas"] as const) : []),
+    ...(shape.no_negativas.length > 0 ? (["pastel"] as const) : []),
+  ];
+};
+
+// Dates become a line over time; a single non-negative measure over a few categories is read as
+// proportions; anything else with a category and a number is a bar chart.
+export const suggestChart = (columnas: string[], filas: QueryRow[]): ChartSpec | null => {
+  const shape = analyzeResultShape(columnas, filas);
+  if (filas.length < 2 || availableChartTypes(shape).length === 0) return null;
+  if (shape.fechas.length > 0) {
+    return { tipo: "lineas", eje_x: shape.fechas[0], series: shape.numericas };
+  }
+  const eje_x = shape.categorias[0];
+  if (shape.numericas.length === 1 && shape.no_negativas.length === 1 && filas.length <= MAX_PIE_SLICES) {
+    return { tipo: "pastel", eje_x, series: shape.numericas };
+  }
+  return { tipo: "barras", eje_x, series: shape.numericas };
+};
+
+// Keeps the spec usable after the user changes the type or the result's columns change on a re-run.
+export const normalizeChartSpec = (spec: ChartSpec, shape: ResultShape): ChartSpec | null => {
+  const tipos = availableChartTypes(shape);
+  if (tipos.length === 0) return null;
+  const tipo = tipos.includes(spec.tipo) ? spec.tipo : tipos[0];
+  const ejes = tipo === "lineas" ? shape.fechas : shape.categorias;
+  const eje_x = ejes.includes(spec.eje_x) ? spec.eje_x : ejes[0];
+  const permitidas = tipo === "pastel" ? shape.no_negativas : shape.numericas;
+  const series = spec.series.filter((s) => permitidas.includes(s));
+  return {
+    tipo,
+    eje_x,
+    series: tipo === "pastel" ? [series[0] ?? permitidas[0]] : series.length > 0 ? series : [permitidas[0]],
+  };
+};
+
+export type ChartPoint = { name: string } & Record<string, string | number | null>;
+
+export const buildChartData = (filas: QueryRow[], spec: ChartSpec): ChartPoint[] => {
+  const points: ChartPoint[] = filas
+    .filter((f) => f[spec.eje_x] !== null && f[spec.eje_x] !== undefined)
+    .map((f) => ({
+      ...Object.fromEntries(spec.series.map((s) => [s, typeof f[s] === "number" ? f[s] : null])),
+      name: String(f[spec.eje_x]),
+    }));
+
+  if (spec.tipo === "lineas") {
+    return points.sort((a, b) => a.name.localeCompare(b.name)).slice(-MAX_CHART_POINTS);
+  }
+  if (spec.tipo === "pastel") {
+    const serie = spec.series[0];
+    const sorted = points
+      .filter((p) => typeof p[serie] === "number" && (p[serie] as number) > 0)
+      .sort((a, b) => (b[serie] as number) - (a[serie] as number));
+    if (sorted.length <= MAX_PIE_SLICES) return sorted;
+    const resto = sorted.slice(MAX_PIE_SLICES - 1).reduce((sum, p) => sum + (p[serie] as number), 0);
+    return [...sorted.slice(0, MAX_PIE_SLICES - 1), { name: "Otros", [serie]: resto } as ChartPoint];
+  }
+  return points.slice(0, MAX_CHART_POINTS);
+};
+
+export const createPinnedChart = (graficas: GraficaFijada[], draft: Omit<GraficaFijada, "id_grafica">): GraficaFijada => {
+  const titulo = draft.titulo.trim();
+  if (!titulo) throw new Error("La gráfica requiere un título.");
+  if (draft.grafica.series.length === 0) throw new Error("La gráfica requiere al menos una serie.");
+  return {
+    ...draft,
+    titulo,
+    id_grafica: graficas.reduce((max, g) => Math.max(max, g.id_grafica), 0) + 1,
+  };
+};
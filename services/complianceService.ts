@@ -0,0 +1,50 @@
+import type { Adjudicado, Articulo, Contrato, Proveedor } from "../types";
+import { daysUntil, parseDate } from "./dateService";
+
+export interface MinimumComplianceRow {
+  id_adjudicado: number;
+  contrato: string;
+  proveedor: string;
+  articulo: string;
+  cantidad_minima: number;
+  cantidad_consumida: number;
+  faltante: number;
+  fin_vigencia: string;
+  // Days left after today; 0 on the last day of the contract, negative once it has ended.
+  dias_restantes: number | null;
+  // Units per day needed to reach the minimum by fin_vigencia; null once the contract has ended.
+  tasa_requerida: number | null;
+}
+
+type ContratoConAdjudicados = Contrato & {
+  proveedor?: Proveedor;
+  adjudicados: (Adjudicado & { articulo?: Articulo })[];
+};
+
+// Lists every awarded item whose consumption is still below cantidad_minima.
+export const buildMinimumComplianceReport = (
+  contratos: ContratoConAdjudicados[],
+  today: Date
+): MinimumComplianceRow[] =>
+  contratos.flatMap((contrato) => {
+    const fin = parseDate(contrato.fin_vigencia);
+    const diasRestantes = fin ? daysUntil(fin, today) : null;
+    return contrato.adjudicados
+      .filter((adj) => adj.cantidad_consumida < adj.cantidad_minima)
+      .map((adj) => {
+        const faltante = adj.cantidad_minima - adj.cantidad_consumida;
+        return {
+          id_adjudicado: adj.id_adjudicado,
+          contrato: contrato.contrato,
+          proveedor: contrato.proveedor?.proveedor ?? contrato.proveedor_fk,
+          articulo: adj.articulo?.descripcion_articulo ?? String(adj.codigo_fk),
+          cantidad_minima: adj.cantidad_minima,
+          cantidad_consumida: adj.cantidad_consumida,
+          faltante,
+          fin_vigencia: contrato.fin_vigencia,
+          dias_restantes: diasRestantes,
+          tasa_requerida:
+            diasRestantes !== null && diasRestantes >= 0 ? faltante / (diasRestantes + 1) : null,
+        };
+      });
+  });
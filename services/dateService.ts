@@ -0,0 +1,88 @@
+import type { Contrato } from "../types";
+import type { EntityName } from "./entityService";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const MONTHS: Record<string, number> = {
+  enero: 0, febrero: 1, marzo: 2, abril: 3, mayo: 4, junio: 5,
+  julio: 6, agosto: 7, septiembre: 8, setiembre: 8, octubre: 9, noviembre: 10, diciembre: 11,
+};
+
+// Text date fields per entity. Records store them as typed by the office.
+export const DATE_FIELDS: Partial<Record<EntityName, string[]>> = {
+  articulos: ["ultima_fecha"],
+  contratos: ["inicio_vigencia", "fin_vigencia"],
+  licitaciones: ["fecha_convocatoria", "fecha_dudas", "fecha_apertura", "fecha_fallo"],
+};
+
+const buildDate = (year: number, month: number, day: number): Date | null => {
+  const date = new Date(year, month, day);
+  // Rejects overflowing values such as 31/02, which Date would roll into March.
+  return date.getFullYear() === year && date.getMonth() === month && date.getDate() === day ? date : null;
+};
+
+// Reads the formats found in the data: "15 de enero de 2025", "15/01/2025" (also with dashes) and
+// ISO "2025-01-15", optionally followed by a time. Anything else is null instead of a guess.
+// A full ISO timestamp is an instant: it becomes the local day it falls on, so "2025-01-15T03:00:00Z"
+// is still the 14th in Mexico City.
+export const parseDate = (value: string | null | undefined): Date | null => {
+  const text = value?.trim().toLowerCase();
+  if (!text) return null;
+
+  const written = text.match(/^(\d{1,2})\s+de\s+([a-záéíóú]+)\s+(?:de|del)\s+(\d{4})$/);
+  if (written) {
+    const month = MONTHS[written[2]];
+    return month === undefined ? null : buildDate(Number(written[3]), month, Number(written[1]));
+  }
+  const numeric = text.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/);
+  if (numeric) {
+    return buildDate(Number(numeric[3]), Number(numeric[2]) - 1, Number(numeric[1]));
+  }
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})(t[\d:.]+(?:z|[+-]\d{2}:?\d{2})?)?$/);
+  if (iso) {
+    const day = buildDate(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+    if (!day || !iso[4]) return day;
+    const instant = new Date(text.toUpperCase());
+    return Number.isNaN(instant.getTime()) ? null : startOfDay(instant);
+  }
+  return null;
+};
+
+export const formatDate = (date: Date): string => {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${pad(date.getDate())}/${pad(date.getMonth() + 1)}/${date.getFullYear()}`;
+};
+
+export const startOfDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// Whole calendar days from `today` to `date`: 0 on the same day, negative once it has passed.
+export const daysUntil = (date: Date, today: Date): number =>
+  Math.round((startOfDay(date).getTime() - startOfDay(today).getTime()) / MS_PER_DAY);
+
+export type EstadoVigencia = "por_iniciar" | "vigente" | "por_vencer" | "vencido" | "fecha_invalida";
+
+export const ESTADO_VIGENCIA_LABELS: Record<EstadoVigencia, string> = {
+  por_iniciar: "Por iniciar",
+  vigente: "Vigente",
+  por_vencer: "Por vencer",
+  vencido: "Vencido",
+  fecha_invalida: "Fecha inválida",
+};
+
+export const DIAS_AVISO_VENCIMIENTO = 30;
+
+// Both vigencia dates are inclusive: a contract ending 31/03 can still be used on 31/03.
+export const getContractValidity = (
+  contrato: Pick<Contrato, "inicio_vigencia" | "fin_vigencia">,
+  today: Date
+): EstadoVigencia => {
+  const inicio = parseDate(contrato.inicio_vigencia);
+  const fin = parseDate(contrato.fin_vigencia);
+  if (!inicio || !fin) return "fecha_invalida";
+  if (daysUntil(inicio, today) > 0) return "por_iniciar";
+  const restantes = daysUntil(fin, today);
+  if (restantes < 0) return "vencido";
+  return restantes <= DIAS_AVISO_VENCIMIENTO ? "por_vencer" : "vigente";
+};
+
+export const isContractActive = (estado: EstadoVigencia): boolean => estado === "vigente" || estado === "por_vencer";
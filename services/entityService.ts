@@ -0,0 +1,170 @@
+import type { Adjudicado, Articulo, Contrato, Usuario } from "../types";
+import { amendedValues } from "./amendmentService";
+import { deriveQuantities, sumConsumptionByAdjudicado } from "./ledgerService";
+import { STORE_KEYS } from "./storageService";
+import type { StoreData, StoreRecords } from "./storageService";
+import { roundCents } from "./taxService";
+import { normalizeArticleUnit } from "./unitService";
+import { DATE_FIELDS, parseDate } from "./dateService";
+
+// Catalog and contract entities the team edits directly; ledgers and orders change only through their workflows.
+export const EDITABLE_ENTITIES = [
+  "adjudicados",
+  "articulos",
+  "contratos",
+  "licitaciones",
+  "proveedores",
+  "usuarios",
+] as const;
+
+export type EntityName = (typeof EDITABLE_ENTITIES)[number];
+
+export const ENTITY_LABELS: Record<EntityName, string> = {
+  adjudicados: "Adjudicado",
+  articulos: "Artículo",
+  contratos: "Contrato",
+  licitaciones: "Licitación",
+  proveedores: "Proveedor",
+  usuarios: "Usuario",
+};
+
+// Entities whose natural key is typed by the user instead of generated.
+const MANUAL_KEYS: EntityName[] = ["articulos", "usuarios"];
+
+// Fields other records point to by value; renaming them would orphan those records.
+// Suppliers are linked by id, so their name can change freely.
+const REFERENCED_FIELDS: { [K in EntityName]?: keyof StoreRecords[K] } = {
+  contratos: "contrato",
+  licitaciones: "licitacion",
+};
+
+const findDependents = (data: StoreData, entity: EntityName, record: object): string | null => {
+  const r = record as Record<string, unknown>;
+  switch (entity) {
+    case "articulos":
+      return data.adjudicados.some((adj) => adj.codigo_fk === r.codigo) ||
+        data.movimientosAlmacen.some((m) => m.codigo_fk === r.codigo) ||
+        data.recetas.some((receta) => receta.ingredientes.some((i) => i.codigo_fk === r.codigo))
+        ? "tiene adjudicados, movimientos de almacén o recetas asociados"
+        : null;
+    case "contratos":
+      return data.adjudicados.some((adj) => adj.contrato_fk === r.contrato) ||
+        data.ordenes.some((o) => o.contrato_fk === r.contrato) ||
+        data.convenios.some((c) => c.contrato_fk === r.contrato)
+        ? "tiene adjudicados, órdenes o convenios asociados"
+        : null;
+    case "licitaciones":
+      return data.contratos.some((c) => c.licitacion_fk === r.licitacion)
+        ? "tiene contratos asociados"
+        : null;
+    case "proveedores":
+      return data.contratos.some((c) => c.id_proveedor_fk === r.id_proveedor)
+        ? "tiene contratos asociados"
+        : null;
+    case "adjudicados":
+      return data.movimientos.some((m) => m.adjudicado_fk === r.id_adjudicado) ||
+        data.ordenes.some((o) => o.partidas.some((p) => p.adjudicado_fk === r.id_adjudicado)) ||
+        data.convenios.some((c) => c.partidas.some((p) => p.adjudicado_fk === r.id_adjudicado))
+        ? "tiene movimientos, órdenes o convenios asociados"
+        : null;
+    default:
+      return null;
+  }
+};
+
+// Completes and checks a record coming from an edit form before it is written to the store.
+export const prepareRecord = <K extends EntityName>(
+  data: StoreData,
+  entity: K,
+  values: Partial<StoreRecords[K]>,
+  isNew: boolean
+): StoreRecords[K] => {
+  const key = STORE_KEYS[entity];
+  const records = data[entity] as StoreRecords[K][];
+  let keyValue = values[key];
+
+  if (isNew && !MANUAL_KEYS.includes(entity)) {
+    keyValue = (records.reduce((max, r) => Math.max(max, Number(r[key]) || 0), 0) +
+      1) as StoreRecords[K][typeof key];
+  }
+  if (keyValue === undefined || keyValue === null || keyValue === ("" as unknown)) {
+    throw new Error(`El campo ${key} es obligatorio.`);
+  }
+
+  const existing = records.find((r) => r[key] === keyValue);
+  if (isNew && existing) {
+    throw new Error(`Ya existe un registro de ${ENTITY_LABELS[entity]} con ${key} ${String(keyValue)}.`);
+  }
+  if (!isNew && !existing) {
+    throw new Error(`No existe el registro de ${ENTITY_LABELS[entity]} con ${key} ${String(keyValue)}.`);
+  }
+
+  const referenced = REFERENCED_FIELDS[entity] as keyof StoreRecords[K] | undefined;
+  if (existing && referenced && referenced in values && existing[referenced] !== values[referenced]) {
+    const dependents = findDependents(data, entity, existing);
+    if (dependents) {
+      throw new Error(`No se puede cambiar ${String(referenced)} porque el registro ${dependents}.`);
+    }
+  }
+
+  const record = { ...existing, ...values, [key]: keyValue } as unknown as StoreRecords[K];
+  if (existing) {
+    // Fields changed by an amendment keep their original award here; the form may send back the
+    // effective value it showed, but any other value has to go through a new amendment.
+    const fields = record as unknown as Record<string, unknown>;
+    Object.entries(amendedValues(data.convenios, entity, existing)).forEach(([field, efectivo]) => {
+      const original = (existing as unknown as Record<string, unknown>)[field];
+      if (fields[field] !== efectivo && fields[field] !== original) {
+        throw new Error(`${field} fue modificado por un convenio; registra un nuevo convenio modificatorio para cambiarlo.`);
+      }
+      fields[field] = original;
+    });
+  }
+  DATE_FIELDS[entity]?.forEach((field) => {
+    const value = (record as unknown as Record<string, string | null | undefined>)[field];
+    if (value && !parseDate(value)) {
+      throw new Error(`La fecha "${value}" de ${field} no es válida; usa dd/mm/aaaa o "dd de mes de aaaa".`);
+    }
+  });
+  if (entity === "adjudicados") {
+    // Consumption is derived from the ledger; new awards start untouched, and edits keep the
+    // stored available quantity and status in step with the new maximum, which cannot drop below it.
+    // The amount is always quantity × price, never typed.
+    const adj = record as Adjudicado;
+    adj.importe_maximo = roundCents(adj.cantidad_maxima * adj.precio_unitario);
+    const consumida = existing ? sumConsumptionByAdjudicado(data.movimientos).get(adj.id_adjudicado) || 0 : 0;
+    const maxima = Number(amendedValues(data.convenios, entity, adj).cantidad_maxima ?? adj.cantidad_maxima);
+    if (maxima < consumida) {
+      throw new Error(`La cantidad máxima (${maxima}) es menor a lo ya consumido (${consumida}).`);
+    }
+    Object.assign(adj, deriveQuantities(adj, consumida));
+  }
+  if (entity === "articulos") {
+    // Unit mapping left blank in the form is filled in from `unidad_medida` and the description.
+    const articulo = record as Articulo;
+    const sugerido = normalizeArticleUnit(articulo);
+    articulo.unidad_codigo = articulo.unidad_codigo ?? sugerido.unidad_codigo;
+    articulo.unidad_base = articulo.unidad_base ?? sugerido.unidad_base;
+    articulo.contenido_neto = articulo.contenido_neto ?? sugerido.contenido_neto;
+  }
+  if (entity === "contratos") {
+    // The supplier is picked by id; the name is copied so the contract still reads as issued.
+    const contrato = record as Contrato;
+    const proveedor = data.proveedores.find((p) => p.id_proveedor === contrato.id_proveedor_fk);
+    if (!proveedor) {
+      throw new Error("El proveedor seleccionado no existe.");
+    }
+    contrato.proveedor_fk = proveedor.proveedor;
+  }
+  if (entity === "usuarios" && !(record as Usuario).contrasena_hash) {
+    throw new Error("El usuario requiere una contraseña.");
+  }
+  return record;
+};
+
+export const assertCanDelete = (data: StoreData, entity: EntityName, record: object) => {
+  const dependents = findDependents(data, entity, record);
+  if (dependents) {
+    throw new Error(`No se puede eliminar el registro de ${ENTITY_LABELS[entity]} porque ${dependents}.`);
+  }
+};
@@ -0,0 +1,275 @@
+// Writers for taking a table out of the app. Cells arrive already formatted as they appear on screen,
+// except raw numbers, which spreadsheets keep as numbers.
+
+export type ExportCell = string | number;
+
+export interface ExportTable {
+  title: string;
+  headers: string[];
+  rows: ExportCell[][];
+  generatedAt: Date;
+}
+
+export type ExportFormat = "csv" | "xlsx" | "pdf";
+
+const formatTimestamp = (date: Date) => date.toLocaleString("es-MX");
+
+const slugify = (title: string) =>
+  title
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "") || "reporte";
+
+export const exportFileName = (table: ExportTable, format: ExportFormat) => {
+  const d = table.generatedAt;
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${slugify(table.title)}-${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}-${pad(d.getHours())}${pad(d.getMinutes())}.${format}`;
+};
+
+// --- CSV ---
+
+const csvCell = (cell: ExportCell) => {
+  const value = String(cell);
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+export const toCsv = (table: ExportTable): Blob => {
+  const lines = [table.headers, ...table.rows].map((row) => row.map(csvCell).join(","));
+  // The BOM makes Excel open the file as UTF-8 instead of the system code page.
+  return new Blob(["\uFEFF" + lines.join("\r\n")], { type: "text/csv;charset=utf-8" });
+};
+
+// --- XLSX (stored ZIP of SpreadsheetML parts) ---
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const buildZip = (files: { name: string; content: string }[], date: Date): Blob => {
+  const encoder = new TextEncoder();
+  const dosTime = (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1);
+  const dosDate = ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  files.forEach((file) => {
+    const name = encoder.encode(file.name);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, 0x0800, true); // UTF-8 file names
+    local.setUint16(10, dosTime, true);
+    local.setUint16(12, dosDate, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, 0x02014b50, true);
+    entry.setUint16(4, 20, true);
+    entry.setUint16(6, 20, true);
+    entry.setUint16(8, 0x0800, true);
+    entry.setUint16(12, dosTime, true);
+    entry.setUint16(14, dosDate, true);
+    entry.setUint32(16, crc, true);
+    entry.setUint32(20, data.length, true);
+    entry.setUint32(24, data.length, true);
+    entry.setUint16(28, name.length, true);
+    entry.setUint32(42, offset, true);
+
+    parts.push(new Uint8Array(local.buffer), name, data);
+    central.push(new Uint8Array(entry.buffer), name);
+    offset += 30 + name.length + data.length;
+  });
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, new Uint8Array(end.buffer)] as BlobPart[], {
+    type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  });
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/[<>&"]/g, (c) => ({ "<": "&lt;", ">": "&gt;", "&": "&amp;", '"': "&quot;" })[c] as string);
+
+const columnName = (index: number): string =>
+  index < 26 ? String.fromCharCode(65 + index) : columnName(Math.floor(index / 26) - 1) + columnName(index % 26);
+
+// Text that looks numeric, such as the code "0012", stays text so it keeps its leading zeros.
+const xlsxCell = (value: ExportCell, ref: string, style = 0) => {
+  const s = style ? ` s="${style}"` : "";
+  if (typeof value === "number" && Number.isFinite(value)) return `<c r="${ref}"${s}><v>${value}</v></c>`;
+  return `<c r="${ref}"${s} t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+};
+
+export const toXlsx = (table: ExportTable): Blob => {
+  const headerRow = 4;
+  const rows = [
+    `<row r="1">${xlsxCell(table.title, "A1", 1)}</row>`,
+    `<row r="2">${xlsxCell(`Generado: ${formatTimestamp(table.generatedAt)}`, "A2")}</row>`,
+    `<row r="${headerRow}">${table.headers.map((h, i) => xlsxCell(h, `${columnName(i)}${headerRow}`, 1)).join("")}</row>`,
+    ...table.rows.map((row, r) => {
+      const rowNumber = headerRow + 1 + r;
+      return `<row r="${rowNumber}">${row.map((v, i) => xlsxCell(v, `${columnName(i)}${rowNumber}`)).join("")}</row>`;
+    }),
+  ];
+  const widths = table.headers.map((h, i) =>
+    Math.min(60, Math.max(h.length, ...table.rows.map((row) => String(row[i] ?? "").length)) + 2)
+  );
+  const cols = widths.map((w, i) => `<col min="${i + 1}" max="${i + 1}" width="${w}" customWidth="1"/>`).join("");
+  const sheetName = escapeXml(table.title.replace(/[\\/?*[\]:]/g, " ").slice(0, 31) || "Reporte");
+
+  return buildZip(
+    [
+      {
+        name: "[Content_Types].xml",
+        content:
+          '<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/></Types>',
+      },
+      {
+        name: "_rels/.rels",
+        content:
+          '<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>',
+      },
+      {
+        name: "xl/workbook.xml",
+        content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="${sheetName}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+      },
+      {
+        name: "xl/_rels/workbook.xml.rels",
+        content:
+          '<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>',
+      },
+      {
+        name: "xl/styles.xml",
+        content:
+          '<?xml version="1.0" encoding="UTF-8" standalone="yes"?><styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts><fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills><borders count="1"><border/></borders><cellStyleXfs count="1"><xf/></cellStyleXfs><cellXfs count="2"><xf fontId="0"/><xf fontId="1" applyFont="1"/></cellXfs></styleSheet>',
+      },
+      {
+        name: "xl/worksheets/sheet1.xml",
+        content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><cols>${cols}</cols><sheetData>${rows.join("")}</sheetData></worksheet>`,
+      },
+    ],
+    table.generatedAt
+  );
+};
+
+// --- PDF (letter landscape, built-in Helvetica) ---
+
+const PAGE_WIDTH = 792;
+const PAGE_HEIGHT = 612;
+const MARGIN = 36;
+const FONT_SIZE = 8;
+const ROW_HEIGHT = 13;
+// Helvetica averages about half an em per character; good enough to size columns and truncate.
+const CHAR_WIDTH = FONT_SIZE * 0.5;
+
+// Standard fonts use WinAnsiEncoding, which matches Latin-1 for Spanish text; anything else becomes "?".
+// The no-break spaces that es-MX number and date formatting produces become plain spaces first.
+const pdfText = (value: string) =>
+  value
+    .replace(/[\u00a0\u202f]/g, " ")
+    .replace(/[^\x20-\xff]/g, "?")
+    .replace(/[\\()]/g, (c) => `\\${c}`);
+
+const fitText = (value: string, width: number) => {
+  const maxChars = Math.max(1, Math.floor(width / CHAR_WIDTH));
+  return value.length > maxChars ? `${value.slice(0, Math.max(1, maxChars - 3))}...` : value;
+};
+
+const textAt = (x: number, y: number, value: string, font = "F1", size = FONT_SIZE) =>
+  `BT /${font} ${size} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td (${pdfText(value)}) Tj ET`;
+
+export const toPdf = (table: ExportTable): Blob => {
+  const usable = PAGE_WIDTH - MARGIN * 2;
+  const lengths = table.headers.map((h, i) =>
+    Math.min(40, Math.max(h.length, 4, ...table.rows.map((row) => String(row[i] ?? "").length)))
+  );
+  const totalLength = lengths.reduce((sum, l) => sum + l, 0) || 1;
+  const widths = lengths.map((l) => (l / totalLength) * usable);
+  const xs = widths.map((_, i) => MARGIN + widths.slice(0, i).reduce((sum, w) => sum + w, 0));
+
+  const tableTop = PAGE_HEIGHT - MARGIN - 44;
+  const rowsPerPage = Math.max(1, Math.floor((tableTop - MARGIN - 20) / ROW_HEIGHT) - 1);
+  const pageCount = Math.max(1, Math.ceil(table.rows.length / rowsPerPage));
+  const generated = `Generado: ${formatTimestamp(table.generatedAt)}`;
+
+  const contents = Array.from({ length: pageCount }, (_, page) => {
+    const ops = [
+      textAt(MARGIN, PAGE_HEIGHT - MARGIN - 14, table.title, "F2", 14),
+      textAt(MARGIN, PAGE_HEIGHT - MARGIN - 28, generated),
+      ...table.headers.map((h, i) => textAt(xs[i] + 2, tableTop, fitText(h, widths[i] - 4), "F2")),
+      `0.5 w ${MARGIN} ${tableTop - 4} m ${PAGE_WIDTH - MARGIN} ${tableTop - 4} l S`,
+    ];
+    table.rows.slice(page * rowsPerPage, (page + 1) * rowsPerPage).forEach((row, r) => {
+      const y = tableTop - ROW_HEIGHT * (r + 1);
+      row.forEach((value, i) => ops.push(textAt(xs[i] + 2, y, fitText(String(value), widths[i] - 4))));
+    });
+    ops.push(textAt(PAGE_WIDTH - MARGIN - 60, MARGIN - 12, `Página ${page + 1} de ${pageCount}`));
+    return ops.join("\n");
+  });
+
+  // Object layout: 1 catalog, 2 page tree, 3-4 fonts, then a page and its content stream per page.
+  const objects: string[] = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${contents.map((_, i) => `${5 + i * 2} 0 R`).join(" ")}] /Count ${pageCount} >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+  ];
+  contents.forEach((content, i) => {
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + i * 2} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    );
+  });
+
+  let pdf = "%PDF-1.4\n";
+  const offsets = objects.map((body, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n \n`).join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF`;
+
+  // Every character is below 0x100 at this point, so one byte per character keeps the xref offsets valid.
+  return new Blob([Uint8Array.from(pdf, (c) => c.charCodeAt(0))], { type: "application/pdf" });
+};
+
+const WRITERS: Record<ExportFormat, (table: ExportTable) => Blob> = {
+  csv: toCsv,
+  xlsx: toXlsx,
+  pdf: toPdf,
+};
+
+export const downloadTable = (table: ExportTable, format: ExportFormat) => {
+  const url = URL.createObjectURL(WRITERS[format](table));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = exportFileName(table, format);
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,70 @@
+import type { LlmProvider } from "./llmService";
+
+// Canned structured queries for demos and for working offline. The first pattern that matches the
+// normalized question wins, so the same question always gets the same answer.
+const FAKE_RESPONSES: { pattern: RegExp; query: object }[] = [
+  {
+    pattern: /por vencer|vencen|vigencia/,
+    query: {
+      tabla: "contratos",
+      filtros: [{ campo: "contratos.estado_vigencia", operador: "=", valor: "Por vencer" }],
+      seleccionar: ["contratos.contrato", "contratos.proveedor", "contratos.fin_vigencia", "contratos.saldo"],
+      ordenar_por: [{ campo: "contratos.fin_vigencia", direccion: "asc" }],
+    },
+  },
+  {
+    pattern: /agotad/,
+    query: {
+      tabla: "adjudicados",
+      unir: ["articulos"],
+      filtros: [{ campo: "adjudicados.estatus_cantidad", operador: "=", valor: "AGOTADO" }],
+      seleccionar: ["adjudicados.contrato", "articulos.descripcion", "adjudicados.cantidad_maxima"],
+    },
+  },
+  {
+    pattern: /proveedor/,
+    query: {
+      tabla: "adjudicados",
+      unir: ["contratos"],
+      agrupar_por: ["contratos.proveedor"],
+      agregados: [
+        { funcion: "contar", alias: "articulos_adjudicados" },
+        { funcion: "sumar", campo: "adjudicados.importe_maximo", alias: "importe_maximo" },
+      ],
+      ordenar_por: [{ campo: "importe_maximo", direccion: "desc" }],
+    },
+  },
+  {
+    pattern: /car[oa]s/,
+    query: {
+      tabla: "articulos",
+      seleccionar: ["articulos.codigo", "articulos.descripcion", "articulos.unidad_medida", "articulos.precio_medio"],
+      ordenar_por: [{ campo: "articulos.precio_medio", direccion: "desc" }],
+      limite: 10,
+    },
+  },
+  {
+    pattern: /contrato/,
+    query: {
+      tabla: "contratos",
+      seleccionar: ["contratos.contrato", "contratos.proveedor", "contratos.monto_maximo", "contratos.ejercido", "contratos.estado_vigencia"],
+      ordenar_por: [{ campo: "contratos.monto_maximo", direccion: "desc" }],
+    },
+  },
+];
+
+const FALLBACK_QUERY = {
+  tabla: "articulos",
+  seleccionar: ["articulos.codigo", "articulos.descripcion", "articulos.unidad_medida", "articulos.precio_medio"],
+  limite: 10,
+};
+
+export const createFakeProvider = (): LlmProvider => ({
+  id: "fake",
+  model: "fake",
+  complete: async ({ input }) => {
+    const question = input.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+    const match = FAKE_RESPONSES.find((r) => r.pattern.test(question));
+    return JSON.stringify(match?.query ?? FALLBACK_QUERY);
+  },
+});
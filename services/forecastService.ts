@@ -0,0 +1,121 @@
+import type { Adjudicado, Articulo, Contrato, Proveedor } from "../types";
+import { daysUntil, formatDate, getContractValidity, isContractActive, parseDate } from "./dateService";
+
+export type RiesgoAgotamiento = "agotado" | "agotamiento_anticipado" | "subconsumo" | "en_rango";
+
+export const RIESGO_LABELS: Record<RiesgoAgotamiento, string> = {
+  agotado: "Agotado",
+  agotamiento_anticipado: "Se agota antes del fin",
+  subconsumo: "Subconsumo proyectado",
+  en_rango: "En rango",
+};
+
+export const RIESGO_ORDEN: Record<RiesgoAgotamiento, number> = {
+  agotado: 0,
+  agotamiento_anticipado: 1,
+  subconsumo: 2,
+  en_rango: 3,
+};
+
+// Projected consumption below this share of cantidad_maxima counts as under-consumed, even above the minimum.
+export const PORCENTAJE_SUBCONSUMO = 50;
+
+export interface DepletionForecastRow {
+  id_adjudicado: number;
+  contrato: string;
+  proveedor: string;
+  articulo: string;
+  unidad: string;
+  cantidad_minima: number;
+  cantidad_maxima: number;
+  cantidad_consumida: number;
+  cantidad_disponible: number;
+  fin_vigencia: string;
+  // Days since inicio_vigencia, today included.
+  dias_transcurridos: number;
+  // Days left after today; 0 on the last day of the contract.
+  dias_restantes: number;
+  // Average units consumed per day so far.
+  tasa_diaria: number;
+  // Days until the available quantity reaches zero at the current rate; null when nothing is being consumed.
+  dias_para_agotar: number | null;
+  fecha_agotamiento: string | null;
+  // Consumption expected by fin_vigencia at the current rate, capped at cantidad_maxima.
+  consumo_proyectado: number;
+  porcentaje_proyectado: number;
+  riesgo: RiesgoAgotamiento;
+}
+
+type ContratoConAdjudicados = Contrato & {
+  proveedor?: Proveedor;
+  adjudicados: (Adjudicado & { articulo?: Articulo })[];
+};
+
+const classify = (
+  adj: Adjudicado,
+  dias_para_agotar: number | null,
+  dias_restantes: number,
+  consumo_proyectado: number
+): RiesgoAgotamiento => {
+  if (adj.cantidad_disponible <= 0) return "agotado";
+  if (dias_para_agotar !== null && dias_para_agotar < dias_restantes) return "agotamiento_anticipado";
+  if (
+    consumo_proyectado < adj.cantidad_minima ||
+    consumo_proyectado < (adj.cantidad_maxima * PORCENTAJE_SUBCONSUMO) / 100
+  ) {
+    return "subconsumo";
+  }
+  return "en_rango";
+};
+
+// Projects every awarded item of the active contracts linearly: the average daily consumption since
+// inicio_vigencia is assumed to hold until fin_vigencia. Sorted from most to least urgent.
+export const buildDepletionForecast = (contratos: ContratoConAdjudicados[], today: Date): DepletionForecastRow[] =>
+  contratos
+    .filter((contrato) => isContractActive(getContractValidity(contrato, today)))
+    .flatMap((contrato) => {
+      // Active contracts always have valid dates.
+      const inicio = parseDate(contrato.inicio_vigencia)!;
+      const fin = parseDate(contrato.fin_vigencia)!;
+      const dias_transcurridos = 1 - daysUntil(inicio, today);
+      const dias_restantes = daysUntil(fin, today);
+
+      return contrato.adjudicados.map((adj) => {
+        const tasa_diaria = adj.cantidad_consumida / dias_transcurridos;
+        const dias_para_agotar =
+          tasa_diaria > 0 ? Math.max(adj.cantidad_disponible, 0) / tasa_diaria : null;
+        const consumo_proyectado = Math.min(
+          adj.cantidad_consumida + tasa_diaria * dias_restantes,
+          Math.max(adj.cantidad_maxima, adj.cantidad_consumida)
+        );
+        return {
+          id_adjudicado: adj.id_adjudicado,
+          contrato: contrato.contrato,
+          proveedor: contrato.proveedor?.proveedor ?? contrato.proveedor_fk,
+          articulo: adj.articulo?.descripcion_articulo ?? String(adj.codigo_fk),
+          unidad: adj.articulo?.unidad_medida ?? "",
+          cantidad_minima: adj.cantidad_minima,
+          cantidad_maxima: adj.cantidad_maxima,
+          cantidad_consumida: adj.cantidad_consumida,
+          cantidad_disponible: adj.cantidad_disponible,
+          fin_vigencia: contrato.fin_vigencia,
+          dias_transcurridos,
+          dias_restantes,
+          tasa_diaria,
+          dias_para_agotar,
+          fecha_agotamiento:
+            dias_para_agotar === null
+              ? null
+              : formatDate(new Date(today.getFullYear(), today.getMonth(), today.getDate() + Math.ceil(dias_para_agotar))),
+          consumo_proyectado,
+          porcentaje_proyectado: adj.cantidad_maxima > 0 ? (consumo_proyectado / adj.cantidad_maxima) * 100 : 0,
+          riesgo: classify(adj, dias_para_agotar, dias_restantes, consumo_proyectado),
+        };
+      });
+    })
+    .sort(
+      (a, b) =>
+        RIESGO_ORDEN[a.riesgo] - RIESGO_ORDEN[b.riesgo] ||
+        (a.dias_para_agotar ?? Infinity) - (b.dias_para_agotar ?? Infinity) ||
+        a.porcentaje_proyectado - b.porcentaje_proyectado
+    );
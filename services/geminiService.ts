@@ -0,0 +1,26 @@
+import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import type { LlmProvider } from "./llmService";
+
+export const createGeminiProvider = (apiKey: string, model: string): LlmProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    id: "gemini",
+    model,
+    complete: async ({ instructions, input }) => {
+      try {
+        const response: GenerateContentResponse = await ai.models.generateContent({
+          model,
+          contents: `${instructions}\n\nUser Query: "${input}"\n\nResult (JSON only):`,
+          config: {
+            responseMimeType: "application/json",
+            temperature: 0,
+          },
+        });
+        return response.text ?? "";
+      } catch (error) {
+        console.error("Error querying Gemini API:", error);
+        throw new Error("No se pudo consultar a Gemini. Revisa la clave de API y la conexión.");
+      }
+    },
+  };
+};
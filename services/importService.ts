@@ -0,0 +1,260 @@
+import type { Adjudicado, Articulo, Contrato } from "../types";
+import { prepareRecord } from "./entityService";
+import { deriveQuantities } from "./ledgerService";
+import type { Sheet } from "./spreadsheetService";
+import { STORE_KEYS } from "./storageService";
+import type { StoreData, StoreRecords } from "./storageService";
+import { findSupplierByName } from "./supplierService";
+import { normalizeArticleUnit } from "./unitService";
+import { formatDate, parseDate } from "./dateService";
+import { roundCents } from "./taxService";
+
+export type ImportEntity = "articulos" | "contratos" | "adjudicados";
+
+export interface ImportField {
+  key: string;
+  label: string;
+  type: "text" | "number" | "date";
+  required: boolean;
+  // Left blank or unmapped, the value is computed from the rest of the row instead of defaulting to 0.
+  derived?: boolean;
+  // Header spellings seen in the office's spreadsheets, compared after normalization.
+  aliases: string[];
+}
+
+export type ColumnMapping = Record<string, number | null>;
+
+export interface ImportRow<K extends ImportEntity = ImportEntity> {
+  rowNumber: number;
+  values: Partial<StoreRecords[K]>;
+  errors: string[];
+  action: "crear" | "actualizar";
+}
+
+export const IMPORT_FIELDS: Record<ImportEntity, ImportField[]> = {
+  articulos: [
+    { key: "codigo", label: "Código", type: "number", required: true, aliases: ["codigo", "clave", "codigo articulo"] },
+    { key: "descripcion_articulo", label: "Descripción", type: "text", required: true, aliases: ["descripcion", "articulo", "descripcion articulo"] },
+    { key: "unidad_medida", label: "Unidad de Medida", type: "text", required: true, aliases: ["unidad", "unidad medida", "u m"] },
+    { key: "partida_especifica", label: "Partida Específica", type: "number", required: true, aliases: ["partida", "partida especifica"] },
+    { key: "precio_medio", label: "Precio Medio", type: "number", required: true, aliases: ["precio", "precio medio", "precio referencia"] },
+    { key: "ultima_fecha", label: "Última Fecha", type: "date", required: false, aliases: ["fecha", "ultima fecha"] },
+  ],
+  contratos: [
+    { key: "contrato", label: "Contrato", type: "text", required: true, aliases: ["contrato", "numero contrato", "no contrato"] },
+    { key: "licitacion_fk", label: "Licitación", type: "text", required: true, aliases: ["licitacion", "procedimiento"] },
+    { key: "proveedor_fk", label: "Proveedor", type: "text", required: true, aliases: ["proveedor", "razon social"] },
+    { key: "monto_maximo", label: "Monto Máximo", type: "number", required: true, aliases: ["monto maximo", "monto", "importe maximo"] },
+    { key: "inicio_vigencia", label: "Inicio Vigencia", type: "date", required: true, aliases: ["inicio vigencia", "inicio", "fecha inicio"] },
+    { key: "fin_vigencia", label: "Fin Vigencia", type: "date", required: true, aliases: ["fin vigencia", "fin", "fecha fin", "termino"] },
+  ],
+  adjudicados: [
+    { key: "contrato_fk", label: "Contrato", type: "text", required: true, aliases: ["contrato", "numero contrato"] },
+    { key: "codigo_fk", label: "Código de Artículo", type: "number", required: true, aliases: ["codigo", "clave", "codigo articulo"] },
+    { key: "cantidad_minima", label: "Cantidad Mínima", type: "number", required: true, aliases: ["cantidad minima", "minima", "minimo"] },
+    { key: "cantidad_maxima", label: "Cantidad Máxima", type: "number", required: true, aliases: ["cantidad maxima", "maxima", "maximo"] },
+    { key: "precio_unitario", label: "Precio Unitario", type: "number", required: true, aliases: ["precio unitario", "precio", "p u"] },
+    { key: "iva", label: "IVA (%)", type: "number", required: false, aliases: ["iva"] },
+    { key: "ieps", label: "IEPS (%)", type: "number", required: false, aliases: ["ieps"] },
+    { key: "importe_maximo", label: "Importe Máximo", type: "number", required: false, derived: true, aliases: ["importe maximo", "importe"] },
+  ],
+};
+
+const normalizeHeader = (header: string) =>
+  header
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+export const autoMapColumns = (entity: ImportEntity, headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping: ColumnMapping = {};
+  IMPORT_FIELDS[entity].forEach((field) => {
+    const candidates = [normalizeHeader(field.key), ...field.aliases];
+    const index = candidates
+      .map((alias) => normalized.findIndex((h, i) => h === alias && !used.has(i)))
+      .find((i) => i !== -1);
+    mapping[field.key] = index ?? null;
+    if (index !== undefined) used.add(index);
+  });
+  return mapping;
+};
+
+// Spreadsheet dates arrive as Excel serial numbers unless the cell was typed as text.
+const excelSerialToText = (serial: number): string => formatDate(new Date(1899, 11, 30 + Math.round(serial)));
+
+const parseCell = (field: ImportField, raw: string): { value?: unknown; error?: string } => {
+  const text = raw.trim();
+  if (!text) {
+    if (field.required) return { error: `${field.label} es obligatorio` };
+    if (field.derived) return {};
+    return { value: field.type === "number" ? 0 : null };
+  }
+  if (field.type === "number") {
+    // "1,250.50" uses commas for thousands; "12,5" (from semicolon-separated files) uses a decimal comma.
+    const plain = text.replace(/[$\s]/g, "");
+    const num = Number(/^-?\d+,\d{1,2}$/.test(plain) ? plain.replace(",", ".") : plain.replace(/,/g, ""));
+    return Number.isFinite(num) ? { value: num } : { error: `${field.label} no es numérico ("${text}")` };
+  }
+  if (field.type === "date") {
+    if (/^\d+(\.\d+)?$/.test(text)) return { value: excelSerialToText(Number(text)) };
+    return parseDate(text) ? { value: text } : { error: `${field.label} no es una fecha válida ("${text}")` };
+  }
+  return { value: text };
+};
+
+// Natural key used to recognise a row that already exists, so re-importing updates instead of duplicating.
+const naturalKey = (entity: ImportEntity, record: Partial<Adjudicado & Articulo & Contrato>): string => {
+  switch (entity) {
+    case "articulos":
+      return String(record.codigo);
+    case "contratos":
+      return String(record.contrato);
+    case "adjudicados":
+      return `${record.contrato_fk}|${record.codigo_fk}`;
+  }
+};
+
+const findExisting = <K extends ImportEntity>(data: StoreData, entity: K, values: Partial<StoreRecords[K]>) => {
+  const key = naturalKey(entity, values as object);
+  return (data[entity] as StoreRecords[K][]).find((r) => naturalKey(entity, r as object) === key);
+};
+
+// Also links contracts to their supplier's id, since the file names suppliers by text.
+const checkReferences = (data: StoreData, entity: ImportEntity, values: Record<string, unknown>): string[] => {
+  const errors: string[] = [];
+  if (entity === "contratos") {
+    const proveedor = findSupplierByName(data.proveedores, String(values.proveedor_fk));
+    if (proveedor) {
+      values.id_proveedor_fk = proveedor.id_proveedor;
+      values.proveedor_fk = proveedor.proveedor;
+    } else {
+      errors.push(`El proveedor "${values.proveedor_fk}" no existe`);
+    }
+    if (!data.licitaciones.some((l) => l.licitacion === values.licitacion_fk)) {
+      errors.push(`La licitación "${values.licitacion_fk}" no existe`);
+    }
+  }
+  if (entity === "adjudicados") {
+    if (!data.contratos.some((c) => c.contrato === values.contrato_fk)) {
+      errors.push(`El contrato "${values.contrato_fk}" no existe`);
+    }
+    if (!data.articulos.some((a) => a.codigo === values.codigo_fk)) {
+      errors.push(`El artículo ${values.codigo_fk} no existe`);
+    }
+    if (Number(values.cantidad_minima) > Number(values.cantidad_maxima)) {
+      errors.push("La cantidad mínima excede la máxima");
+    }
+  }
+  return errors;
+};
+
+export const buildImportPreview = <K extends ImportEntity>(
+  data: StoreData,
+  entity: K,
+  sheet: Sheet,
+  mapping: ColumnMapping
+): ImportRow<K>[] => {
+  const fields = IMPORT_FIELDS[entity];
+  const seen = new Map<string, number>();
+
+  return sheet.slice(1).map((cells, index) => {
+    const rowNumber = index + 2;
+    const values: Record<string, unknown> = {};
+    const errors: string[] = [];
+
+    fields.forEach((field) => {
+      const column = mapping[field.key];
+      if (column === null || column === undefined) {
+        if (field.required) errors.push(`La columna de ${field.label} no está asignada`);
+        return;
+      }
+      const parsed = parseCell(field, cells[column] ?? "");
+      if (parsed.error) errors.push(parsed.error);
+      else if ("value" in parsed) values[field.key] = parsed.value;
+    });
+
+    if (entity === "adjudicados" && errors.length === 0) {
+      const importe = roundCents(Number(values.cantidad_maxima) * Number(values.precio_unitario));
+      if (values.importe_maximo !== undefined && Math.abs(Number(values.importe_maximo) - importe) > 0.005) {
+        errors.push(`El importe máximo (${values.importe_maximo}) no coincide con cantidad máxima × precio unitario (${importe})`);
+      }
+      values.importe_maximo = importe;
+    }
+    if (errors.length === 0) {
+      errors.push(...checkReferences(data, entity, values));
+    }
+
+    const key = naturalKey(entity, values);
+    if (seen.has(key)) {
+      errors.push(`Duplica la fila ${seen.get(key)} del archivo`);
+    } else {
+      seen.set(key, rowNumber);
+    }
+
+    const existing = findExisting(data, entity, values as Partial<StoreRecords[K]>);
+    // Updates get the same checks as the edit form, including the fields fixed by a convenio and a
+    // maximum below what the ledger shows consumed.
+    if (errors.length === 0 && existing && entity !== "articulos") {
+      try {
+        prepareExistingRow(data, entity, existing, values as Partial<StoreRecords[K]>);
+      } catch (e) {
+        errors.push((e as Error).message);
+      }
+    }
+
+    return {
+      rowNumber,
+      values: values as Partial<StoreRecords[K]>,
+      errors,
+      action: existing ? "actualizar" : "crear",
+    };
+  });
+};
+
+const prepareExistingRow = <K extends ImportEntity>(
+  data: StoreData,
+  entity: K,
+  existing: StoreRecords[K],
+  values: Partial<StoreRecords[K]>
+): StoreRecords[K] => {
+  const key = STORE_KEYS[entity];
+  return prepareRecord(data, entity, { ...values, [key]: existing[key] }, false);
+};
+
+// Turns the valid preview rows into complete records: updates keep their key, new rows get the next free id.
+export const buildImportRecords = <K extends ImportEntity>(
+  data: StoreData,
+  entity: K,
+  rows: ImportRow<K>[]
+): StoreRecords[K][] => {
+  const key = STORE_KEYS[entity];
+  let nextId = (data[entity] as StoreRecords[K][]).reduce((max, r) => Math.max(max, Number(r[key]) || 0), 0);
+
+  return rows
+    .filter((row) => row.errors.length === 0)
+    .map((row) => {
+      const existing = findExisting(data, entity, row.values);
+      if (entity === "articulos") {
+        // Files carry no unit mapping, so it is derived again unless the unit and description are unchanged.
+        const merged = { estatus: null, imagen_producto: null, ...existing, ...row.values } as Articulo;
+        const previo = existing as Articulo | undefined;
+        const sinCambios =
+          previo?.unidad_medida === merged.unidad_medida &&
+          previo.descripcion_articulo === merged.descripcion_articulo &&
+          previo.unidad_codigo !== undefined;
+        return (sinCambios ? merged : normalizeArticleUnit(merged)) as StoreRecords[K];
+      }
+      if (existing) {
+        return prepareExistingRow(data, entity, existing, row.values);
+      }
+      nextId += 1;
+      const record = { ...row.values, [key]: nextId } as unknown as StoreRecords[K];
+      return entity === "adjudicados"
+        ? (deriveQuantities(record as Adjudicado, 0) as StoreRecords[K])
+        : record;
+    });
+};
@@ -0,0 +1,131 @@
+import type {
+  Adjudicado,
+  MovimientoAlmacen,
+  NuevoMovimientoAlmacen,
+  OrdenSuministro,
+} from "../types";
+
+export interface KardexRow extends MovimientoAlmacen {
+  entrada: number;
+  salida: number;
+  existencia: number;
+  costo_promedio: number;
+  valor: number;
+}
+
+export interface StockLevel {
+  codigo: number;
+  existencia: number;
+  costo_promedio: number;
+  valor: number;
+}
+
+const byFecha = (a: MovimientoAlmacen, b: MovimientoAlmacen) =>
+  a.fecha.localeCompare(b.fecha) || a.id_movimiento_almacen - b.id_movimiento_almacen;
+
+// Chronological in/out history of one article with running balance and weighted average cost.
+export const buildKardex = (movimientos: MovimientoAlmacen[], codigo: number): KardexRow[] => {
+  let existencia = 0;
+  let costoPromedio = 0;
+  return movimientos
+    .filter((mov) => mov.codigo_fk === codigo)
+    .sort(byFecha)
+    .map((mov) => {
+      if (mov.tipo === "ENTRADA") {
+        const valorPrevio = existencia * costoPromedio;
+        existencia += mov.cantidad;
+        costoPromedio = existencia > 0 ? (valorPrevio + mov.cantidad * mov.costo_unitario) / existencia : 0;
+      } else {
+        existencia -= mov.cantidad;
+      }
+      return {
+        ...mov,
+        entrada: mov.tipo === "ENTRADA" ? mov.cantidad : 0,
+        salida: mov.tipo === "SALIDA" ? mov.cantidad : 0,
+        existencia,
+        costo_promedio: costoPromedio,
+        valor: existencia * costoPromedio,
+      };
+    });
+};
+
+export const computeStock = (movimientos: MovimientoAlmacen[]): Map<number, StockLevel> => {
+  const codigos = Array.from(new Set(movimientos.map((mov) => mov.codigo_fk)));
+  return new Map(
+    codigos.map((codigo) => {
+      const kardex = buildKardex(movimientos, codigo);
+      const last = kardex[kardex.length - 1];
+      return [
+        codigo,
+        { codigo, existencia: last.existencia, costo_promedio: last.costo_promedio, valor: last.valor },
+      ];
+    })
+  );
+};
+
+// Issues leave at the current weighted average cost; receipts keep the cost they were given.
+export const createWarehouseMovement = (
+  movimientos: MovimientoAlmacen[],
+  draft: NuevoMovimientoAlmacen
+): MovimientoAlmacen => {
+  if (!Number.isFinite(draft.cantidad) || draft.cantidad <= 0) {
+    throw new Error("La cantidad del movimiento debe ser mayor a cero.");
+  }
+  if (!draft.referencia.trim()) {
+    throw new Error("El movimiento requiere una referencia.");
+  }
+
+  const stock = computeStock(movimientos).get(draft.codigo_fk);
+  let costoUnitario = draft.costo_unitario;
+  if (draft.tipo === "ENTRADA") {
+    if (!Number.isFinite(costoUnitario) || costoUnitario < 0) {
+      throw new Error("La entrada requiere un costo unitario válido.");
+    }
+  } else {
+    const existencia = stock?.existencia ?? 0;
+    if (draft.cantidad > existencia) {
+      throw new Error(
+        `La salida de ${draft.cantidad} excede la existencia (${existencia}) del artículo ${draft.codigo_fk}.`
+      );
+    }
+    if (!draft.area?.trim()) {
+      throw new Error("La salida requiere el área que consume.");
+    }
+    costoUnitario = stock?.costo_promedio ?? 0;
+  }
+
+  const nextId =
+    movimientos.reduce((max, mov) => Math.max(max, mov.id_movimiento_almacen), 0) + 1;
+  return {
+    ...draft,
+    referencia: draft.referencia.trim(),
+    costo_unitario: costoUnitario,
+    id_movimiento_almacen: nextId,
+  };
+};
+
+// Appends the receipts of a supply order, which enters the warehouse at the unit price the order was issued with.
+export const buildOrderReceipts = (
+  orden: OrdenSuministro,
+  adjudicados: Adjudicado[],
+  movimientos: MovimientoAlmacen[],
+  fecha: string,
+  usuario_fk: number | null
+): MovimientoAlmacen[] =>
+  orden.partidas.reduce((acc, partida) => {
+    const adjudicado = adjudicados.find((adj) => adj.id_adjudicado === partida.adjudicado_fk);
+    if (!adjudicado) return acc;
+    return [
+      ...acc,
+      createWarehouseMovement(acc, {
+        codigo_fk: adjudicado.codigo_fk,
+        tipo: "ENTRADA",
+        fecha,
+        cantidad: partida.cantidad,
+        costo_unitario: partida.condiciones?.precio_unitario ?? adjudicado.precio_unitario,
+        referencia: orden.folio,
+        area: null,
+        usuario_fk,
+      }),
+    ];
+  }, movimientos);
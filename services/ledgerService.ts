@@ -0,0 +1,87 @@
+import type { Adjudicado, MovimientoAdjudicado, NuevoMovimientoAdjudicado } from "../types";
+
+export const ESTATUS_DISPONIBLE = "DISPONIBLE";
+export const ESTATUS_AGOTADO = "AGOTADO";
+export const REFERENCIA_SALDO_INICIAL = "SALDO INICIAL";
+
+// Consumption recorded in data.ts before the ledger existed is carried over
+// as a single opening movement per awarded item.
+export const buildOpeningMovements = (
+  adjudicados: Adjudicado[],
+  fecha: string
+): MovimientoAdjudicado[] =>
+  adjudicados
+    .filter((adj) => adj.cantidad_consumida > 0)
+    .map((adj, index) => ({
+      id_movimiento: index + 1,
+      adjudicado_fk: adj.id_adjudicado,
+      fecha,
+      cantidad: adj.cantidad_consumida,
+      usuario_fk: null,
+      referencia: REFERENCIA_SALDO_INICIAL,
+    }));
+
+export const sumConsumptionByAdjudicado = (
+  movimientos: MovimientoAdjudicado[]
+): Map<number, number> => {
+  const totals = new Map<number, number>();
+  movimientos.forEach((mov) => {
+    totals.set(mov.adjudicado_fk, (totals.get(mov.adjudicado_fk) || 0) + mov.cantidad);
+  });
+  return totals;
+};
+
+export const deriveQuantities = <T extends Adjudicado>(adjudicado: T, consumida: number): T => {
+  const disponible = adjudicado.cantidad_maxima - consumida;
+  return {
+    ...adjudicado,
+    cantidad_consumida: consumida,
+    cantidad_disponible: disponible,
+    estatus_cantidad: disponible > 0 ? ESTATUS_DISPONIBLE : ESTATUS_AGOTADO,
+  };
+};
+
+// Replaces the stored consumed/available/status figures with the ones implied by the ledger.
+export const applyLedger = <T extends Adjudicado>(
+  adjudicados: T[],
+  movimientos: MovimientoAdjudicado[]
+): T[] => {
+  const totals = sumConsumptionByAdjudicado(movimientos);
+  return adjudicados.map((adj) => deriveQuantities(adj, totals.get(adj.id_adjudicado) || 0));
+};
+
+// `reservadas` holds quantities already committed elsewhere (e.g. approved supply orders)
+// that a direct consumption must not eat into.
+export const createMovement = (
+  adjudicados: Adjudicado[],
+  movimientos: MovimientoAdjudicado[],
+  draft: NuevoMovimientoAdjudicado,
+  reservadas: Map<number, number> = new Map()
+): MovimientoAdjudicado => {
+  const adjudicado = adjudicados.find((adj) => adj.id_adjudicado === draft.adjudicado_fk);
+  if (!adjudicado) {
+    throw new Error(`No existe el adjudicado ${draft.adjudicado_fk}.`);
+  }
+  if (!Number.isFinite(draft.cantidad) || draft.cantidad <= 0) {
+    throw new Error("La cantidad del movimiento debe ser mayor a cero.");
+  }
+  if (!draft.referencia.trim()) {
+    throw new Error("El movimiento requiere una referencia.");
+  }
+
+  const consumida = sumConsumptionByAdjudicado(movimientos).get(adjudicado.id_adjudicado) || 0;
+  const disponible =
+    adjudicado.cantidad_maxima - consumida - (reservadas.get(adjudicado.id_adjudicado) || 0);
+  if (draft.cantidad > disponible) {
+    throw new Error(
+      `El consumo de ${draft.cantidad} excede la cantidad disponible (${disponible}) del adjudicado ${adjudicado.id_adjudicado}.`
+    );
+  }
+
+  const nextId = movimientos.reduce((max, mov) => Math.max(max, mov.id_movimiento), 0) + 1;
+  return {
+    ...draft,
+    referencia: draft.referencia.trim(),
+    id_movimiento: nextId,
+  };
+};
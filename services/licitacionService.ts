@@ -0,0 +1,86 @@
+import type { Contrato, Documento, Licitacion } from "../types";
+
+export type EtapaLicitacion = "convocatoria" | "dudas" | "apertura" | "fallo";
+
+export interface EtapaDef {
+  etapa: EtapaLicitacion;
+  label: string;
+  documento: "bases_pdf" | "aclaracion_dudas_pdf" | "apertura_propuestas_pdf" | "acta_fallo_pdf";
+  fecha: "fecha_convocatoria" | "fecha_dudas" | "fecha_apertura" | "fecha_fallo";
+}
+
+// Stages of a tender in the order they happen.
+export const ETAPAS_LICITACION: EtapaDef[] = [
+  { etapa: "convocatoria", label: "Convocatoria y Bases", documento: "bases_pdf", fecha: "fecha_convocatoria" },
+  { etapa: "dudas", label: "Junta de Aclaraciones", documento: "aclaracion_dudas_pdf", fecha: "fecha_dudas" },
+  { etapa: "apertura", label: "Apertura de Propuestas", documento: "apertura_propuestas_pdf", fecha: "fecha_apertura" },
+  { etapa: "fallo", label: "Fallo", documento: "acta_fallo_pdf", fecha: "fecha_fallo" },
+];
+
+export interface EtapaTimeline extends EtapaDef {
+  fechaValor: string | null;
+  documentoValor: string | null;
+  faltantes: ("documento" | "fecha")[];
+}
+
+const MAX_DOCUMENT_BYTES = 20 * 1024 * 1024;
+
+// Uploaded PDFs are referenced from the `*_pdf` fields as "documento:<id_documento>".
+// Any other value is what came with the source data (a file name or URL).
+const DOCUMENT_REF_PREFIX = "documento:";
+
+export const documentRef = (id_documento: number) => `${DOCUMENT_REF_PREFIX}${id_documento}`;
+
+export const parseDocumentRef = (value: string | null): number | null =>
+  value?.startsWith(DOCUMENT_REF_PREFIX) ? Number(value.slice(DOCUMENT_REF_PREFIX.length)) : null;
+
+const isBlank = (value: string | null | undefined) => value === null || value === undefined || value.trim() === "";
+
+export const buildTimeline = (licitacion: Licitacion): EtapaTimeline[] =>
+  ETAPAS_LICITACION.map((def) => {
+    const fechaValor = licitacion[def.fecha];
+    const documentoValor = licitacion[def.documento];
+    const faltantes: EtapaTimeline["faltantes"] = [];
+    if (isBlank(documentoValor)) faltantes.push("documento");
+    if (isBlank(fechaValor)) faltantes.push("fecha");
+    return { ...def, fechaValor, documentoValor, faltantes };
+  });
+
+export const countMissingItems = (licitacion: Licitacion) =>
+  buildTimeline(licitacion).reduce((sum, etapa) => sum + etapa.faltantes.length, 0);
+
+export const contractsFromLicitacion = <T extends Contrato>(contratos: T[], licitacion: Licitacion): T[] =>
+  contratos.filter((c) => c.licitacion_fk === licitacion.licitacion);
+
+// Builds the document record and the updated tender for an upload; the caller persists both.
+export const attachDocument = (
+  licitacion: Licitacion,
+  documentos: Documento[],
+  etapa: EtapaLicitacion,
+  file: File,
+  fecha: string
+): { documento: Documento; licitacion: Licitacion } => {
+  const def = ETAPAS_LICITACION.find((e) => e.etapa === etapa);
+  if (!def) {
+    throw new Error(`La etapa ${etapa} no existe.`);
+  }
+  if (file.type !== "application/pdf" && !/\.pdf$/i.test(file.name)) {
+    throw new Error("Solo se pueden adjuntar archivos PDF.");
+  }
+  if (file.size > MAX_DOCUMENT_BYTES) {
+    throw new Error("El archivo excede el tamaño máximo de 20 MB.");
+  }
+
+  const documento: Documento = {
+    id_documento: documentos.reduce((max, d) => Math.max(max, d.id_documento), 0) + 1,
+    nombre: file.name,
+    tipo: file.type || "application/pdf",
+    tamano: file.size,
+    fecha_carga: fecha,
+    contenido: file,
+  };
+  return {
+    documento,
+    licitacion: { ...licitacion, [def.documento]: documentRef(documento.id_documento) },
+  };
+};
@@ -0,0 +1,111 @@
+import { createFakeProvider } from "./fakeLlmService";
+import { createGeminiProvider } from "./geminiService";
+import { createOpenAiCompatibleProvider } from "./openAiCompatibleService";
+
+export type LlmProviderId = "gemini" | "openai" | "fake";
+
+export interface LlmRequest {
+  // Fixed instructions and context; `input` is what the user typed.
+  instructions: string;
+  input: string;
+}
+
+export interface LlmProvider {
+  id: LlmProviderId;
+  model: string;
+  // Resolves to the model's raw text, expected to be JSON.
+  complete: (request: LlmRequest) => Promise<string>;
+}
+
+export interface LlmSettings {
+  proveedor: LlmProviderId | "ninguno";
+  modelo: string;
+  apiKey: string;
+  // Only used by the OpenAI-compatible provider, e.g. http://localhost:11434/v1.
+  baseUrl: string;
+}
+
+export const LLM_PROVIDERS: Record<
+  LlmProviderId,
+  { nombre: string; modeloPorOmision: string; requiereClave: boolean; requiereUrl: boolean }
+> = {
+  gemini: { nombre: "Google Gemini", modeloPorOmision: "gemini-2.5-flash-preview-04-17", requiereClave: true, requiereUrl: false },
+  openai: { nombre: "Servidor compatible con OpenAI", modeloPorOmision: "llama3.1", requiereClave: false, requiereUrl: true },
+  fake: { nombre: "Respuestas de prueba (sin conexión)", modeloPorOmision: "fake", requiereClave: false, requiereUrl: false },
+};
+
+const SETTINGS_STORAGE_KEY = "sav-faa-llm";
+
+// Key baked in at build time from GEMINI_API_KEY; settings saved in the browser take precedence.
+const BUILD_GEMINI_KEY = process.env.API_KEY || "";
+
+export const DEFAULT_LLM_SETTINGS: LlmSettings = {
+  proveedor: BUILD_GEMINI_KEY ? "gemini" : "ninguno",
+  modelo: LLM_PROVIDERS.gemini.modeloPorOmision,
+  apiKey: "",
+  baseUrl: "",
+};
+
+export const loadLlmSettings = (): LlmSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) ?? "null") as Partial<LlmSettings> | null;
+    return { ...DEFAULT_LLM_SETTINGS, ...saved };
+  } catch {
+    return DEFAULT_LLM_SETTINGS;
+  }
+};
+
+export const saveLlmSettings = (settings: LlmSettings) =>
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+
+// Null when the settings are enough to build the provider; otherwise why the AI is not configured.
+export const getLlmConfigurationIssue = (settings: LlmSettings): string | null => {
+  if (settings.proveedor === "ninguno") return "No se ha elegido un proveedor de IA.";
+  const definicion = LLM_PROVIDERS[settings.proveedor];
+  if (definicion.requiereClave && !(settings.apiKey || (settings.proveedor === "gemini" && BUILD_GEMINI_KEY))) {
+    return `${definicion.nombre} requiere una clave de API.`;
+  }
+  if (definicion.requiereUrl && !settings.baseUrl.trim()) {
+    return `${definicion.nombre} requiere la URL del servidor.`;
+  }
+  return null;
+};
+
+export const createLlmProvider = (settings: LlmSettings): LlmProvider | null => {
+  if (settings.proveedor === "ninguno" || getLlmConfigurationIssue(settings)) return null;
+  const model = settings.modelo.trim() || LLM_PROVIDERS[settings.proveedor].modeloPorOmision;
+  switch (settings.proveedor) {
+    case "gemini":
+      return createGeminiProvider(settings.apiKey || BUILD_GEMINI_KEY, model);
+    case "openai":
+      return createOpenAiCompatibleProvider(settings.baseUrl.trim(), settings.apiKey, model);
+    case "fake":
+      return createFakeProvider();
+  }
+};
+
+// Models sometimes wrap JSON in a Markdown fence even when asked not to.
+export const parseJsonResponse = (text: string): unknown => {
+  let jsonStr = text.trim();
+  const match = jsonStr.match(/^```(\w*)?\s*\n?(.*?)\n?\s*```$/s);
+  if (match && match[2]) {
+    jsonStr = match[2].trim();
+  }
+  try {
+    return JSON.parse(jsonStr);
+  } catch {
+    throw new Error("La IA no respondió con un JSON válido.");
+  }
+};
+
+const QUERY_INSTRUCTIONS = `
+You are an expert data analyst for a government procurement system.
+Your task is to translate the user's question into a structured query over the tables below.
+You MUST only return the query as a single JSON object. Do not add any explanation or conversational text.
+Table, field and value names are in Spanish. The user queries will also be in Spanish.
+`.trim();
+
+// Asks the model for a structured query (see QUERY_SCHEMA_DOC in queryService); the app runs it locally
+// over the full dataset, so no records are sent.
+export const generateStructuredQuery = async (provider: LlmProvider, query: string, schema: string): Promise<unknown> =>
+  parseJsonResponse(await provider.complete({ instructions: `${QUERY_INSTRUCTIONS}\n\n${schema}`, input: query }));
@@ -0,0 +1,186 @@
+import type { Adjudicado, Articulo, CicloMenu, Contrato, Receta, TipoCicloMenu } from "../types";
+import { getContractValidity, isContractActive } from "./dateService";
+import type { StockLevel } from "./inventoryService";
+
+export const DIAS_POR_CICLO: Record<TipoCicloMenu, number> = {
+  SEMANAL: 7,
+  // A four-week cycle, the usual rotation for dining services.
+  MENSUAL: 28,
+};
+
+export const TIPO_CICLO_LABELS: Record<TipoCicloMenu, string> = {
+  SEMANAL: "Semanal (7 días)",
+  MENSUAL: "Mensual (28 días)",
+};
+
+const hasBaseUnit = (articulo: Articulo | undefined): articulo is Articulo & { contenido_neto: number } =>
+  !!articulo?.unidad_base && !!articulo.contenido_neto;
+
+// Unit in which a recipe states the article's quantity per portion.
+export const portionUnit = (articulo: Articulo | undefined): string =>
+  hasBaseUnit(articulo) ? articulo.unidad_base! : articulo?.unidad_medida ?? "";
+
+const toPurchaseUnits = (cantidad: number, articulo: Articulo | undefined): number =>
+  hasBaseUnit(articulo) ? cantidad / articulo.contenido_neto : cantidad;
+
+export const emptyMenuDays = (tipo: TipoCicloMenu): CicloMenu["dias"] =>
+  Array.from({ length: DIAS_POR_CICLO[tipo] }, (_, i) => ({ dia: i + 1, comensales: 0, recetas_fk: [] }));
+
+const nextId = <T>(records: T[], key: keyof T) => records.reduce((max, r) => Math.max(max, Number(r[key]) || 0), 0) + 1;
+
+const assertUniqueName = (nombre: string, others: { nombre: string }[], label: string) => {
+  if (!nombre) throw new Error(`${label} requiere un nombre.`);
+  const duplicado = others.find((o) => o.nombre.toLowerCase() === nombre.toLowerCase());
+  if (duplicado) throw new Error(`Ya existe ${label.toLowerCase()} con el nombre "${duplicado.nombre}".`);
+};
+
+export const prepareRecipe = (
+  recetas: Receta[],
+  articulos: Articulo[],
+  values: Omit<Receta, "id_receta"> & { id_receta?: number }
+): Receta => {
+  const nombre = values.nombre.trim();
+  assertUniqueName(nombre, recetas.filter((r) => r.id_receta !== values.id_receta), "La receta");
+  if (values.ingredientes.length === 0) throw new Error("La receta debe tener al menos un ingrediente.");
+  const codigos = new Set<number>();
+  values.ingredientes.forEach((ing) => {
+    if (!articulos.some((a) => a.codigo === ing.codigo_fk)) throw new Error(`No existe el artículo ${ing.codigo_fk}.`);
+    if (codigos.has(ing.codigo_fk)) throw new Error(`El artículo ${ing.codigo_fk} aparece más de una vez en la receta.`);
+    if (!Number.isFinite(ing.cantidad_por_racion) || ing.cantidad_por_racion <= 0) {
+      throw new Error(`La cantidad por ración del artículo ${ing.codigo_fk} debe ser mayor a cero.`);
+    }
+    codigos.add(ing.codigo_fk);
+  });
+  return { ...values, nombre, id_receta: values.id_receta ?? nextId(recetas, "id_receta") };
+};
+
+export const prepareMenu = (
+  menus: CicloMenu[],
+  recetas: Receta[],
+  values: Omit<CicloMenu, "id_menu"> & { id_menu?: number }
+): CicloMenu => {
+  const nombre = values.nombre.trim();
+  assertUniqueName(nombre, menus.filter((m) => m.id_menu !== values.id_menu), "El menú");
+  if (values.dias.length !== DIAS_POR_CICLO[values.tipo]) {
+    throw new Error(`Un menú ${values.tipo.toLowerCase()} debe tener ${DIAS_POR_CICLO[values.tipo]} días.`);
+  }
+  values.dias.forEach((dia) => {
+    if (!Number.isInteger(dia.comensales) || dia.comensales < 0) {
+      throw new Error(`Los comensales del día ${dia.dia} deben ser un entero no negativo.`);
+    }
+    dia.recetas_fk.forEach((id) => {
+      if (!recetas.some((r) => r.id_receta === id)) throw new Error(`La receta ${id} del día ${dia.dia} no existe.`);
+    });
+  });
+  return { ...values, nombre, id_menu: values.id_menu ?? nextId(menus, "id_menu") };
+};
+
+export const assertRecipeUnused = (menus: CicloMenu[], receta: Receta) => {
+  const menu = menus.find((m) => m.dias.some((d) => d.recetas_fk.includes(receta.id_receta)));
+  if (menu) throw new Error(`No se puede eliminar la receta "${receta.nombre}" porque la usa el menú "${menu.nombre}".`);
+};
+
+export type EstadoRequerimiento = "cubierto_almacen" | "pedir_contrato" | "sin_cobertura";
+
+export const ESTADO_REQUERIMIENTO_LABELS: Record<EstadoRequerimiento, string> = {
+  cubierto_almacen: "Cubierto por almacén",
+  pedir_contrato: "Pedir a contrato",
+  sin_cobertura: "Sin cobertura suficiente",
+};
+
+export interface MenuRequirementRow {
+  codigo: number;
+  articulo: string;
+  unidad: string;
+  // Everything below is in the article's purchase unit.
+  requerido: number;
+  existencia: number;
+  faltante_almacen: number;
+  // Still available on awarded lines of active contracts, net of approved orders.
+  disponible_contratos: number;
+  faltante_contratos: number;
+  // Awarded line to order the warehouse shortfall from.
+  contrato: string | null;
+  proveedor: string | null;
+  id_adjudicado: number | null;
+  precio_unitario: number | null;
+  estado: EstadoRequerimiento;
+}
+
+type AdjudicadoConReserva = Adjudicado & { cantidad_reservada?: number };
+type ContratoConProveedor = Contrato & { proveedor_nombre: string };
+
+// Total purchase units of each article the whole cycle needs: portions per day times quantity per portion.
+export const expandMenu = (menu: CicloMenu, recetas: Receta[], articulos: Articulo[]): Map<number, number> => {
+  const recetasMap = new Map(recetas.map((r) => [r.id_receta, r]));
+  const articulosMap = new Map(articulos.map((a) => [a.codigo, a]));
+  const totals = new Map<number, number>();
+  menu.dias.forEach((dia) =>
+    dia.recetas_fk.forEach((id) =>
+      recetasMap.get(id)?.ingredientes.forEach((ing) => {
+        const cantidad = toPurchaseUnits(ing.cantidad_por_racion * dia.comensales, articulosMap.get(ing.codigo_fk));
+        totals.set(ing.codigo_fk, (totals.get(ing.codigo_fk) ?? 0) + cantidad);
+      })
+    )
+  );
+  return totals;
+};
+
+// Compares the cycle's needs with warehouse stock first and then with what active contracts can still supply.
+// The shortfall is assigned to the cheapest awarded line that covers it alone, or else to the one with most left.
+export const buildMenuRequirements = (
+  menu: CicloMenu,
+  data: {
+    recetas: Receta[];
+    articulos: Articulo[];
+    adjudicados: AdjudicadoConReserva[];
+    contratos: ContratoConProveedor[];
+    existencias: Map<number, StockLevel>;
+  },
+  today: Date
+): MenuRequirementRow[] => {
+  const articulosMap = new Map(data.articulos.map((a) => [a.codigo, a]));
+  const activos = new Map(
+    data.contratos
+      .filter((c) => isContractActive(getContractValidity(c, today)))
+      .map((c) => [c.contrato, c])
+  );
+
+  return [...expandMenu(menu, data.recetas, data.articulos)]
+    .filter(([, requerido]) => requerido > 0)
+    .map(([codigo, requerido]): MenuRequirementRow => {
+      const articulo = articulosMap.get(codigo);
+      const existencia = Math.max(data.existencias.get(codigo)?.existencia ?? 0, 0);
+      const faltante_almacen = Math.max(requerido - existencia, 0);
+      const lineas = data.adjudicados
+        .filter((adj) => adj.codigo_fk === codigo && activos.has(adj.contrato_fk))
+        .map((adj) => ({ adj, disponible: Math.max(adj.cantidad_disponible - (adj.cantidad_reservada ?? 0), 0) }))
+        .filter((l) => l.disponible > 0);
+      const disponible_contratos = lineas.reduce((sum, l) => sum + l.disponible, 0);
+      const cubren = lineas.filter((l) => l.disponible >= faltante_almacen);
+      const elegida =
+        faltante_almacen === 0 || lineas.length === 0
+          ? undefined
+          : cubren.length > 0
+            ? cubren.reduce((best, l) => (l.adj.precio_unitario < best.adj.precio_unitario ? l : best))
+            : lineas.reduce((best, l) => (l.disponible > best.disponible ? l : best));
+      const faltante_contratos = Math.max(faltante_almacen - disponible_contratos, 0);
+
+      return {
+        codigo,
+        articulo: articulo?.descripcion_articulo ?? String(codigo),
+        unidad: articulo?.unidad_medida ?? "",
+        requerido,
+        existencia,
+        faltante_almacen,
+        disponible_contratos,
+        faltante_contratos,
+        contrato: elegida?.adj.contrato_fk ?? null,
+        proveedor: elegida ? activos.get(elegida.adj.contrato_fk)!.proveedor_nombre : null,
+        id_adjudicado: elegida?.adj.id_adjudicado ?? null,
+        precio_unitario: elegida?.adj.precio_unitario ?? null,
+        estado: faltante_almacen === 0 ? "cubierto_almacen" : faltante_contratos === 0 ? "pedir_contrato" : "sin_cobertura",
+      };
+    })
+    .sort((a, b) => b.faltante_almacen - a.faltante_almacen || a.articulo.localeCompare(b.articulo));
+};
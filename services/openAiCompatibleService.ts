@@ -0,0 +1,37 @@
+import type { LlmProvider } from "./llmService";
+
+// Chat Completions API as served by Ollama, llama.cpp, vLLM or LM Studio for self-hosted models.
+export const createOpenAiCompatibleProvider = (baseUrl: string, apiKey: string, model: string): LlmProvider => ({
+  id: "openai",
+  model,
+  complete: async ({ instructions, input }) => {
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model,
+          temperature: 0,
+          response_format: { type: "json_object" },
+          messages: [
+            { role: "system", content: instructions },
+            { role: "user", content: input },
+          ],
+        }),
+      });
+    } catch {
+      throw new Error(`No se pudo conectar con el servidor de IA en ${baseUrl}.`);
+    }
+    if (!response.ok) {
+      throw new Error(`El servidor de IA respondió ${response.status} ${response.statusText}.`);
+    }
+    const body = (await response.json()) as { choices?: { message?: { content?: string } }[] };
+    const content = body.choices?.[0]?.message?.content;
+    if (!content) throw new Error("El servidor de IA no devolvió una respuesta.");
+    return content;
+  },
+});
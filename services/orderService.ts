@@ -0,0 +1,160 @@
+import type {
+  Adjudicado,
+  Articulo,
+  Contrato,
+  EstatusOrden,
+  MovimientoAdjudicado,
+  NuevaOrdenSuministro,
+  OrdenSuministro,
+  PartidaOrden,
+} from "../types";
+import { getContractValidity, isContractActive } from "./dateService";
+import { createMovement } from "./ledgerService";
+
+const assertStatus = (orden: OrdenSuministro, allowed: EstatusOrden[], action: string) => {
+  if (!allowed.includes(orden.estatus)) {
+    throw new Error(`No se puede ${action} la orden ${orden.folio} en estatus ${orden.estatus}.`);
+  }
+};
+
+// Folios are sequential per calendar year: OS-2025-0001, OS-2025-0002, ...
+export const nextFolio = (ordenes: OrdenSuministro[], fecha: Date): string => {
+  const prefix = `OS-${fecha.getFullYear()}-`;
+  const last = ordenes
+    .filter((o) => o.folio.startsWith(prefix))
+    .reduce((max, o) => Math.max(max, parseInt(o.folio.slice(prefix.length), 10) || 0), 0);
+  return `${prefix}${String(last + 1).padStart(4, "0")}`;
+};
+
+// Approved orders hold their quantities until they are received or cancelled.
+export const sumReservedByAdjudicado = (ordenes: OrdenSuministro[]): Map<number, number> => {
+  const totals = new Map<number, number>();
+  ordenes
+    .filter((o) => o.estatus === "APROBADA")
+    .forEach((o) =>
+      o.partidas.forEach((p) => {
+        totals.set(p.adjudicado_fk, (totals.get(p.adjudicado_fk) || 0) + p.cantidad);
+      })
+    );
+  return totals;
+};
+
+export const isContractValidOn = (contrato: Contrato, fecha: Date): boolean =>
+  isContractActive(getContractValidity(contrato, fecha));
+
+const validateOrderLines = (
+  contrato: Contrato,
+  adjudicados: Adjudicado[],
+  ordenes: OrdenSuministro[],
+  partidas: PartidaOrden[],
+  fecha: Date
+) => {
+  if (!isContractValidOn(contrato, fecha)) {
+    throw new Error(
+      `El contrato ${contrato.contrato} no está vigente (${contrato.inicio_vigencia} al ${contrato.fin_vigencia}).`
+    );
+  }
+  if (partidas.length === 0) {
+    throw new Error("La orden debe incluir al menos una partida.");
+  }
+
+  const reservadas = sumReservedByAdjudicado(ordenes);
+  partidas.forEach((partida) => {
+    const adjudicado = adjudicados.find((adj) => adj.id_adjudicado === partida.adjudicado_fk);
+    if (!adjudicado || adjudicado.contrato_fk !== contrato.contrato) {
+      throw new Error(`El adjudicado ${partida.adjudicado_fk} no pertenece al contrato ${contrato.contrato}.`);
+    }
+    if (!Number.isFinite(partida.cantidad) || partida.cantidad <= 0) {
+      throw new Error(`La cantidad de la partida ${partida.adjudicado_fk} debe ser mayor a cero.`);
+    }
+    const disponible = adjudicado.cantidad_disponible - (reservadas.get(adjudicado.id_adjudicado) || 0);
+    if (partida.cantidad > disponible) {
+      throw new Error(
+        `La cantidad solicitada (${partida.cantidad}) del adjudicado ${adjudicado.id_adjudicado} excede la disponible (${disponible}).`
+      );
+    }
+  });
+};
+
+// Copies each line's current terms into the order; call after validateOrderLines.
+const withTerms = (partidas: PartidaOrden[], adjudicados: Adjudicado[], articulos: Articulo[]): PartidaOrden[] =>
+  partidas.map((partida) => {
+    const adjudicado = adjudicados.find((adj) => adj.id_adjudicado === partida.adjudicado_fk)!;
+    const articulo = articulos.find((a) => a.codigo === adjudicado.codigo_fk);
+    return {
+      adjudicado_fk: partida.adjudicado_fk,
+      cantidad: partida.cantidad,
+      condiciones: {
+        codigo_fk: adjudicado.codigo_fk,
+        descripcion: articulo?.descripcion_articulo ?? "",
+        unidad_medida: articulo?.unidad_medida ?? "",
+        precio_unitario: adjudicado.precio_unitario,
+        iva: adjudicado.iva,
+        ieps: adjudicado.ieps,
+      },
+    };
+  });
+
+export const createOrder = (
+  contrato: Contrato,
+  adjudicados: Adjudicado[],
+  articulos: Articulo[],
+  ordenes: OrdenSuministro[],
+  draft: NuevaOrdenSuministro
+): OrdenSuministro => {
+  const fecha = new Date(draft.fecha);
+  validateOrderLines(contrato, adjudicados, ordenes, draft.partidas, fecha);
+  return {
+    ...draft,
+    partidas: withTerms(draft.partidas, adjudicados, articulos),
+    id_orden: ordenes.reduce((max, o) => Math.max(max, o.id_orden), 0) + 1,
+    folio: nextFolio(ordenes, fecha),
+    estatus: "BORRADOR",
+    fecha_aprobacion: null,
+    fecha_cierre: null,
+  };
+};
+
+// The terms are copied again on approval, which is when they bind; after it they never change.
+export const approveOrder = (
+  orden: OrdenSuministro,
+  contrato: Contrato,
+  adjudicados: Adjudicado[],
+  articulos: Articulo[],
+  ordenes: OrdenSuministro[],
+  fecha: string
+): OrdenSuministro => {
+  assertStatus(orden, ["BORRADOR"], "aprobar");
+  validateOrderLines(contrato, adjudicados, ordenes, orden.partidas, new Date(fecha));
+  return { ...orden, partidas: withTerms(orden.partidas, adjudicados, articulos), estatus: "APROBADA", fecha_aprobacion: fecha };
+};
+
+export const cancelOrder = (orden: OrdenSuministro, fecha: string): OrdenSuministro => {
+  assertStatus(orden, ["BORRADOR", "APROBADA"], "cancelar");
+  return { ...orden, estatus: "CANCELADA", fecha_cierre: fecha };
+};
+
+// Receiving an approved order releases its reservation and posts each line to the consumption ledger.
+export const receiveOrder = (
+  orden: OrdenSuministro,
+  adjudicados: Adjudicado[],
+  movimientos: MovimientoAdjudicado[],
+  fecha: string,
+  usuario_fk: number | null
+): { orden: OrdenSuministro; movimientos: MovimientoAdjudicado[] } => {
+  assertStatus(orden, ["APROBADA"], "cerrar");
+  const posted = orden.partidas.reduce(
+    (acc, partida) => [
+      ...acc,
+      createMovement(adjudicados, acc, {
+        adjudicado_fk: partida.adjudicado_fk,
+        fecha,
+        cantidad: partida.cantidad,
+        usuario_fk,
+        referencia: orden.folio,
+      }),
+    ],
+    movimientos
+  );
+  return { orden: { ...orden, estatus: "CERRADA", fecha_cierre: fecha }, movimientos: posted };
+};
@@ -0,0 +1,153 @@
+import { compareQueryResults } from "./queryHistoryService";
+import { QUERY_TABLES, runQuery } from "./queryService";
+import type {
+  AggregateFunction,
+  FilterOperator,
+  QueryDataset,
+  QueryRow,
+  QueryTableName,
+  QueryValue,
+  StructuredQuery,
+} from "./queryService";
+
+// Result columns that name a real record, and where that record lives.
+const RECORD_KEYS: { campo: string; tabla: QueryTableName; clave: string; entidad: string }[] = [
+  { campo: "articulos.codigo", tabla: "articulos", clave: "codigo", entidad: "artículo" },
+  { campo: "adjudicados.codigo", tabla: "articulos", clave: "codigo", entidad: "artículo" },
+  { campo: "contratos.contrato", tabla: "contratos", clave: "contrato", entidad: "contrato" },
+  { campo: "adjudicados.contrato", tabla: "contratos", clave: "contrato", entidad: "contrato" },
+  { campo: "proveedores.id_proveedor", tabla: "proveedores", clave: "id_proveedor", entidad: "proveedor" },
+  { campo: "contratos.id_proveedor", tabla: "proveedores", clave: "id_proveedor", entidad: "proveedor" },
+  { campo: "proveedores.proveedor", tabla: "proveedores", clave: "proveedor", entidad: "proveedor" },
+];
+
+// The rows are always computed locally, so a fresh answer is current by construction. The states matter
+// for results stored in the history, which the data may have moved past since they were run.
+export type EstadoFila = "vigente" | "sin_respaldo" | "desactualizada";
+
+export const ESTADO_FILA_LABELS: Record<EstadoFila, string> = {
+  vigente: "Vigente con los datos actuales",
+  sin_respaldo: "Sin respaldo en los datos actuales",
+  desactualizada: "Valores distintos a los datos actuales",
+};
+
+export interface RowCheck {
+  estado: EstadoFila;
+  // Keys in the row that match no record, e.g. "No existe el artículo 999".
+  faltantes: string[];
+  // Value the current data gives every column that differs, by column.
+  actuales: Record<string, QueryValue>;
+}
+
+export interface AnswerVerification {
+  // One entry per row of the answer, in the same order.
+  filas: RowCheck[];
+  // Rows the data produces that the answer leaves out.
+  omitidas: number;
+  // Filter values that match no record.
+  filtros: string[];
+  vigente: boolean;
+}
+
+const existsIn = (dataset: QueryDataset, tabla: QueryTableName, clave: string, valor: QueryValue) =>
+  runQuery(dataset, { tabla, filtros: [{ campo: `${tabla}.${clave}`, operador: "=", valor }] }).filas.length > 0;
+
+// Checks that a result still holds: the query is run again over the current dataset and compared row by
+// row, and every article, contract or supplier the result or its filters name must exist. This is not an
+// independent check of the model, which only wrote the query; it catches results that went stale.
+export const verifyAnswer = (
+  dataset: QueryDataset,
+  respuesta: { consulta: StructuredQuery; columnas: string[]; filas: QueryRow[] }
+): AnswerVerification => {
+  const recalculado = runQuery(dataset, respuesta.consulta);
+  const comparacion = compareQueryResults(recalculado, respuesta);
+  const llaves = RECORD_KEYS.filter((k) => respuesta.columnas.includes(k.campo));
+
+  const filas = respuesta.filas.map((fila, i): RowCheck => {
+    const { estado, anterior } = comparacion.filas[i];
+    const faltantes = llaves
+      .filter((k) => fila[k.campo] !== null && !existsIn(dataset, k.tabla, k.clave, fila[k.campo]))
+      .map((k) => `No existe el ${k.entidad} ${fila[k.campo]}.`);
+    const actuales =
+      estado === "cambiada" && anterior
+        ? Object.fromEntries(respuesta.columnas.filter((c) => anterior[c] !== fila[c]).map((c) => [c, anterior[c]]))
+        : {};
+    return {
+      estado: faltantes.length > 0 || estado === "nueva" ? "sin_respaldo" : estado === "cambiada" ? "desactualizada" : "vigente",
+      faltantes,
+      actuales,
+    };
+  });
+
+  const filtros = (respuesta.consulta.filtros ?? []).flatMap((filtro) => {
+    const llave = RECORD_KEYS.find((k) => k.campo === filtro.campo);
+    if (!llave || (filtro.operador !== "=" && filtro.operador !== "en")) return [];
+    const valores = Array.isArray(filtro.valor) ? filtro.valor : [filtro.valor];
+    return valores
+      .filter((v) => v !== null && !existsIn(dataset, llave.tabla, llave.clave, v))
+      .map((v) => `El filtro ${filtro.campo} usa "${v}", que no corresponde a ningún ${llave.entidad}.`);
+  });
+
+  const omitidas = comparacion.resumen.eliminada;
+  return {
+    filas,
+    omitidas,
+    filtros,
+    vigente: omitidas === 0 && filtros.length === 0 && filas.every((f) => f.estado === "vigente"),
+  };
+};
+
+const OPERATOR_TEXT: Record<FilterOperator, string> = {
+  "=": "es igual a",
+  "!=": "es distinto de",
+  ">": "es mayor que",
+  ">=": "es mayor o igual que",
+  "<": "es menor que",
+  "<=": "es menor o igual que",
+  contiene: "contiene",
+  en: "es uno de",
+};
+
+const AGGREGATE_TEXT: Record<AggregateFunction, string> = {
+  contar: "número de",
+  contar_distintos: "valores distintos de",
+  sumar: "suma de",
+  promedio: "promedio de",
+  minimo: "mínimo de",
+  maximo: "máximo de",
+};
+
+const formatFilterValue = (valor: QueryValue | QueryValue[]): string =>
+  Array.isArray(valor) ? valor.map(formatFilterValue).join(", ") : typeof valor === "string" ? `"${valor}"` : String(valor);
+
+// The query in plain Spanish, one step per line, for the "¿Cómo se obtuvo?" panel.
+export const describeQuery = (query: StructuredQuery): string[] => {
+  const pasos = [`Se leyó la tabla ${query.tabla}${query.unir?.length ? `, unida con ${query.unir.join(", ")}` : ""}.`];
+  (query.filtros ?? []).forEach((f) =>
+    pasos.push(`Se conservaron las filas donde ${f.campo} ${OPERATOR_TEXT[f.operador]} ${formatFilterValue(f.valor)}.`)
+  );
+  if (query.agrupar_por?.length) pasos.push(`Se agruparon por ${query.agrupar_por.join(", ")}.`);
+  (query.agregados ?? []).forEach((a) =>
+    pasos.push(`Se calculó "${a.alias}": ${AGGREGATE_TEXT[a.funcion]} ${a.campo ?? "filas"}.`)
+  );
+  if (!query.agrupar_por?.length && !query.agregados?.length && query.seleccionar?.length) {
+    pasos.push(`Se mostraron las columnas ${query.seleccionar.join(", ")}.`);
+  }
+  (query.ordenar_por ?? []).forEach((o) =>
+    pasos.push(`Se ordenó por ${o.campo} de forma ${o.direccion === "desc" ? "descendente" : "ascendente"}.`)
+  );
+  if (query.limite) pasos.push(`Se conservaron las primeras ${query.limite} filas.`);
+  return pasos;
+};
+
+// Columns shown for the records behind an answer: what identifies each record plus every field the query used.
+export const provenanceColumns = (query: StructuredQuery): string[] => {
+  const identificadores = QUERY_TABLES[query.tabla].fields.slice(0, 2).map((f) => `${query.tabla}.${f.name}`);
+  const usados = [
+    ...(query.filtros ?? []).map((f) => f.campo),
+    ...(query.agrupar_por ?? []),
+    ...(query.agregados ?? []).flatMap((a) => (a.campo ? [a.campo] : [])),
+    ...(query.seleccionar ?? []),
+  ];
+  return [...new Set([...identificadores, ...usados])];
+};
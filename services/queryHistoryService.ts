@@ -0,0 +1,112 @@
+import type { ConsultaGuardada, ConsultaIA, NuevaConsultaIA } from "../types";
+import type { QueryRow, QueryValue } from "./queryService";
+
+// Older entries are dropped so stored results do not grow without bound.
+export const HISTORY_LIMIT = 200;
+
+export const createHistoryEntry = (consultas: ConsultaIA[], draft: NuevaConsultaIA): ConsultaIA => ({
+  ...draft,
+  id_consulta: consultas.reduce((max, c) => Math.max(max, c.id_consulta), 0) + 1,
+});
+
+// Ids of the oldest entries, the ones beyond HISTORY_LIMIT.
+export const historyOverflow = (consultas: ConsultaIA[]): number[] =>
+  [...consultas]
+    .sort((a, b) => b.id_consulta - a.id_consulta)
+    .slice(HISTORY_LIMIT)
+    .map((c) => c.id_consulta);
+
+export const prepareSavedQuery = (
+  guardadas: ConsultaGuardada[],
+  values: Omit<ConsultaGuardada, "id_guardada" | "fecha_creacion"> & { id_guardada?: number },
+  fecha: string
+): ConsultaGuardada => {
+  const nombre = values.nombre.trim();
+  if (!nombre) throw new Error("La consulta guardada requiere un nombre.");
+  const duplicada = guardadas.find(
+    (g) => g.nombre.toLowerCase() === nombre.toLowerCase() && g.id_guardada !== values.id_guardada
+  );
+  if (duplicada) throw new Error(`Ya existe una consulta guardada con el nombre "${duplicada.nombre}".`);
+
+  const existing = guardadas.find((g) => g.id_guardada === values.id_guardada);
+  return {
+    ...values,
+    nombre,
+    id_guardada: existing?.id_guardada ?? guardadas.reduce((max, g) => Math.max(max, g.id_guardada), 0) + 1,
+    fecha_creacion: existing?.fecha_creacion ?? fecha,
+  };
+};
+
+// Pinned first, then alphabetical.
+export const sortSavedQueries = (guardadas: ConsultaGuardada[]): ConsultaGuardada[] =>
+  [...guardadas].sort((a, b) => Number(b.fijada) - Number(a.fijada) || a.nombre.localeCompare(b.nombre));
+
+export const lastRunOf = (consultas: ConsultaIA[], id_guardada: number): ConsultaIA | undefined =>
+  consultas
+    .filter((c) => c.guardada_fk === id_guardada && c.error === null)
+    .reduce<ConsultaIA | undefined>((last, c) => (!last || c.id_consulta > last.id_consulta ? c : last), undefined);
+
+export type EstadoComparacion = "nueva" | "eliminada" | "cambiada" | "igual";
+
+export interface ComparisonRow {
+  clave: string;
+  estado: EstadoComparacion;
+  anterior: QueryRow | null;
+  actual: QueryRow | null;
+}
+
+export interface ResultComparison {
+  // Columns that identify a row; the rest are compared.
+  columnas_clave: string[];
+  filas: ComparisonRow[];
+  resumen: Record<EstadoComparacion, number>;
+}
+
+const isNumericColumn = (rows: QueryRow[], column: string) =>
+  rows.some((r) => r[column] !== null) && rows.every((r) => r[column] === null || typeof r[column] === "number");
+
+// Rows are matched on their non-numeric columns (e.g. the supplier in a per-supplier total). A result with
+// only numeric columns is matched by position.
+export const compareQueryResults = (
+  anterior: { columnas: string[]; filas: QueryRow[] },
+  actual: { columnas: string[]; filas: QueryRow[] }
+): ResultComparison => {
+  const columnas = actual.columnas.filter((c) => anterior.columnas.includes(c));
+  const todas = [...anterior.filas, ...actual.filas];
+  const columnas_clave = columnas.filter((c) => !isNumericColumn(todas, c));
+  // Rows sharing a key are told apart by their order, so ungrouped results with repeated names still line up.
+  const keysOf = (rows: QueryRow[]) => {
+    const seen = new Map<string, number>();
+    return rows.map((row, index) => {
+      if (columnas_clave.length === 0) return `#${index + 1}`;
+      const key = JSON.stringify(columnas_clave.map((c) => row[c] as QueryValue));
+      const n = (seen.get(key) ?? 0) + 1;
+      seen.set(key, n);
+      return n === 1 ? key : `${key}#${n}`;
+    });
+  };
+  const clavesAnteriores = keysOf(anterior.filas);
+  const clavesActuales = keysOf(actual.filas);
+
+  const previos = new Map(anterior.filas.map((row, i) => [clavesAnteriores[i], row]));
+  const vistos = new Set<string>();
+  const filas: ComparisonRow[] = actual.filas.map((row, i) => {
+    const clave = clavesActuales[i];
+    vistos.add(clave);
+    const previo = previos.get(clave) ?? null;
+    const estado: EstadoComparacion = !previo
+      ? "nueva"
+      : columnas.some((c) => previo[c] !== row[c])
+        ? "cambiada"
+        : "igual";
+    return { clave, estado, anterior: previo, actual: row };
+  });
+  anterior.filas.forEach((row, i) => {
+    const clave = clavesAnteriores[i];
+    if (!vistos.has(clave)) filas.push({ clave, estado: "eliminada", anterior: row, actual: null });
+  });
+
+  const resumen = { nueva: 0, eliminada: 0, cambiada: 0, igual: 0 };
+  filas.forEach((f) => (resumen[f.estado] += 1));
+  return { columnas_clave, filas, resumen };
+};
@@ -0,0 +1,470 @@
+import type { Adjudicado, Articulo, Contrato, Licitacion, Proveedor } from "../types";
+import { computeContractBudget } from "./budgetService";
+import { parseReferencePrice } from "./benchmarkService";
+import { ESTADO_VIGENCIA_LABELS, getContractValidity, parseDate } from "./dateService";
+
+export type QueryTableName = "articulos" | "contratos" | "adjudicados" | "proveedores" | "licitaciones";
+
+export type QueryFieldType = "texto" | "numero" | "fecha";
+
+export interface QueryField {
+  name: string;
+  type: QueryFieldType;
+  description: string;
+}
+
+export interface QueryTable {
+  description: string;
+  fields: QueryField[];
+}
+
+export type QueryValue = string | number | null;
+export type QueryRow = Record<string, QueryValue>;
+export type QueryDataset = Record<QueryTableName, QueryRow[]>;
+
+export type FilterOperator = "=" | "!=" | ">" | ">=" | "<" | "<=" | "contiene" | "en";
+export type AggregateFunction = "contar" | "contar_distintos" | "sumar" | "promedio" | "minimo" | "maximo";
+
+// Fields are always written as "tabla.campo", e.g. "contratos.proveedor".
+export interface QueryFilter {
+  campo: string;
+  operador: FilterOperator;
+  valor: QueryValue | QueryValue[];
+}
+
+export interface QueryAggregate {
+  funcion: AggregateFunction;
+  // Optional for "contar", which then counts rows.
+  campo?: string;
+  alias: string;
+}
+
+export interface QueryOrder {
+  // An output column: a selected or grouped field, or an aggregate alias.
+  campo: string;
+  direccion: "asc" | "desc";
+}
+
+export interface StructuredQuery {
+  tabla: QueryTableName;
+  unir?: QueryTableName[];
+  filtros?: QueryFilter[];
+  seleccionar?: string[];
+  agrupar_por?: string[];
+  agregados?: QueryAggregate[];
+  ordenar_por?: QueryOrder[];
+  limite?: number;
+}
+
+export interface QueryResult {
+  columnas: string[];
+  filas: QueryRow[];
+  // Rows that matched the filters, before grouping and the limit.
+  filas_evaluadas: number;
+}
+
+export const QUERY_TABLES: Record<QueryTableName, QueryTable> = {
+  articulos: {
+    description: "Catálogo de artículos.",
+    fields: [
+      { name: "codigo", type: "numero", description: "Clave del artículo" },
+      { name: "descripcion", type: "texto", description: "Descripción del artículo" },
+      { name: "unidad_medida", type: "texto", description: "Unidad de compra tal como se capturó" },
+      { name: "unidad_base", type: "texto", description: "KG, LITRO o PIEZA" },
+      { name: "contenido_neto", type: "numero", description: "Unidades base por unidad de compra" },
+      { name: "partida_especifica", type: "numero", description: "Partida presupuestal" },
+      { name: "precio_medio", type: "numero", description: "Precio de referencia de la investigación de mercado" },
+      { name: "ultima_fecha", type: "fecha", description: "Fecha del precio de referencia" },
+    ],
+  },
+  contratos: {
+    description: "Contratos de suministro.",
+    fields: [
+      { name: "contrato", type: "texto", description: "Número de contrato" },
+      { name: "licitacion", type: "texto", description: "Licitación de origen" },
+      { name: "id_proveedor", type: "numero", description: "Proveedor del contrato" },
+      { name: "proveedor", type: "texto", description: "Nombre del proveedor" },
+      { name: "monto_maximo", type: "numero", description: "Monto máximo del contrato" },
+      { name: "ejercido", type: "numero", description: "Importe consumido con impuestos" },
+      { name: "saldo", type: "numero", description: "Monto máximo menos ejercido" },
+      { name: "inicio_vigencia", type: "fecha", description: "Inicio de vigencia" },
+      { name: "fin_vigencia", type: "fecha", description: "Fin de vigencia" },
+      { name: "estado_vigencia", type: "texto", description: Object.values(ESTADO_VIGENCIA_LABELS).join(", ") },
+    ],
+  },
+  adjudicados: {
+    description: "Artículos adjudicados en cada contrato, con precio y cantidades.",
+    fields: [
+      { name: "id_adjudicado", type: "numero", description: "Clave de la partida adjudicada" },
+      { name: "contrato", type: "texto", description: "Contrato de la partida" },
+      { name: "codigo", type: "numero", description: "Artículo adjudicado" },
+      { name: "precio_unitario", type: "numero", description: "Precio unitario sin impuestos" },
+      { name: "iva", type: "numero", description: "Tasa de IVA en %" },
+      { name: "ieps", type: "numero", description: "Tasa de IEPS en %" },
+      { name: "cantidad_minima", type: "numero", description: "Cantidad mínima a consumir" },
+      { name: "cantidad_maxima", type: "numero", description: "Cantidad máxima adjudicada" },
+      { name: "cantidad_consumida", type: "numero", description: "Cantidad consumida" },
+      { name: "cantidad_disponible", type: "numero", description: "Cantidad máxima menos consumida" },
+      { name: "importe_maximo", type: "numero", description: "Cantidad máxima por precio unitario" },
+      { name: "estatus_cantidad", type: "texto", description: "DISPONIBLE o AGOTADO" },
+    ],
+  },
+  proveedores: {
+    description: "Catálogo de proveedores.",
+    fields: [
+      { name: "id_proveedor", type: "numero", description: "Clave del proveedor" },
+      { name: "proveedor", type: "texto", description: "Nombre o razón social" },
+      { name: "ciudad", type: "texto", description: "Ciudad" },
+      { name: "giro_comercial", type: "texto", description: "Giro comercial" },
+      { name: "correo_electronico", type: "texto", description: "Correo electrónico" },
+      { name: "telefono", type: "texto", description: "Teléfono" },
+    ],
+  },
+  licitaciones: {
+    description: "Procedimientos de licitación.",
+    fields: [
+      { name: "licitacion", type: "texto", description: "Número de licitación" },
+      { name: "denominacion", type: "texto", description: "Objeto de la licitación" },
+      { name: "fecha_convocatoria", type: "fecha", description: "Publicación de la convocatoria" },
+      { name: "fecha_dudas", type: "fecha", description: "Junta de aclaraciones" },
+      { name: "fecha_apertura", type: "fecha", description: "Apertura de propuestas" },
+      { name: "fecha_fallo", type: "fecha", description: "Fallo" },
+    ],
+  },
+};
+
+// Keys tables can be joined on. Each relation is many-to-one from `desde` to `hacia`.
+const QUERY_RELATIONS: { desde: QueryTableName; campo: string; hacia: QueryTableName; clave: string }[] = [
+  { desde: "adjudicados", campo: "contrato", hacia: "contratos", clave: "contrato" },
+  { desde: "adjudicados", campo: "codigo", hacia: "articulos", clave: "codigo" },
+  { desde: "contratos", campo: "id_proveedor", hacia: "proveedores", clave: "id_proveedor" },
+  { desde: "contratos", campo: "licitacion", hacia: "licitaciones", clave: "licitacion" },
+];
+
+// Reference for the model. Kept next to the types above so both change together.
+export const QUERY_SCHEMA_DOC = `
+Responde con un objeto JSON con esta forma (todas las claves excepto "tabla" son opcionales):
+{
+  "tabla": nombre de la tabla principal,
+  "unir": [tablas relacionadas que se agregan a cada fila; se unen por sus claves],
+  "filtros": [{ "campo": "tabla.campo", "operador": "=" | "!=" | ">" | ">=" | "<" | "<=" | "contiene" | "en", "valor": valor o lista de valores para "en" }],
+  "seleccionar": ["tabla.campo", ...] (sin agregados; por omisión todos los campos de la tabla principal),
+  "agrupar_por": ["tabla.campo", ...],
+  "agregados": [{ "funcion": "contar" | "contar_distintos" | "sumar" | "promedio" | "minimo" | "maximo", "campo": "tabla.campo", "alias": "nombre_columna" }],
+  "ordenar_por": [{ "campo": columna del resultado ("tabla.campo" o un alias), "direccion": "asc" | "desc" }],
+  "limite": número máximo de filas
+}
+Los filtros se combinan con Y. "contiene" y "=" sobre texto no distinguen mayúsculas ni acentos.
+Las fechas son texto "aaaa-mm-dd" y se comparan con >, <, etc.
+Relaciones: ${QUERY_RELATIONS.map((r) => `${r.desde}.${r.campo} → ${r.hacia}.${r.clave}`).join("; ")}.
+`.trim();
+
+export const describeQueryTables = (dataset: QueryDataset): string =>
+  (Object.keys(QUERY_TABLES) as QueryTableName[])
+    .map((name) => {
+      const table = QUERY_TABLES[name];
+      const fields = table.fields.map((f) => `  - ${f.name} (${f.type}): ${f.description}`).join("\n");
+      return `${name} (${dataset[name].length} filas): ${table.description}\n${fields}`;
+    })
+    .join("\n");
+
+const isoDate = (value: string | null | undefined): string | null => {
+  const date = parseDate(value);
+  if (!date) return null;
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// Flattens the joined store into the tables described in QUERY_TABLES.
+export const buildQueryDataset = (
+  data: {
+    articulos: Articulo[];
+    contratos: (Contrato & { proveedor_nombre: string; adjudicados: Adjudicado[] })[];
+    adjudicados: Adjudicado[];
+    proveedores: Proveedor[];
+    licitaciones: Licitacion[];
+  },
+  today: Date
+): QueryDataset => ({
+  articulos: data.articulos.map((a) => ({
+    codigo: a.codigo,
+    descripcion: a.descripcion_articulo,
+    unidad_medida: a.unidad_medida,
+    unidad_base: a.unidad_base ?? null,
+    contenido_neto: a.contenido_neto ?? null,
+    partida_especifica: a.partida_especifica,
+    precio_medio: parseReferencePrice(a.precio_medio),
+    ultima_fecha: isoDate(a.ultima_fecha),
+  })),
+  contratos: data.contratos.map((c) => {
+    const budget = computeContractBudget(c);
+    return {
+      contrato: c.contrato,
+      licitacion: c.licitacion_fk,
+      id_proveedor: c.id_proveedor_fk ?? null,
+      proveedor: c.proveedor_nombre,
+      monto_maximo: c.monto_maximo,
+      ejercido: budget.ejercido,
+      saldo: budget.saldo,
+      inicio_vigencia: isoDate(c.inicio_vigencia),
+      fin_vigencia: isoDate(c.fin_vigencia),
+      estado_vigencia: ESTADO_VIGENCIA_LABELS[getContractValidity(c, today)],
+    };
+  }),
+  adjudicados: data.adjudicados.map((adj) => ({
+    id_adjudicado: adj.id_adjudicado,
+    contrato: adj.contrato_fk,
+    codigo: adj.codigo_fk,
+    precio_unitario: adj.precio_unitario,
+    iva: adj.iva,
+    ieps: adj.ieps,
+    cantidad_minima: adj.cantidad_minima,
+    cantidad_maxima: adj.cantidad_maxima,
+    cantidad_consumida: adj.cantidad_consumida,
+    cantidad_disponible: adj.cantidad_disponible,
+    importe_maximo: adj.importe_maximo,
+    estatus_cantidad: adj.estatus_cantidad,
+  })),
+  proveedores: data.proveedores.map((p) => ({
+    id_proveedor: p.id_proveedor,
+    proveedor: p.proveedor,
+    ciudad: p.ciudad,
+    giro_comercial: p.giro_comercial,
+    correo_electronico: p.correo_electronico,
+    telefono: p.telefono,
+  })),
+  licitaciones: data.licitaciones.map((l) => ({
+    licitacion: l.licitacion,
+    denominacion: l.denominacion,
+    fecha_convocatoria: isoDate(l.fecha_convocatoria),
+    fecha_dudas: isoDate(l.fecha_dudas),
+    fecha_apertura: isoDate(l.fecha_apertura),
+    fecha_fallo: isoDate(l.fecha_fallo),
+  })),
+});
+
+const FILTER_OPERATORS: FilterOperator[] = ["=", "!=", ">", ">=", "<", "<=", "contiene", "en"];
+const AGGREGATE_FUNCTIONS: AggregateFunction[] = ["contar", "contar_distintos", "sumar", "promedio", "minimo", "maximo"];
+
+const isTable = (name: unknown): name is QueryTableName => typeof name === "string" && name in QUERY_TABLES;
+
+const asList = <T>(value: unknown, label: string): T[] => {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) throw new Error(`"${label}" debe ser una lista.`);
+  return value as T[];
+};
+
+// Checks the model's answer against the schema, so a malformed query fails loudly instead of returning wrong rows.
+export const validateQuery = (raw: unknown): StructuredQuery => {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error("La consulta generada no es un objeto JSON.");
+  }
+  const query = raw as Record<string, unknown>;
+  if (!isTable(query.tabla)) {
+    throw new Error(`La tabla "${String(query.tabla)}" no existe.`);
+  }
+  const unir = asList<unknown>(query.unir, "unir");
+  unir.forEach((t) => {
+    if (!isTable(t)) throw new Error(`La tabla "${String(t)}" no existe.`);
+  });
+  const tablas = new Set<QueryTableName>([query.tabla, ...(unir as QueryTableName[])]);
+
+  const checkField = (campo: unknown) => {
+    const [tabla, nombre] = typeof campo === "string" ? campo.split(".") : [];
+    if (!isTable(tabla) || !QUERY_TABLES[tabla].fields.some((f) => f.name === nombre)) {
+      throw new Error(`El campo "${String(campo)}" no existe; usa el formato tabla.campo.`);
+    }
+    if (!tablas.has(tabla)) {
+      throw new Error(`El campo "${campo}" es de la tabla ${tabla}, que no está en "tabla" ni en "unir".`);
+    }
+  };
+
+  const filtros = asList<QueryFilter>(query.filtros, "filtros");
+  filtros.forEach((f) => {
+    checkField(f?.campo);
+    if (!FILTER_OPERATORS.includes(f.operador)) throw new Error(`El operador "${f.operador}" no es válido.`);
+    if (f.operador === "en" && !Array.isArray(f.valor)) throw new Error(`El operador "en" requiere una lista de valores.`);
+  });
+  const seleccionar = asList<string>(query.seleccionar, "seleccionar");
+  seleccionar.forEach(checkField);
+  const agrupar_por = asList<string>(query.agrupar_por, "agrupar_por");
+  agrupar_por.forEach(checkField);
+  const agregados = asList<QueryAggregate>(query.agregados, "agregados");
+  agregados.forEach((a) => {
+    if (!AGGREGATE_FUNCTIONS.includes(a?.funcion)) throw new Error(`La función "${a?.funcion}" no es válida.`);
+    if (a.campo !== undefined) checkField(a.campo);
+    else if (a.funcion !== "contar") throw new Error(`La función "${a.funcion}" requiere un campo.`);
+    if (!a.alias) throw new Error(`Cada agregado requiere un alias.`);
+  });
+  const ordenar_por = asList<QueryOrder>(query.ordenar_por, "ordenar_por");
+  ordenar_por.forEach((o) => {
+    if (typeof o?.campo !== "string") throw new Error(`Cada orden requiere un campo.`);
+  });
+  if (query.limite !== undefined && query.limite !== null && (!Number.isInteger(query.limite) || Number(query.limite) < 1)) {
+    throw new Error(`El límite debe ser un entero positivo.`);
+  }
+
+  return {
+    tabla: query.tabla,
+    unir: unir as QueryTableName[],
+    filtros,
+    seleccionar,
+    agrupar_por,
+    agregados,
+    ordenar_por: ordenar_por.map((o) => ({ campo: o.campo, direccion: o.direccion === "desc" ? "desc" : "asc" })),
+    limite: (query.limite as number | null | undefined) ?? undefined,
+  };
+};
+
+const prefixRow = (tabla: QueryTableName, row: QueryRow | undefined): QueryRow =>
+  Object.fromEntries(QUERY_TABLES[tabla].fields.map((f) => [`${tabla}.${f.name}`, row?.[f.name] ?? null]));
+
+// Joins each table onto the rows through the first relation that reaches a table already present.
+// Many-to-one joins add columns; one-to-many joins repeat the row for every match. Rows without a match are kept.
+const joinTables = (dataset: QueryDataset, tabla: QueryTableName, unir: QueryTableName[]): QueryRow[] => {
+  let rows = dataset[tabla].map((row) => prefixRow(tabla, row));
+  const presentes = new Set<QueryTableName>([tabla]);
+
+  unir.filter((t) => t !== tabla).forEach((destino) => {
+    const relation = QUERY_RELATIONS.find(
+      (r) => (r.hacia === destino && presentes.has(r.desde)) || (r.desde === destino && presentes.has(r.hacia))
+    );
+    if (!relation) {
+      throw new Error(`No hay una relación para unir ${destino} con ${[...presentes].join(", ")}.`);
+    }
+    if (relation.hacia === destino) {
+      const index = new Map(dataset[destino].map((r) => [r[relation.clave], r]));
+      rows = rows.map((row) => ({ ...row, ...prefixRow(destino, index.get(row[`${relation.desde}.${relation.campo}`])) }));
+    } else {
+      const index = new Map<QueryValue, QueryRow[]>();
+      dataset[destino].forEach((r) => index.set(r[relation.campo], [...(index.get(r[relation.campo]) ?? []), r]));
+      rows = rows.flatMap((row) => {
+        const matches = index.get(row[`${relation.hacia}.${relation.clave}`]) ?? [undefined];
+        return matches.map((match) => ({ ...row, ...prefixRow(destino, match) }));
+      });
+    }
+    presentes.add(destino);
+  });
+  return rows;
+};
+
+const normalizeText = (value: QueryValue): string =>
+  String(value ?? "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .trim();
+
+const compareValues = (a: QueryValue, b: QueryValue): number => {
+  if (a === null || b === null) return a === b ? 0 : a === null ? -1 : 1;
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  const numA = Number(a);
+  const numB = Number(b);
+  if (typeof a === "number" || typeof b === "number") {
+    if (Number.isFinite(numA) && Number.isFinite(numB)) return numA - numB;
+  }
+  return normalizeText(a).localeCompare(normalizeText(b));
+};
+
+const matchesFilter = (row: QueryRow, filtro: QueryFilter): boolean => {
+  const value = row[filtro.campo];
+  switch (filtro.operador) {
+    case "contiene":
+      return normalizeText(value).includes(normalizeText(filtro.valor as QueryValue));
+    case "en":
+      return (filtro.valor as QueryValue[]).some((v) => compareValues(value, v) === 0);
+    case "=":
+      return compareValues(value, filtro.valor as QueryValue) === 0;
+    case "!=":
+      return compareValues(value, filtro.valor as QueryValue) !== 0;
+  }
+  // Order comparisons never match missing values.
+  if (value === null || filtro.valor === null) return false;
+  const cmp = compareValues(value, filtro.valor as QueryValue);
+  switch (filtro.operador) {
+    case ">":
+      return cmp > 0;
+    case ">=":
+      return cmp >= 0;
+    case "<":
+      return cmp < 0;
+    case "<=":
+      return cmp <= 0;
+  }
+};
+
+const aggregate = (rows: QueryRow[], agregado: QueryAggregate): QueryValue => {
+  if (!agregado.campo) return rows.length;
+  const values = rows.map((r) => r[agregado.campo!]).filter((v): v is string | number => v !== null);
+  const numbers = values.map(Number).filter(Number.isFinite);
+  switch (agregado.funcion) {
+    case "contar":
+      return values.length;
+    case "contar_distintos":
+      return new Set(values).size;
+    case "sumar":
+      return numbers.reduce((sum, n) => sum + n, 0);
+    case "promedio":
+      return numbers.length > 0 ? numbers.reduce((sum, n) => sum + n, 0) / numbers.length : null;
+    case "minimo":
+      return values.length > 0 ? values.reduce((min, v) => (compareValues(v, min) < 0 ? v : min)) : null;
+    case "maximo":
+      return values.length > 0 ? values.reduce((max, v) => (compareValues(v, max) > 0 ? v : max)) : null;
+  }
+};
+
+// The joined rows that pass the filters: the records a result is computed from.
+export const matchingRecords = (dataset: QueryDataset, query: StructuredQuery): QueryRow[] =>
+  joinTables(dataset, query.tabla, query.unir ?? []).filter((row) =>
+    (query.filtros ?? []).every((filtro) => matchesFilter(row, filtro))
+  );
+
+export const runQuery = (dataset: QueryDataset, query: StructuredQuery): QueryResult => {
+  const filtered = matchingRecords(dataset, query);
+
+  const agrupar_por = query.agrupar_por ?? [];
+  const agregados = query.agregados ?? [];
+  let columnas: string[];
+  let filas: QueryRow[];
+
+  if (agrupar_por.length > 0 || agregados.length > 0) {
+    const groups = new Map<string, QueryRow[]>();
+    filtered.forEach((row) => {
+      const key = JSON.stringify(agrupar_por.map((campo) => row[campo]));
+      groups.set(key, [...(groups.get(key) ?? []), row]);
+    });
+    // Aggregates over no rows still produce one row (e.g. a count of 0), as in SQL.
+    if (groups.size === 0 && agrupar_por.length === 0) groups.set("[]", []);
+    columnas = [...agrupar_por, ...agregados.map((a) => a.alias)];
+    filas = [...groups.values()].map((rows) => ({
+      ...Object.fromEntries(agrupar_por.map((campo) => [campo, rows[0][campo]])),
+      ...Object.fromEntries(agregados.map((a) => [a.alias, aggregate(rows, a)])),
+    }));
+  } else {
+    columnas = query.seleccionar?.length
+      ? query.seleccionar
+      : QUERY_TABLES[query.tabla].fields.map((f) => `${query.tabla}.${f.name}`);
+    filas = filtered.map((row) => Object.fromEntries(columnas.map((campo) => [campo, row[campo]])));
+  }
+
+  (query.ordenar_por ?? []).forEach((orden) => {
+    if (!columnas.includes(orden.campo)) {
+      throw new Error(`No se puede ordenar por "${orden.campo}" porque no es una columna del resultado.`);
+    }
+  });
+  if (query.ordenar_por?.length) {
+    filas = [...filas].sort((a, b) => {
+      for (const orden of query.ordenar_por!) {
+        const cmp = compareValues(a[orden.campo], b[orden.campo]);
+        if (cmp !== 0) return orden.direccion === "desc" ? -cmp : cmp;
+      }
+      return 0;
+    });
+  }
+
+  return {
+    columnas,
+    filas: query.limite ? filas.slice(0, query.limite) : filas,
+    filas_evaluadas: filtered.length,
+  };
+};
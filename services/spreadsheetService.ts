@@ -0,0 +1,148 @@
+// Minimal CSV and XLSX readers, enough for the tabular annexes the procurement office exchanges.
+// XLSX files are ZIP archives of XML parts; only the first worksheet is read.
+
+export type Sheet = string[][];
+
+const detectDelimiter = (text: string): string => {
+  const firstLine = text.slice(0, text.indexOf("\n") === -1 ? text.length : text.indexOf("\n"));
+  const counts = [",", ";", "\t"].map((d) => [d, firstLine.split(d).length] as const);
+  return counts.reduce((best, current) => (current[1] > best[1] ? current : best))[0];
+};
+
+export const parseCsv = (input: string): Sheet => {
+  const text = input.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(text);
+  const rows: Sheet = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ""));
+};
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const readZipEntries = async (buffer: ArrayBuffer): Promise<Map<string, Uint8Array>> => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  let eocd = -1;
+  for (let i = buffer.byteLength - 22; i >= 0; i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) throw new Error("El archivo no es un XLSX válido.");
+
+  const entries = new Map<string, Uint8Array>();
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+  for (let n = 0; n < count; n++) {
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    const dataStart =
+      localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+    entries.set(name, method === 0 ? data : await inflateRaw(data));
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+};
+
+const parseXml = (data: Uint8Array | undefined): Document | null =>
+  data ? new DOMParser().parseFromString(new TextDecoder().decode(data), "application/xml") : null;
+
+const columnIndex = (cellRef: string): number =>
+  cellRef
+    .replace(/[0-9]/g, "")
+    .split("")
+    .reduce((acc, letter) => acc * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+const firstSheetPath = (entries: Map<string, Uint8Array>): string => {
+  const workbook = parseXml(entries.get("xl/workbook.xml"));
+  const rels = parseXml(entries.get("xl/_rels/workbook.xml.rels"));
+  const sheet = workbook?.getElementsByTagName("sheet")[0];
+  const relId = sheet?.getAttribute("r:id");
+  const target = Array.from(rels?.getElementsByTagName("Relationship") ?? [])
+    .find((rel) => rel.getAttribute("Id") === relId)
+    ?.getAttribute("Target");
+  if (!target) return "xl/worksheets/sheet1.xml";
+  return target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+};
+
+export const parseXlsx = async (buffer: ArrayBuffer): Promise<Sheet> => {
+  const entries = await readZipEntries(buffer);
+  const shared = Array.from(
+    parseXml(entries.get("xl/sharedStrings.xml"))?.getElementsByTagName("si") ?? []
+  ).map((si) => Array.from(si.getElementsByTagName("t")).map((t) => t.textContent ?? "").join(""));
+
+  const sheet = parseXml(entries.get(firstSheetPath(entries)));
+  if (!sheet) throw new Error("El archivo XLSX no contiene hojas.");
+
+  const rows: Sheet = Array.from(sheet.getElementsByTagName("row")).map((rowEl) => {
+    const row: string[] = [];
+    Array.from(rowEl.getElementsByTagName("c")).forEach((cell, position) => {
+      const ref = cell.getAttribute("r");
+      const index = ref ? columnIndex(ref) : position;
+      const type = cell.getAttribute("t");
+      const raw = cell.getElementsByTagName("v")[0]?.textContent ?? "";
+      let value = raw;
+      if (type === "s") value = shared[Number(raw)] ?? "";
+      else if (type === "inlineStr") value = cell.getElementsByTagName("t")[0]?.textContent ?? "";
+      else if (type === "b") value = raw === "1" ? "TRUE" : "FALSE";
+      row[index] = value;
+    });
+    return Array.from(row, (cell) => cell ?? "");
+  });
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ""));
+};
+
+export const readSpreadsheetFile = async (file: File): Promise<Sheet> => {
+  if (/\.xlsx$/i.test(file.name)) {
+    return parseXlsx(await file.arrayBuffer());
+  }
+  if (/\.(csv|txt)$/i.test(file.name)) {
+    return parseCsv(await file.text());
+  }
+  throw new Error("Formato no soportado. Usa un archivo CSV o XLSX.");
+};
@@ -0,0 +1,296 @@
+import { allData } from "../data";
+import type {
+  Adjudicado,
+  Articulo,
+  CicloMenu,
+  ConsultaGuardada,
+  ConsultaIA,
+  Contrato,
+  ConvenioModificatorio,
+  Documento,
+  GraficaFijada,
+  Licitacion,
+  MovimientoAdjudicado,
+  MovimientoAlmacen,
+  NuevoRegistroAuditoria,
+  OrdenSuministro,
+  Proveedor,
+  Receta,
+  RegistroAuditoria,
+  Usuario,
+} from "../types";
+import { withHashedPassword } from "./authService";
+import { buildOpeningMovements } from "./ledgerService";
+import { linkSupplierKeys } from "./supplierService";
+import { normalizeArticleUnit } from "./unitService";
+
+const DB_NAME = "sav-faa";
+const DB_VERSION = 8;
+const META_STORE = "meta";
+const SEEDED_KEY = "seeded";
+
+export interface StoreRecords {
+  adjudicados: Adjudicado;
+  articulos: Articulo;
+  contratos: Contrato;
+  licitaciones: Licitacion;
+  proveedores: Proveedor;
+  usuarios: Usuario;
+  movimientos: MovimientoAdjudicado;
+  ordenes: OrdenSuministro;
+  movimientosAlmacen: MovimientoAlmacen;
+  documentos: Documento;
+  consultas: ConsultaIA;
+  consultasGuardadas: ConsultaGuardada;
+  graficas: GraficaFijada;
+  recetas: Receta;
+  menus: CicloMenu;
+  convenios: ConvenioModificatorio;
+  auditoria: RegistroAuditoria;
+}
+
+export type StoreName = keyof StoreRecords;
+
+export type StoreData = { [K in StoreName]: StoreRecords[K][] };
+
+// Primary key of every object store.
+export const STORE_KEYS: { [K in StoreName]: keyof StoreRecords[K] & string } = {
+  adjudicados: "id_adjudicado",
+  articulos: "codigo",
+  contratos: "id_contrato",
+  licitaciones: "id_licitacion",
+  proveedores: "id_proveedor",
+  usuarios: "rud",
+  movimientos: "id_movimiento",
+  ordenes: "id_orden",
+  movimientosAlmacen: "id_movimiento_almacen",
+  documentos: "id_documento",
+  consultas: "id_consulta",
+  consultasGuardadas: "id_guardada",
+  graficas: "id_grafica",
+  recetas: "id_receta",
+  menus: "id_menu",
+  convenios: "id_convenio",
+  auditoria: "id_auditoria",
+};
+
+const STORE_NAMES = Object.keys(STORE_KEYS) as StoreName[];
+
+// Stores whose keys the database assigns. Their new records are written with `add`, so one can never
+// replace another, even when two tabs write at the same time.
+export interface NewStoreRecords {
+  auditoria: NuevoRegistroAuditoria;
+}
+
+const AUTO_INCREMENT_STORES: (keyof NewStoreRecords)[] = ["auditoria"];
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        const upgrade = request.transaction!;
+        STORE_NAMES.forEach((name) => {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, {
+              keyPath: STORE_KEYS[name],
+              autoIncrement: (AUTO_INCREMENT_STORES as StoreName[]).includes(name),
+            });
+          }
+        });
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE);
+        }
+        // Databases from before version 8 took audit ids from the app; the store is rebuilt to assign them.
+        AUTO_INCREMENT_STORES.forEach((name) => {
+          if (upgrade.objectStore(name).autoIncrement) return;
+          const existentes = upgrade.objectStore(name).getAll();
+          existentes.onsuccess = () => {
+            db.deleteObjectStore(name);
+            const store = db.createObjectStore(name, { keyPath: STORE_KEYS[name], autoIncrement: true });
+            existentes.result.forEach((record) => store.put(record));
+          };
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+export const getAllRecords = async <K extends StoreName>(store: K): Promise<StoreRecords[K][]> => {
+  const db = await openDatabase();
+  return requestToPromise(db.transaction(store).objectStore(store).getAll());
+};
+
+export const getRecord = async <K extends StoreName>(
+  store: K,
+  key: IDBValidKey
+): Promise<StoreRecords[K] | undefined> => {
+  const db = await openDatabase();
+  return requestToPromise(db.transaction(store).objectStore(store).get(key));
+};
+
+// Inserts or replaces records in a single transaction.
+export const putRecords = async <K extends StoreName>(
+  store: K,
+  records: StoreRecords[K][]
+): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(store, "readwrite");
+  records.forEach((record) => tx.objectStore(store).put(record));
+  return transactionDone(tx);
+};
+
+// Puts, adds and deletes for several stores at once; deletes run after the puts of the same store.
+// `add` is only for the stores in NewStoreRecords and fails instead of replacing a record.
+export type StoreChanges = {
+  [K in StoreName]?: {
+    put?: StoreRecords[K][];
+    add?: K extends keyof NewStoreRecords ? NewStoreRecords[K][] : never;
+    delete?: IDBValidKey[];
+  };
+};
+
+// Writes every change in one transaction: either all of them are stored or none is. Resolves to the
+// changes as stored, with every added record carrying the key it was given, ready for applyChanges.
+export const commitChanges = async (changes: StoreChanges): Promise<StoreChanges> => {
+  const names = Object.keys(changes) as StoreName[];
+  if (names.length === 0) return changes;
+  const db = await openDatabase();
+  const tx = db.transaction(names, "readwrite");
+  const stored: Partial<Record<StoreName, { put: object[]; delete?: IDBValidKey[] }>> = {};
+  names.forEach((name) => {
+    const change = changes[name]!;
+    const store = tx.objectStore(name);
+    const put = [...((change.put ?? []) as object[])];
+    put.forEach((record) => store.put(record));
+    ((change.add ?? []) as object[]).forEach((record) => {
+      const request = store.add(record);
+      request.onsuccess = () => put.push({ ...record, [STORE_KEYS[name]]: request.result });
+    });
+    (change.delete ?? []).forEach((key) => store.delete(key));
+    stored[name] = { put, delete: change.delete };
+  });
+  await transactionDone(tx);
+  return stored as StoreChanges;
+};
+
+export const deleteRecord = async (store: StoreName, key: IDBValidKey): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(store, "readwrite");
+  tx.objectStore(store).delete(key);
+  return transactionDone(tx);
+};
+
+// Copies data.ts into the database the first time the app runs in this browser.
+const seedDatabase = async (db: IDBDatabase): Promise<void> => {
+  const seeded = await requestToPromise(
+    db.transaction(META_STORE).objectStore(META_STORE).get(SEEDED_KEY)
+  );
+  if (seeded) return;
+
+  const seed: StoreData = {
+    ...allData,
+    movimientos: buildOpeningMovements(allData.adjudicados, new Date().toISOString()),
+    ordenes: [],
+    movimientosAlmacen: [],
+    documentos: [],
+    consultas: [],
+    consultasGuardadas: [],
+    graficas: [],
+    recetas: [],
+    menus: [],
+    convenios: [],
+    auditoria: [],
+  };
+  const tx = db.transaction([...STORE_NAMES, META_STORE], "readwrite");
+  STORE_NAMES.forEach((name) => {
+    (seed[name] as object[]).forEach((record) => tx.objectStore(name).put(record));
+  });
+  tx.objectStore(META_STORE).put(new Date().toISOString(), SEEDED_KEY);
+  return transactionDone(tx);
+};
+
+// Hashes plain-text passwords still in the store, whether from the seed or from a database created before login existed.
+const upgradeLegacyPasswords = async (): Promise<void> => {
+  const legacy = (await getAllRecords("usuarios")).filter((u) => u.contrasena !== undefined);
+  if (legacy.length === 0) return;
+  await putRecords("usuarios", await Promise.all(legacy.map((u) => withHashedPassword(u))));
+};
+
+// Contracts from data.ts, or saved before suppliers had a stable key, only name their supplier.
+const linkContractSuppliers = async (): Promise<void> => {
+  const unlinked = (await getAllRecords("contratos")).filter((c) => c.id_proveedor_fk === undefined);
+  if (unlinked.length === 0) return;
+  await putRecords("contratos", linkSupplierKeys(unlinked, await getAllRecords("proveedores")));
+};
+
+// Maps articles that predate the unit catalog onto it.
+const mapArticleUnits = async (): Promise<void> => {
+  const unmapped = (await getAllRecords("articulos")).filter((a) => a.unidad_codigo === undefined);
+  if (unmapped.length === 0) return;
+  await putRecords("articulos", unmapped.map(normalizeArticleUnit));
+};
+
+export const loadDatabase = async (): Promise<StoreData> => {
+  const db = await openDatabase();
+  await seedDatabase(db);
+  await upgradeLegacyPasswords();
+  await linkContractSuppliers();
+  await mapArticleUnits();
+  const entries = await Promise.all(
+    STORE_NAMES.map(async (name) => [name, await getAllRecords(name)] as const)
+  );
+  return Object.fromEntries(entries) as StoreData;
+};
+
+// Mirrors a put/delete on the in-memory copy so the UI does not need to reload the store.
+export const mergeRecords = <K extends StoreName>(
+  store: K,
+  existing: StoreRecords[K][],
+  records: StoreRecords[K][]
+): StoreRecords[K][] => {
+  const key = STORE_KEYS[store];
+  const incoming = new Map(records.map((r) => [r[key], r]));
+  const merged = existing.map((r) => incoming.get(r[key]) ?? r);
+  const existingKeys = new Set(existing.map((r) => r[key]));
+  return [...merged, ...records.filter((r) => !existingKeys.has(r[key]))];
+};
+
+// Mirrors a committed set of changes, as commitChanges returned them, on the in-memory copy.
+export const applyChanges = (data: StoreData, changes: StoreChanges): StoreData => {
+  const next = { ...data } as Record<StoreName, unknown[]>;
+  (Object.keys(changes) as StoreName[]).forEach((name) => {
+    const change = changes[name]!;
+    let records = mergeRecords(name, data[name], (change.put ?? []) as StoreRecords[typeof name][]);
+    (change.delete ?? []).forEach((key) => {
+      records = removeRecord(name, records, key);
+    });
+    next[name] = records;
+  });
+  return next as StoreData;
+};
+
+export const removeRecord = <K extends StoreName>(
+  store: K,
+  existing: StoreRecords[K][],
+  keyValue: unknown
+): StoreRecords[K][] => existing.filter((r) => r[STORE_KEYS[store]] !== keyValue);
@@ -0,0 +1,54 @@
+import type { Adjudicado, Articulo, Contrato, Proveedor } from "../types";
+import { computeContractBudget } from "./budgetService";
+import { computeContractTaxes } from "./taxService";
+
+const normalizeName = (name: string) => name.trim().replace(/\s+/g, " ").toUpperCase();
+
+// Fills `id_proveedor_fk` on contracts that only carry the supplier's name; unmatched names get null.
+export const linkSupplierKeys = (contratos: Contrato[], proveedores: Proveedor[]): Contrato[] => {
+  const byName = new Map(proveedores.map((p) => [normalizeName(p.proveedor), p.id_proveedor]));
+  return contratos.map((c) => ({ ...c, id_proveedor_fk: byName.get(normalizeName(c.proveedor_fk)) ?? null }));
+};
+
+export const findSupplierByName = (proveedores: Proveedor[], name: string): Proveedor | undefined =>
+  proveedores.find((p) => normalizeName(p.proveedor) === normalizeName(name));
+
+type ContratoConAdjudicados = Contrato & { adjudicados: (Adjudicado & { articulo?: Articulo })[] };
+
+export interface SupplierProfile<C extends ContratoConAdjudicados> {
+  contratos: C[];
+  adjudicados: (C["adjudicados"][number] & { contrato: string })[];
+  // Awarded maximums with taxes, so it compares with `ejercido`, which includes them too.
+  monto_contratado: number;
+  ejercido: number;
+  porcentaje: number;
+  // Articles no other supplier has been awarded.
+  articulos_exclusivos: Articulo[];
+}
+
+export const buildSupplierProfile = <C extends ContratoConAdjudicados>(
+  proveedor: Proveedor,
+  contratos: C[],
+  articulos: Articulo[]
+): SupplierProfile<C> => {
+  const propios = contratos.filter((c) => c.id_proveedor_fk === proveedor.id_proveedor);
+  const adjudicados = propios.flatMap((c) => c.adjudicados.map((adj) => ({ ...adj, contrato: c.contrato })));
+  const monto_contratado = propios.reduce((sum, c) => sum + computeContractTaxes(c, "cantidad_maxima").total, 0);
+  const ejercido = propios.reduce((sum, c) => sum + computeContractBudget(c).ejercido, 0);
+
+  const otrosCodigos = new Set(
+    contratos
+      .filter((c) => c.id_proveedor_fk !== proveedor.id_proveedor)
+      .flatMap((c) => c.adjudicados.map((adj) => adj.codigo_fk))
+  );
+  const propiosCodigos = new Set(adjudicados.map((adj) => adj.codigo_fk));
+
+  return {
+    contratos: propios,
+    adjudicados,
+    monto_contratado,
+    ejercido,
+    porcentaje: monto_contratado > 0 ? (ejercido / monto_contratado) * 100 : 0,
+    articulos_exclusivos: articulos.filter((a) => propiosCodigos.has(a.codigo) && !otrosCodigos.has(a.codigo)),
+  };
+};
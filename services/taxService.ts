@@ -0,0 +1,97 @@
+import type { Adjudicado, Contrato, PartidaOrden } from "../types";
+
+export interface TaxBreakdown {
+  subtotal: number;
+  ieps: number;
+  iva: number;
+  total: number;
+}
+
+export interface TaxOptions {
+  // IEPS is charged first and IVA is then computed on price + IEPS, as the IVA law requires.
+  iepsEnBaseIva: boolean;
+}
+
+export const DEFAULT_TAX_OPTIONS: TaxOptions = { iepsEnBaseIva: true };
+
+export const ZERO_TAXES: TaxBreakdown = { subtotal: 0, ieps: 0, iva: 0, total: 0 };
+
+// Half away from zero, after removing float noise such as 1.005 * 100 = 100.49999...
+export const roundCents = (amount: number): number =>
+  (Math.sign(amount) * Math.round(Number((Math.abs(amount) * 100).toPrecision(12)))) / 100;
+
+// Each line is rounded on its own, like the lines of an invoice, so totals always add up.
+export const computeLineTaxes = (
+  cantidad: number,
+  adjudicado: Pick<Adjudicado, "precio_unitario" | "iva" | "ieps">,
+  options: TaxOptions = DEFAULT_TAX_OPTIONS
+): TaxBreakdown => {
+  const subtotal = roundCents(cantidad * adjudicado.precio_unitario);
+  // IVA and IEPS are stored as percentages (16 means 16%).
+  const ieps = roundCents((subtotal * (adjudicado.ieps || 0)) / 100);
+  const baseIva = options.iepsEnBaseIva ? subtotal + ieps : subtotal;
+  const iva = roundCents((baseIva * (adjudicado.iva || 0)) / 100);
+  return { subtotal, ieps, iva, total: roundCents(subtotal + ieps + iva) };
+};
+
+export const sumTaxes = (breakdowns: TaxBreakdown[]): TaxBreakdown =>
+  breakdowns.reduce(
+    (sum, b) => ({
+      subtotal: roundCents(sum.subtotal + b.subtotal),
+      ieps: roundCents(sum.ieps + b.ieps),
+      iva: roundCents(sum.iva + b.iva),
+      total: roundCents(sum.total + b.total),
+    }),
+    ZERO_TAXES
+  );
+
+export const computeOrderTaxes = (
+  partidas: PartidaOrden[],
+  adjudicados: Adjudicado[],
+  options: TaxOptions = DEFAULT_TAX_OPTIONS
+): TaxBreakdown =>
+  sumTaxes(
+    partidas.flatMap((partida) => {
+      // The terms copied into the order; older orders without them use the line's current ones.
+      const condiciones = partida.condiciones ?? adjudicados.find((adj) => adj.id_adjudicado === partida.adjudicado_fk);
+      return condiciones ? [computeLineTaxes(partida.cantidad, condiciones, options)] : [];
+    })
+  );
+
+// Which quantity of each awarded item to price: the awarded maximum or what has been consumed.
+export type TaxBasis = "cantidad_maxima" | "cantidad_consumida";
+
+// Part of a line's consumption bought at one price; see priceConsumption in amendmentService.
+export interface TramoConsumo {
+  cantidad: number;
+  precio_unitario: number;
+}
+
+export type AdjudicadoConConsumo = Adjudicado & { consumo_por_precio?: TramoConsumo[] };
+
+// With the consumption split by price, what was consumed keeps the price it was bought at and only the
+// rest of the maximum uses the current one.
+const computeLineBasisTaxes = (adj: AdjudicadoConConsumo, basis: TaxBasis, options: TaxOptions): TaxBreakdown[] => {
+  if (!adj.consumo_por_precio) return [computeLineTaxes(adj[basis], adj, options)];
+  const consumido = adj.consumo_por_precio.map((t) => computeLineTaxes(t.cantidad, { ...adj, precio_unitario: t.precio_unitario }, options));
+  const restante = basis === "cantidad_maxima" ? adj.cantidad_maxima - adj.consumo_por_precio.reduce((sum, t) => sum + t.cantidad, 0) : 0;
+  return restante > 0 ? [...consumido, computeLineTaxes(restante, adj, options)] : consumido;
+};
+
+export const computeContractTaxes = (
+  contrato: Contrato & { adjudicados: AdjudicadoConConsumo[] },
+  basis: TaxBasis,
+  options: TaxOptions = DEFAULT_TAX_OPTIONS
+): TaxBreakdown => sumTaxes(contrato.adjudicados.flatMap((adj) => computeLineBasisTaxes(adj, basis, options)));
+
+export const computeSupplierTaxes = (
+  contratos: (Contrato & { adjudicados: AdjudicadoConConsumo[] })[],
+  id_proveedor: number,
+  basis: TaxBasis,
+  options: TaxOptions = DEFAULT_TAX_OPTIONS
+): TaxBreakdown =>
+  sumTaxes(
+    contratos
+      .filter((c) => c.id_proveedor_fk === id_proveedor)
+      .map((c) => computeContractTaxes(c, basis, options))
+  );
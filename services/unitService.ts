@@ -0,0 +1,104 @@
+import type { Articulo, UnidadBase } from "../types";
+
+export interface UnidadMedida {
+  codigo: string;
+  nombre: string;
+  // Spellings found in `unidad_medida`, compared after normalization.
+  alias: string[];
+  // Base units convert 1:1; package units need the content of each package.
+  base: UnidadBase | null;
+  // Fixed content for packages with a standard size (a gallon is always 3.785 L).
+  contenido?: number;
+}
+
+export const UNIT_CATALOG: UnidadMedida[] = [
+  { codigo: "KG", nombre: "Kilogramo", alias: ["KG", "KGS", "KILO", "KILOS", "KILOGRAMO", "KILOGRAMOS"], base: "KG" },
+  { codigo: "LITRO", nombre: "Litro", alias: ["LITRO", "LITROS", "LT", "LTS", "L"], base: "LITRO" },
+  { codigo: "PIEZA", nombre: "Pieza", alias: ["PIEZA", "PIEZAS", "PZA", "PZAS", "PZ"], base: "PIEZA" },
+  { codigo: "GALON", nombre: "Galón", alias: ["GALON", "GALONES", "GAL"], base: "LITRO", contenido: 3.785 },
+  { codigo: "FRASCO", nombre: "Frasco", alias: ["FRASCO", "FRASCOS", "FCO", "FCOS"], base: null },
+  { codigo: "LATA", nombre: "Lata", alias: ["LATA", "LATAS"], base: null },
+  { codigo: "CAJA", nombre: "Caja", alias: ["CAJA", "CAJAS"], base: null },
+  { codigo: "PAQUETE", nombre: "Paquete", alias: ["PAQUETE", "PAQUETES", "PAQ", "PQT"], base: null },
+  { codigo: "BOLSA", nombre: "Bolsa", alias: ["BOLSA", "BOLSAS"], base: null },
+  { codigo: "BOTE", nombre: "Bote", alias: ["BOTE", "BOTES"], base: null },
+  { codigo: "GARRAFON", nombre: "Garrafón", alias: ["GARRAFON", "GARRAFONES"], base: null },
+  { codigo: "BIDON", nombre: "Bidón", alias: ["BIDON", "BIDONES"], base: null },
+  { codigo: "SOBRE", nombre: "Sobre", alias: ["SOBRE", "SOBRES"], base: null },
+  { codigo: "MANOJO", nombre: "Manojo", alias: ["MANOJO", "MANOJOS"], base: null },
+  { codigo: "LIBRO", nombre: "Libro", alias: ["LIBRO", "LIBROS"], base: null },
+];
+
+export const UNIDADES_BASE: UnidadBase[] = ["KG", "LITRO", "PIEZA"];
+
+const normalizeText = (value: string) =>
+  value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toUpperCase()
+    .trim();
+
+export const findUnit = (unidad_medida: string | null | undefined): UnidadMedida | undefined => {
+  if (!unidad_medida) return undefined;
+  const value = normalizeText(unidad_medida).replace(/\.$/, "");
+  return UNIT_CATALOG.find((u) => u.alias.includes(value));
+};
+
+export const findUnitByCode = (codigo: string | null | undefined): UnidadMedida | undefined =>
+  UNIT_CATALOG.find((u) => u.codigo === codigo);
+
+// Weight and volume units that show up in descriptions, with their factor to KG or LITRO.
+const CONTENT_UNITS: { pattern: string; base: UnidadBase; factor: number }[] = [
+  { pattern: "KILOGRAMOS?|KILOS?|KGS?", base: "KG", factor: 1 },
+  { pattern: "GRAMOS?|GRS?|G", base: "KG", factor: 0.001 },
+  { pattern: "MILILITROS?|ML", base: "LITRO", factor: 0.001 },
+  { pattern: "LITROS?|LTS?|L", base: "LITRO", factor: 1 },
+];
+
+const NUMBER = "(\\d+(?:[.,]\\d+)?)";
+const CONTENT_REGEX = new RegExp(
+  `(?:(\\d+)\\s+(?:[A-Z]+\\s+){0,2}DE\\s+)?${NUMBER}\\s*(${CONTENT_UNITS.map((u) => u.pattern).join("|")})\\b`
+);
+
+// Reads the net content of one package from its description: "MOLE POBLANO 2800 GRS" is 2.8 KG,
+// "CHOCOLATE EN TABLILLA CON 6 DE 90 GR C/U" is 0.54 KG.
+// Pieces are counted as such unless the description gives their weight or volume.
+export const parseContent = (descripcion: string): { contenido: number; base: UnidadBase } | null => {
+  const match = normalizeText(descripcion).match(CONTENT_REGEX);
+  if (!match) return null;
+  const [, piezas, cantidad, unidad] = match;
+  const unit = CONTENT_UNITS.find((u) => new RegExp(`^(?:${u.pattern})$`).test(unidad));
+  if (!unit) return null;
+  const contenido = Number(cantidad.replace(",", ".")) * unit.factor * (piezas ? Number(piezas) : 1);
+  return contenido > 0 ? { contenido: Math.round(contenido * 1e6) / 1e6, base: unit.base } : null;
+};
+
+// Maps an article onto the catalog: canonical unit code, base unit and base units per purchase unit.
+// Package units whose content cannot be read from the description keep `contenido_neto` null.
+export const normalizeArticleUnit = (articulo: Articulo): Articulo => {
+  const unidad = findUnit(articulo.unidad_medida);
+  const contenidoDescrito = parseContent(articulo.descripcion_articulo);
+
+  let unidad_base: UnidadBase | null = null;
+  let contenido_neto: number | null = null;
+  if (unidad?.base && unidad.base !== "PIEZA" && unidad.contenido === undefined) {
+    unidad_base = unidad.base;
+    contenido_neto = 1;
+  } else if (contenidoDescrito) {
+    unidad_base = contenidoDescrito.base;
+    contenido_neto = contenidoDescrito.contenido;
+  } else if (unidad?.base) {
+    unidad_base = unidad.base;
+    contenido_neto = unidad.contenido ?? 1;
+  }
+
+  return { ...articulo, unidad_codigo: unidad?.codigo ?? null, unidad_base, contenido_neto };
+};
+
+export const pricePerBaseUnit = (precio: number, articulo: Pick<Articulo, "contenido_neto">): number | null =>
+  articulo.contenido_neto ? precio / articulo.contenido_neto : null;
+
+export const formatContent = (articulo: Pick<Articulo, "contenido_neto" | "unidad_base">): string =>
+  articulo.contenido_neto && articulo.unidad_base
+    ? `${Number(articulo.contenido_neto.toFixed(3))} ${articulo.unidad_base}`
+    : "";
@@ -0,0 +1,322 @@
+import { ESTATUS_AGOTADO, ESTATUS_DISPONIBLE } from "./ledgerService";
+import { parseDate } from "./dateService";
+import type { EntityName } from "./entityService";
+import type { StoreData } from "./storageService";
+import { findUnitByCode } from "./unitService";
+
+export type Severidad = "error" | "advertencia" | "info";
+
+export interface DataIssue {
+  id: string;
+  regla: string;
+  severidad: Severidad;
+  entidad: EntityName;
+  // Primary key of the offending record, as stored.
+  clave: string | number;
+  registro: string;
+  mensaje: string;
+}
+
+export const SEVERIDAD_ORDEN: Record<Severidad, number> = { error: 0, advertencia: 1, info: 2 };
+
+// Money comparisons allow one cent of rounding noise.
+const CENT = 0.01;
+
+type Emit = (issue: Omit<DataIssue, "id" | "regla">) => void;
+
+interface Rule {
+  regla: string;
+  check: (data: StoreData, emit: Emit) => void;
+}
+
+const RULES: Rule[] = [
+  {
+    regla: "Contrato del adjudicado",
+    check: (data, emit) => {
+      const contratos = new Set(data.contratos.map((c) => c.contrato));
+      data.adjudicados
+        .filter((adj) => !contratos.has(adj.contrato_fk))
+        .forEach((adj) =>
+          emit({
+            severidad: "error",
+            entidad: "adjudicados",
+            clave: adj.id_adjudicado,
+            registro: `Adjudicado ${adj.id_adjudicado}`,
+            mensaje: `El contrato "${adj.contrato_fk}" no existe.`,
+          })
+        );
+    },
+  },
+  {
+    regla: "Artículo del adjudicado",
+    check: (data, emit) => {
+      const codigos = new Set(data.articulos.map((a) => a.codigo));
+      data.adjudicados
+        .filter((adj) => !codigos.has(adj.codigo_fk))
+        .forEach((adj) =>
+          emit({
+            severidad: "error",
+            entidad: "adjudicados",
+            clave: adj.id_adjudicado,
+            registro: `Adjudicado ${adj.id_adjudicado}`,
+            mensaje: `El artículo ${adj.codigo_fk} no existe en el catálogo.`,
+          })
+        );
+    },
+  },
+  {
+    regla: "Mínima contra máxima",
+    check: (data, emit) =>
+      data.adjudicados
+        .filter((adj) => adj.cantidad_minima > adj.cantidad_maxima)
+        .forEach((adj) =>
+          emit({
+            severidad: "error",
+            entidad: "adjudicados",
+            clave: adj.id_adjudicado,
+            registro: `${adj.contrato_fk} · ${adj.codigo_fk}`,
+            mensaje: `La cantidad mínima (${adj.cantidad_minima}) excede la máxima (${adj.cantidad_maxima}).`,
+          })
+        ),
+  },
+  {
+    regla: "Importe máximo",
+    check: (data, emit) =>
+      data.adjudicados.forEach((adj) => {
+        const esperado = adj.cantidad_maxima * adj.precio_unitario;
+        if (Math.abs(esperado - adj.importe_maximo) > CENT) {
+          emit({
+            severidad: "advertencia",
+            entidad: "adjudicados",
+            clave: adj.id_adjudicado,
+            registro: `${adj.contrato_fk} · ${adj.codigo_fk}`,
+            mensaje: `El importe máximo es ${adj.importe_maximo.toFixed(2)} pero cantidad máxima × precio unitario da ${esperado.toFixed(2)}.`,
+          });
+        }
+      }),
+  },
+  {
+    regla: "Cantidad disponible",
+    check: (data, emit) =>
+      data.adjudicados.forEach((adj) => {
+        const esperado = adj.cantidad_maxima - adj.cantidad_consumida;
+        if (adj.cantidad_disponible !== esperado) {
+          emit({
+            severidad: "advertencia",
+            entidad: "adjudicados",
+            clave: adj.id_adjudicado,
+            registro: `${adj.contrato_fk} · ${adj.codigo_fk}`,
+            mensaje: `La cantidad disponible es ${adj.cantidad_disponible} pero máxima − consumida da ${esperado}.`,
+          });
+        }
+      }),
+  },
+  {
+    regla: "Estatus de cantidad",
+    check: (data, emit) =>
+      data.adjudicados.forEach((adj) => {
+        const esperado = adj.cantidad_disponible > 0 ? ESTATUS_DISPONIBLE : ESTATUS_AGOTADO;
+        if (adj.estatus_cantidad !== esperado) {
+          emit({
+            severidad: "advertencia",
+            entidad: "adjudicados",
+            clave: adj.id_adjudicado,
+            registro: `${adj.contrato_fk} · ${adj.codigo_fk}`,
+            mensaje: `El estatus es ${adj.estatus_cantidad} con ${adj.cantidad_disponible} disponibles; debería ser ${esperado}.`,
+          });
+        }
+      }),
+  },
+  {
+    regla: "Adjudicado duplicado",
+    check: (data, emit) => {
+      const vistos = new Map<string, number>();
+      data.adjudicados.forEach((adj) => {
+        const key = `${adj.contrato_fk}|${adj.codigo_fk}`;
+        const previo = vistos.get(key);
+        if (previo !== undefined) {
+          emit({
+            severidad: "advertencia",
+            entidad: "adjudicados",
+            clave: adj.id_adjudicado,
+            registro: `${adj.contrato_fk} · ${adj.codigo_fk}`,
+            mensaje: `El artículo ya está adjudicado en este contrato (adjudicado ${previo}).`,
+          });
+        } else {
+          vistos.set(key, adj.id_adjudicado);
+        }
+      });
+    },
+  },
+  {
+    regla: "Precio medio",
+    check: (data, emit) =>
+      data.articulos.forEach((a) => {
+        const precio = Number(a.precio_medio);
+        if (typeof a.precio_medio === "string" || !Number.isFinite(precio) || precio <= 0) {
+          const invalido = !Number.isFinite(precio) || precio <= 0;
+          emit({
+            severidad: invalido ? "advertencia" : "info",
+            entidad: "articulos",
+            clave: a.codigo,
+            registro: `${a.codigo} · ${a.descripcion_articulo}`,
+            mensaje: invalido
+              ? `El precio medio "${a.precio_medio}" no es un importe válido.`
+              : `El precio medio está guardado como texto ("${a.precio_medio}").`,
+          });
+        }
+      }),
+  },
+  {
+    regla: "Unidad de medida",
+    check: (data, emit) =>
+      data.articulos.forEach((a) => {
+        const unidad = findUnitByCode(a.unidad_codigo);
+        if (!unidad) {
+          emit({
+            severidad: "advertencia",
+            entidad: "articulos",
+            clave: a.codigo,
+            registro: `${a.codigo} · ${a.descripcion_articulo}`,
+            mensaje: `La unidad "${a.unidad_medida}" no corresponde a ninguna unidad del catálogo.`,
+          });
+        } else if (!a.contenido_neto || !a.unidad_base) {
+          emit({
+            severidad: "info",
+            entidad: "articulos",
+            clave: a.codigo,
+            registro: `${a.codigo} · ${a.descripcion_articulo}`,
+            mensaje: `Falta el contenido neto de cada ${unidad.nombre.toLowerCase()}; el precio no se puede comparar por unidad base.`,
+          });
+        }
+      }),
+  },
+  {
+    regla: "Licitación del contrato",
+    check: (data, emit) => {
+      const licitaciones = new Set(data.licitaciones.map((l) => l.licitacion));
+      data.contratos
+        .filter((c) => !licitaciones.has(c.licitacion_fk))
+        .forEach((c) =>
+          emit({
+            severidad: "error",
+            entidad: "contratos",
+            clave: c.id_contrato,
+            registro: c.contrato,
+            mensaje: `La licitación "${c.licitacion_fk}" no existe.`,
+          })
+        );
+    },
+  },
+  {
+    regla: "Proveedor del contrato",
+    check: (data, emit) => {
+      const proveedores = new Map(data.proveedores.map((p) => [p.id_proveedor, p]));
+      data.contratos.forEach((c) => {
+        const proveedor = c.id_proveedor_fk != null ? proveedores.get(c.id_proveedor_fk) : undefined;
+        if (!proveedor) {
+          emit({
+            severidad: "error",
+            entidad: "contratos",
+            clave: c.id_contrato,
+            registro: c.contrato,
+            mensaje: `El proveedor "${c.proveedor_fk}" no existe en el catálogo de proveedores.`,
+          });
+        } else if (proveedor.proveedor !== c.proveedor_fk) {
+          emit({
+            severidad: "info",
+            entidad: "contratos",
+            clave: c.id_contrato,
+            registro: c.contrato,
+            mensaje: `El contrato nombra al proveedor "${c.proveedor_fk}"; en el catálogo se llama "${proveedor.proveedor}".`,
+          });
+        }
+      });
+    },
+  },
+  {
+    regla: "Formato de fecha",
+    check: (data, emit) => {
+      // Contracts without valid dates have no vigencia at all; other dates are optional.
+      const check = (
+        entidad: "articulos" | "contratos" | "licitaciones",
+        clave: string | number,
+        registro: string,
+        campos: [string, string | null][]
+      ) =>
+        campos
+          .filter(([, valor]) => (entidad === "contratos" || valor) && !parseDate(valor))
+          .forEach(([campo, valor]) =>
+            emit({
+              severidad: entidad === "contratos" ? "error" : "advertencia",
+              entidad,
+              clave,
+              registro,
+              mensaje: `${campo} "${valor ?? ""}" no es una fecha válida (dd/mm/aaaa o "dd de mes de aaaa").`,
+            })
+          );
+      data.contratos.forEach((c) =>
+        check("contratos", c.id_contrato, c.contrato, [["inicio_vigencia", c.inicio_vigencia], ["fin_vigencia", c.fin_vigencia]])
+      );
+      data.articulos.forEach((a) =>
+        check("articulos", a.codigo, `${a.codigo} · ${a.descripcion_articulo}`, [["ultima_fecha", a.ultima_fecha]])
+      );
+      data.licitaciones.forEach((l) =>
+        check("licitaciones", l.id_licitacion, l.licitacion, [
+          ["fecha_convocatoria", l.fecha_convocatoria],
+          ["fecha_dudas", l.fecha_dudas],
+          ["fecha_apertura", l.fecha_apertura],
+          ["fecha_fallo", l.fecha_fallo],
+        ])
+      );
+    },
+  },
+  {
+    regla: "Vigencia del contrato",
+    check: (data, emit) =>
+      data.contratos.forEach((c) => {
+        const inicio = parseDate(c.inicio_vigencia);
+        const fin = parseDate(c.fin_vigencia);
+        if (inicio && fin && inicio > fin) {
+          emit({
+            severidad: "error",
+            entidad: "contratos",
+            clave: c.id_contrato,
+            registro: c.contrato,
+            mensaje: `El inicio de vigencia (${c.inicio_vigencia}) es posterior al fin (${c.fin_vigencia}).`,
+          });
+        }
+      }),
+  },
+  {
+    regla: "Contrato duplicado",
+    check: (data, emit) => {
+      const vistos = new Set<string>();
+      data.contratos.forEach((c) => {
+        if (vistos.has(c.contrato)) {
+          emit({
+            severidad: "error",
+            entidad: "contratos",
+            clave: c.id_contrato,
+            registro: c.contrato,
+            mensaje: `Hay más de un contrato con el número ${c.contrato}.`,
+          });
+        }
+        vistos.add(c.contrato);
+      });
+    },
+  },
+];
+
+export const VALIDATION_RULES = RULES.map((rule) => rule.regla);
+
+// Runs every rule over the stored records (not the ledger-adjusted view) and returns the findings, most severe first.
+export const validateDataset = (data: StoreData): DataIssue[] => {
+  const issues: DataIssue[] = [];
+  RULES.forEach((rule) =>
+    rule.check(data, (issue) =>
+      issues.push({ ...issue, regla: rule.regla, id: `${rule.regla}|${issue.entidad}|${issue.clave}|${issues.length}` })
+    )
+  );
+  return issues.sort((a, b) => SEVERIDAD_ORDEN[a.severidad] - SEVERIDAD_ORDEN[b.severidad]);
+};
@@ -1,3 +1,7 @@
+import type { ChartSpec } from "./services/chartService";
+import type { EntityName } from "./services/entityService";
+import type { QueryRow, StructuredQuery } from "./services/queryService";
+
 
 export interface Adjudicado {
   id_adjudicado: number;
@@ -23,13 +27,22 @@ export interface Articulo {
   ultima_fecha: string;
   estatus: string | null;
   imagen_producto: string | null;
+  // Catalog unit `unidad_medida` maps to, and how many base units (KG, LITRO or PIEZA) one purchase unit holds.
+  unidad_codigo?: string | null;
+  unidad_base?: UnidadBase | null;
+  contenido_neto?: number | null;
 }
 
+export type UnidadBase = "KG" | "LITRO" | "PIEZA";
+
 export interface Contrato {
   id_contrato: number;
   licitacion_fk: string;
   contrato: string;
+  // Supplier name as written in the contract.
   proveedor_fk: string;
+  // Stable link to `Proveedor.id_proveedor`, so renaming a supplier keeps its contracts.
+  id_proveedor_fk?: number | null;
   monto_maximo: number;
   inicio_vigencia: string;
   fin_vigencia: string;
@@ -63,7 +76,198 @@ export interface Proveedor {
 export interface Usuario {
   rud: number;
   nombre: string;
-  contrasena: number;
+  // Plain-text password as it comes in data.ts; replaced by the salted hash when the store is loaded.
+  contrasena?: number;
+  contrasena_hash?: string;
+  contrasena_salt?: string;
   correo_electronico: string | null;
   rol: string;
 }
+
+export interface MovimientoAdjudicado {
+  id_movimiento: number;
+  adjudicado_fk: number;
+  fecha: string;
+  cantidad: number;
+  usuario_fk: number | null;
+  referencia: string;
+}
+
+export type NuevoMovimientoAdjudicado = Omit<MovimientoAdjudicado, "id_movimiento">;
+
+export type EstatusOrden = "BORRADOR" | "APROBADA" | "CANCELADA" | "CERRADA";
+
+// Terms of an order line as the order was issued, so editing or amending the award later leaves the
+// document and its totals as they were.
+export interface CondicionesPartida {
+  codigo_fk: number;
+  descripcion: string;
+  unidad_medida: string;
+  precio_unitario: number;
+  iva: number;
+  ieps: number;
+}
+
+export interface PartidaOrden {
+  adjudicado_fk: number;
+  cantidad: number;
+  // Set when the order is created and again when it is approved; missing on orders saved before it existed.
+  condiciones?: CondicionesPartida;
+}
+
+export interface OrdenSuministro {
+  id_orden: number;
+  folio: string;
+  contrato_fk: string;
+  fecha: string;
+  estatus: EstatusOrden;
+  partidas: PartidaOrden[];
+  usuario_fk: number | null;
+  fecha_aprobacion: string | null;
+  fecha_cierre: string | null;
+}
+
+export type NuevaOrdenSuministro = Pick<OrdenSuministro, "contrato_fk" | "fecha" | "partidas" | "usuario_fk">;
+
+export type TipoMovimientoAlmacen = "ENTRADA" | "SALIDA";
+
+export interface MovimientoAlmacen {
+  id_movimiento_almacen: number;
+  codigo_fk: number;
+  tipo: TipoMovimientoAlmacen;
+  fecha: string;
+  cantidad: number;
+  costo_unitario: number;
+  referencia: string;
+  area: string | null;
+  usuario_fk: number | null;
+}
+
+export type NuevoMovimientoAlmacen = Omit<MovimientoAlmacen, "id_movimiento_almacen">;
+
+// A file uploaded from the browser and kept in IndexedDB, e.g. a tender's PDF.
+export interface Documento {
+  id_documento: number;
+  nombre: string;
+  tipo: string;
+  tamano: number;
+  fecha_carga: string;
+  contenido: Blob;
+}
+
+// A question asked in the Explorador IA, with the query it produced and the rows it returned at the time.
+export interface ConsultaIA {
+  id_consulta: number;
+  pregunta: string;
+  fecha: string;
+  usuario_fk: number | null;
+  // Provider and model that produced the query; "local" when a saved query was re-run without the model.
+  proveedor: string;
+  modelo: string;
+  consulta: StructuredQuery | null;
+  columnas: string[];
+  filas: QueryRow[];
+  filas_evaluadas: number;
+  error: string | null;
+  guardada_fk: number | null;
+}
+
+export type NuevaConsultaIA = Omit<ConsultaIA, "id_consulta">;
+
+// A named question whose query can be re-run against current data without asking the model again.
+export interface ConsultaGuardada {
+  id_guardada: number;
+  nombre: string;
+  pregunta: string;
+  consulta: StructuredQuery;
+  fijada: boolean;
+  usuario_fk: number | null;
+  fecha_creacion: string;
+}
+
+// A chart pinned to the dashboard. The query runs again against current data every time it is shown.
+export interface GraficaFijada {
+  id_grafica: number;
+  titulo: string;
+  consulta: StructuredQuery;
+  grafica: ChartSpec;
+  usuario_fk: number | null;
+  fecha_creacion: string;
+}
+
+// Quantities are per portion, in the article's base unit (KG, LITRO, PIEZA) when it has a known net content,
+// otherwise in its purchase unit.
+export interface IngredienteReceta {
+  codigo_fk: number;
+  cantidad_por_racion: number;
+}
+
+export interface Receta {
+  id_receta: number;
+  nombre: string;
+  ingredientes: IngredienteReceta[];
+}
+
+export type TipoCicloMenu = "SEMANAL" | "MENSUAL";
+
+export interface DiaMenu {
+  // 1 for the first day of the cycle.
+  dia: number;
+  comensales: number;
+  recetas_fk: number[];
+}
+
+export interface CicloMenu {
+  id_menu: number;
+  nombre: string;
+  tipo: TipoCicloMenu;
+  dias: DiaMenu[];
+}
+
+// New values for one awarded line; null keeps the current one.
+export interface CambioPartidaConvenio {
+  adjudicado_fk: number;
+  cantidad_maxima: number | null;
+  precio_unitario: number | null;
+}
+
+// Convenio modificatorio. The original Contrato and Adjudicado records are never overwritten; their effective
+// values are the originals with every amendment applied in date order.
+export interface ConvenioModificatorio {
+  id_convenio: number;
+  contrato_fk: string;
+  folio: string;
+  fecha: string;
+  justificacion: string;
+  // New values for the contract; null keeps the current one.
+  monto_maximo: number | null;
+  fin_vigencia: string | null;
+  partidas: CambioPartidaConvenio[];
+  usuario_fk: number | null;
+}
+
+export type NuevoConvenioModificatorio = Omit<ConvenioModificatorio, "id_convenio" | "folio">;
+
+export type AccionAuditoria = "CREAR" | "EDITAR" | "ELIMINAR";
+
+// One field's value before and after the change; null where the record did not exist.
+export interface CambioCampo {
+  campo: string;
+  antes: unknown;
+  despues: unknown;
+}
+
+// Entry of the audit log. The log is append-only: entries are never edited or deleted.
+export interface RegistroAuditoria {
+  id_auditoria: number;
+  entidad: EntityName;
+  // The record's key as text, so numeric and text keys are searched the same way.
+  clave: string;
+  accion: AccionAuditoria;
+  usuario_fk: number | null;
+  fecha: string;
+  cambios: CambioCampo[];
+}
+
+// The database assigns the id when the entry is added.
+export type NuevoRegistroAuditoria = Omit<RegistroAuditoria, "id_auditoria">;